@@ -1,358 +1,373 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-
-const MIN_FREQ = 10;
-const MAX_FREQ = 25000;
-const MAX_VOLUME = 0.2;
-const SPECTRUM_BARS = 72;
-
-function sliderToFrequency(value: number) {
-  const ratio = value / 100;
-  return MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, ratio);
-}
-
-function frequencyToSlider(freq: number) {
-  return (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * 100;
-}
-
-function frequencyToNoteLabel(freq: number) {
-  const notes = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-  const midi = Math.round(12 * Math.log2(freq / 440) + 69);
-  const note = notes[((midi % 12) + 12) % 12];
-  const octave = Math.floor(midi / 12) - 1;
-  const target = 440 * Math.pow(2, (midi - 69) / 12);
-  const cents = Math.round(1200 * Math.log2(freq / target));
-  const centsSign = cents > 0 ? `+${cents}` : `${cents}`;
-  return `${note}${octave} (${centsSign}c)`;
-}
-
-function formatFreq(freq: number) {
-  return freq >= 1000
-    ? `${(freq / 1000).toFixed(2)} kHz`
-    : `${Math.round(freq)} Hz`;
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Announcer from "./components/Announcer";
+import CustomWavePanel from "./components/CustomWavePanel";
+import DistortionPanel from "./components/DistortionPanel";
+import EnvelopePanel from "./components/EnvelopePanel";
+import ExportPanel from "./components/ExportPanel";
+import FrequencyEntry from "./components/FrequencyEntry";
+import HearingPanel from "./components/HearingPanel";
+import LevelPanel from "./components/LevelPanel";
+import LfoPanel from "./components/LfoPanel";
+import MidiPanel from "./components/MidiPanel";
+import MixerPanel from "./components/MixerPanel";
+import OutputPanel from "./components/OutputPanel";
+import PresetsPanel from "./components/PresetsPanel";
+import RecorderPanel from "./components/RecorderPanel";
+import ResponsePanel from "./components/ResponsePanel";
+import ScopePanel from "./components/ScopePanel";
+import SequencerPanel from "./components/SequencerPanel";
+import ShortcutsDialog from "./components/ShortcutsDialog";
+import SpectrogramPanel from "./components/SpectrogramPanel";
+import SpectrumPanel from "./components/SpectrumPanel";
+import StereoPanel from "./components/StereoPanel";
+import SweepPanel from "./components/SweepPanel";
+import TuningPanel from "./components/TuningPanel";
+import { MAX_VOLUME, Voice, voiceFrequency } from "./audio/toneGraph";
+import { createToneEngine } from "./audio/engine";
+import { openOutputContext } from "./audio/output";
+import {
+  BurstSettings,
+  EnvelopeSettings
+} from "./lib/envelope";
+import {
+  MAX_FREQ,
+  MIN_FREQ,
+  clampFrequency,
+  formatFreq,
+  frequencyToNoteLabel,
+  frequencyToSlider,
+  nudgeFrequency,
+  sliderToFrequency,
+  spokenNoteLabel
+} from "./lib/frequency";
+import { ratioToDb } from "./lib/distortion";
+import { HarmonicSpectrum } from "./lib/harmonics";
+import {
+  MIN_LEVEL_DB,
+  REFERENCE_FREQUENCY,
+  REFERENCE_LEVEL_DB,
+  dbToGain,
+  formatDb,
+  loadCeiling,
+  storeCeiling
+} from "./lib/level";
+import { LfoSettings, sidebandFrequencies } from "./lib/lfo";
+import { OutputSettings, loadOutputSettings, storeOutputSettings } from "./lib/output";
+import {
+  DEFAULT_SETTINGS,
+  GeneratorSettings,
+  settingsFromHash,
+  settingsToHash
+} from "./lib/presets";
+import { shortcutFor } from "./lib/shortcuts";
+import { AnalysisSettings, DEFAULT_ANALYSIS } from "./lib/spectrogram";
+import { IdentStep, StereoSettings, stereoOutputs } from "./lib/stereo";
+import { loadHighContrast, storeHighContrast } from "./lib/theme";
+import { Tuning } from "./lib/tuning";
+import { SweepSettings } from "./lib/sweep";
+import {
+  MAX_BANDWIDTH,
+  MIN_BANDWIDTH,
+  NOISE_TYPES
+} from "./lib/noise";
+import { WAVEFORMS, WAVEFORM_ICONS, Waveform, isClassic, isNoise } from "./lib/waveforms";
+
+const URL_SYNC_DELAY_MS = 300;
+
+/** Settings from the page's link, falling back to defaults if it's unusable. */
+function readLinkSettings() {
+  try {
+    return { settings: settingsFromHash(window.location.hash) ?? DEFAULT_SETTINGS, error: null };
+  } catch (err) {
+    return {
+      settings: DEFAULT_SETTINGS,
+      error: err instanceof Error ? err.message : "Invalid link"
+    };
+  }
 }
 
-const WAVEFORMS: OscillatorType[] = ["sine", "square", "triangle", "sawtooth"];
-
-const WAVEFORM_ICONS: Partial<Record<OscillatorType, string>> = {
-  sine: "~",
-  square: "[]",
-  triangle: "/\\",
-  sawtooth: "/|"
-};
-
 export default function App() {
-  const [frequency, setFrequency] = useState(440);
-  const [volume, setVolume] = useState(0.08);
-  const [waveform, setWaveform] = useState<OscillatorType>("sine");
+  const [initial] = useState(readLinkSettings);
+  const [frequency, setFrequency] = useState(initial.settings.frequency);
+  const [volume, setVolume] = useState(initial.settings.volume);
+  const [waveform, setWaveform] = useState<Waveform>(initial.settings.waveform);
+  const [bandwidth, setBandwidth] = useState(initial.settings.bandwidth);
+  const [customWave, setCustomWave] = useState<HarmonicSpectrum>(initial.settings.customWave);
+  const [bandLimited, setBandLimited] = useState(initial.settings.bandLimited);
+  // Harmonics the band-limited shape currently keeps; null for native shapes.
+  const [harmonics, setHarmonics] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [sweepEnabled, setSweepEnabled] = useState(initial.settings.sweepEnabled);
+  const [sweep, setSweep] = useState<SweepSettings>(initial.settings.sweep);
+  const [sweepFrequency, setSweepFrequency] = useState<number | null>(null);
+  const [voices, setVoices] = useState<Voice[]>(initial.settings.voices);
+  const [envelope, setEnvelope] = useState<EnvelopeSettings>(initial.settings.envelope);
+  const [burst, setBurst] = useState<BurstSettings>(initial.settings.burst);
+  const [tuning, setTuning] = useState<Tuning>(initial.settings.tuning);
+  const [stereo, setStereo] = useState<StereoSettings>(initial.settings.stereo);
+  const [lfo, setLfo] = useState<LfoSettings>(initial.settings.lfo);
+  const [ceilingDb, setCeilingDb] = useState(loadCeiling);
+  const [analysis, setAnalysis] = useState<AnalysisSettings>(DEFAULT_ANALYSIS);
+  const [identStep, setIdentStep] = useState<IdentStep | null>(null);
+  // Velocity of the MIDI note playing, applied on top of the output level.
+  const [noteGain, setNoteGain] = useState(1);
+  const [output, setOutput] = useState<OutputSettings>(loadOutputSettings);
+  const [outputError, setOutputError] = useState<string | null>(null);
+  const [outputWarning, setOutputWarning] = useState<string | null>(null);
+  const [highContrast, setHighContrast] = useState(loadHighContrast);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+
+  const [engine] = useState(() =>
+    createToneEngine(
+      { ...initial.settings, sweep: initial.settings.sweepEnabled ? initial.settings.sweep : null },
+      { ceilingDb, analysis, output }
+    )
+  );
 
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const oscillatorRef = useRef<OscillatorNode | null>(null);
-  const gainRef = useRef<GainNode | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const spectrumCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const logCanvasRef = useRef<HTMLCanvasElement | null>(null);
-
+  const volumeDb = Math.max(MIN_LEVEL_DB, ratioToDb(volume));
+  const stereoActive = stereo.mode !== "off";
+  const channelOutputs = useMemo(
+    () => (stereoActive ? stereoOutputs(stereo) : null),
+    [stereo, stereoActive]
+  );
+  // In stereo the headline follows the carrier, or the left output in split mode.
+  const liveFrequency =
+    stereo.mode === "binaural"
+      ? stereo.carrier
+      : (channelOutputs?.left.frequency ?? sweepFrequency ?? frequency);
+  const toneFrequencies = useMemo(
+    () =>
+      channelOutputs
+        ? [channelOutputs.left.frequency, channelOutputs.right.frequency]
+        : [liveFrequency],
+    [channelOutputs, liveFrequency]
+  );
   const sliderValue = useMemo(() => frequencyToSlider(frequency), [frequency]);
-  const noteLabel = useMemo(() => frequencyToNoteLabel(frequency), [frequency]);
+  const noteLabel = useMemo(
+    () => frequencyToNoteLabel(liveFrequency, tuning),
+    [liveFrequency, tuning]
+  );
+  const voiceFrequencies = useMemo(() => voices.map(voiceFrequency), [voices]);
+  // Broadband noise has no frequency to alias.
+  const requestedFrequencies = useMemo(
+    () => [
+      ...(stereoActive || !isNoise(waveform) || waveform === "bandpass" ? toneFrequencies : []),
+      ...voiceFrequencies
+    ],
+    [stereoActive, toneFrequencies, voiceFrequencies, waveform]
+  );
+  const sidebands = useMemo(
+    () => toneFrequencies.flatMap((freq) => sidebandFrequencies(freq, lfo, MAX_FREQ)),
+    [lfo, toneFrequencies]
+  );
 
-  useEffect(() => {
-    if (!oscillatorRef.current || !audioCtxRef.current) return;
-    oscillatorRef.current.frequency.setValueAtTime(
+  const settings = useMemo<GeneratorSettings>(
+    () => ({
       frequency,
-      audioCtxRef.current.currentTime
-    );
-  }, [frequency]);
+      volume,
+      waveform,
+      bandwidth,
+      customWave,
+      bandLimited,
+      voices,
+      envelope,
+      burst,
+      sweepEnabled,
+      sweep,
+      tuning,
+      stereo,
+      lfo
+    }),
+    [
+      bandLimited,
+      bandwidth,
+      burst,
+      customWave,
+      envelope,
+      frequency,
+      lfo,
+      stereo,
+      sweep,
+      sweepEnabled,
+      tuning,
+      voices,
+      volume,
+      waveform
+    ]
+  );
 
-  useEffect(() => {
-    if (!gainRef.current || !audioCtxRef.current) return;
-    gainRef.current.gain.setValueAtTime(volume, audioCtxRef.current.currentTime);
-  }, [volume]);
+  const applySettings = useCallback((next: GeneratorSettings) => {
+    setFrequency(next.frequency);
+    setVolume(next.volume);
+    setWaveform(next.waveform);
+    setBandwidth(next.bandwidth);
+    setCustomWave(next.customWave);
+    setBandLimited(next.bandLimited);
+    setVoices(next.voices);
+    setEnvelope(next.envelope);
+    setBurst(next.burst);
+    setSweepEnabled(next.sweepEnabled);
+    setSweep(next.sweep);
+    setTuning(next.tuning);
+    setStereo(next.stereo);
+    setLfo(next.lfo);
+  }, []);
 
+  // Calibration reference: a lone 1 kHz sine with nothing modulating it.
+  const loadReference = useCallback(() => {
+    applySettings({
+      ...settings,
+      frequency: REFERENCE_FREQUENCY,
+      volume: dbToGain(REFERENCE_LEVEL_DB),
+      waveform: "sine",
+      voices: [],
+      burst: { ...settings.burst, mode: "off" },
+      sweepEnabled: false,
+      stereo: { ...settings.stereo, mode: "off" },
+      lfo: { ...settings.lfo, target: "off" }
+    });
+  }, [applySettings, settings]);
+
+  // Keep the address bar shareable. Debounced because browsers throttle
+  // history updates and sliders change settings on every frame.
   useEffect(() => {
-    if (!oscillatorRef.current || !audioCtxRef.current) return;
-    oscillatorRef.current.type = waveform;
-  }, [waveform]);
+    const timeout = window.setTimeout(() => {
+      window.history.replaceState(null, "", settingsToHash(settings));
+    }, URL_SYNC_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [settings]);
 
+  // replaceState doesn't fire hashchange, so this only sees pasted links.
   useEffect(() => {
-    return () => {
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
+    const onHashChange = () => {
+      try {
+        const next = settingsFromHash(window.location.hash);
+        if (next) applySettings(next);
+      } catch {
+        // Leave the current tone alone; the next sync rewrites the hash.
       }
-      oscillatorRef.current?.stop();
-      oscillatorRef.current?.disconnect();
-      gainRef.current?.disconnect();
-      analyserRef.current?.disconnect();
-      void audioCtxRef.current?.close();
     };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [applySettings]);
+
+  useEffect(() => engine.on("playing", setIsPlaying), [engine]);
+  useEffect(() => engine.on("sweep", setSweepFrequency), [engine]);
+  useEffect(() => engine.on("ident", setIdentStep), [engine]);
+  useEffect(() => engine.on("harmonics", setHarmonics), [engine]);
+
+  // A saved device that has since been unplugged plays on the default instead,
+  // and is forgotten so the choice in the output panel matches what plays.
+  const forgetMissingDevice = useCallback(() => {
+    setOutputWarning("The saved output device wasn't found, so audio plays on the system default");
+    setOutput((current) => ({ ...current, deviceId: "" }));
   }, []);
-
+  useEffect(() => engine.on("missingDevice", forgetMissingDevice), [engine, forgetMissingDevice]);
+
+  useEffect(() => engine.setWaveform(waveform), [engine, waveform]);
+  useEffect(() => engine.setCustomWave(customWave), [customWave, engine]);
+  useEffect(() => engine.setBandLimited(bandLimited), [bandLimited, engine]);
+  useEffect(() => engine.setStereo(stereo), [engine, stereo]);
+  useEffect(() => engine.setLfo(lfo), [engine, lfo]);
+  useEffect(() => engine.setFrequency(frequency), [engine, frequency]);
+  useEffect(() => engine.setBandwidth(bandwidth), [bandwidth, engine]);
+  useEffect(() => engine.setSweep(sweepEnabled ? sweep : null), [engine, sweep, sweepEnabled]);
+  useEffect(() => engine.setEnvelope(envelope), [engine, envelope]);
+  useEffect(() => engine.setBurst(burst), [burst, engine]);
+  useEffect(() => engine.setVolume(volume * noteGain), [engine, noteGain, volume]);
+  useEffect(() => engine.setVoices(voices), [engine, voices]);
   useEffect(() => {
-    const drawOnCanvas = (
-      canvas: HTMLCanvasElement,
-      draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void
-    ) => {
-      const rect = canvas.getBoundingClientRect();
-      if (!rect.width || !rect.height) return;
-
-      const dpr = window.devicePixelRatio || 1;
-      const displayWidth = Math.floor(rect.width * dpr);
-      const displayHeight = Math.floor(rect.height * dpr);
-
-      if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
-        canvas.width = displayWidth;
-        canvas.height = displayHeight;
-      }
-
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-      draw(ctx, rect.width, rect.height);
-    };
-
-    const drawSpectrum = () => {
-      const canvas = spectrumCanvasRef.current;
-      if (!canvas) return;
-
-      drawOnCanvas(canvas, (ctx, width, height) => {
-        ctx.clearRect(0, 0, width, height);
-        ctx.fillStyle = "#080a14";
-        ctx.fillRect(0, 0, width, height);
-
-        // Grid lines
-        ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
-        ctx.lineWidth = 1;
-        for (let i = 1; i < 5; i += 1) {
-          const y = (height / 5) * i;
-          ctx.beginPath();
-          ctx.moveTo(0, y);
-          ctx.lineTo(width, y);
-          ctx.stroke();
-        }
-
-        const analyser = analyserRef.current;
-        if (!analyser || !isPlaying) {
-          ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
-          ctx.font = "500 13px 'Inter', sans-serif";
-          ctx.fillText("Start tone to view live spectrum", 14, height / 2);
-          return;
-        }
-
-        const data = new Uint8Array(analyser.frequencyBinCount);
-        analyser.getByteFrequencyData(data);
-
-        const nyquist = (audioCtxRef.current?.sampleRate ?? 48000) / 2;
-        const barWidth = width / SPECTRUM_BARS;
-
-        for (let i = 0; i < SPECTRUM_BARS; i += 1) {
-          const fromFreq = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, i / SPECTRUM_BARS);
-          const toFreq =
-            MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, (i + 1) / SPECTRUM_BARS);
-          const fromIndex = Math.max(
-            0,
-            Math.floor((fromFreq / nyquist) * data.length)
-          );
-          const toIndex = Math.min(
-            data.length - 1,
-            Math.ceil((toFreq / nyquist) * data.length)
-          );
-
-          let bucketMax = 0;
-          for (let j = fromIndex; j <= toIndex; j += 1) {
-            bucketMax = Math.max(bucketMax, data[j]);
-          }
-
-          const normalized = bucketMax / 255;
-          const barHeight = normalized * (height - 28);
-          const x = i * barWidth + 1;
-          const y = height - barHeight - 2;
-
-          // Gradient bars: cyan at bottom, magenta at top
-          const gradient = ctx.createLinearGradient(x, height, x, y);
-          gradient.addColorStop(0, "rgba(0, 229, 255, 0.9)");
-          gradient.addColorStop(0.5, "rgba(0, 229, 255, 0.6)");
-          gradient.addColorStop(1, "rgba(224, 64, 251, 0.8)");
-          ctx.fillStyle = gradient;
-          ctx.fillRect(x, y, Math.max(1, barWidth - 2), barHeight);
-
-          // Glow effect on top of bars
-          if (normalized > 0.3) {
-            ctx.shadowColor = "rgba(0, 229, 255, 0.4)";
-            ctx.shadowBlur = 8;
-            ctx.fillRect(x, y, Math.max(1, barWidth - 2), 2);
-            ctx.shadowBlur = 0;
-          }
-        }
-
-        // Frequency marker
-        const markerX =
-          (Math.log(frequency / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
-        ctx.strokeStyle = "rgba(224, 64, 251, 0.8)";
-        ctx.lineWidth = 1.5;
-        ctx.setLineDash([4, 4]);
-        ctx.beginPath();
-        ctx.moveTo(markerX, 0);
-        ctx.lineTo(markerX, height);
-        ctx.stroke();
-        ctx.setLineDash([]);
-      });
-    };
+    storeCeiling(ceilingDb);
+    engine.setCeiling(ceilingDb);
+  }, [ceilingDb, engine]);
+  useEffect(() => engine.setAnalysis(analysis), [analysis, engine]);
+  useEffect(() => {
+    storeOutputSettings(output);
+    engine.setOutput(output).then(
+      () => setOutputError(null),
+      (err: unknown) => setOutputError(err instanceof Error ? err.message : "Couldn't switch output")
+    );
+  }, [engine, output]);
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  const getAnalyser = useCallback(() => engine.getAnalyser(), [engine]);
+  const getScopeTap = useCallback(() => engine.getScopeTap(), [engine]);
+  const getOutput = useCallback(() => engine.getOutput(), [engine]);
+  const getLimiterGain = useCallback(() => engine.getLimiterGain(), [engine]);
+  const getBurstGate = useCallback(() => engine.getBurstGate(), [engine]);
+  const getContext = useCallback(() => engine.getContext(), [engine]);
+  const openOutput = useCallback(() => engine.openOutput(), [engine]);
+  const openContext = useCallback(
+    () => openOutputContext(output, forgetMissingDevice),
+    [forgetMissingDevice, output]
+  );
+  const changeOutput = useCallback((next: OutputSettings) => {
+    setOutputWarning(null);
+    setOutput(next);
+  }, []);
 
-    const drawLogMap = (time: number) => {
-      const canvas = logCanvasRef.current;
-      if (!canvas) return;
-
-      drawOnCanvas(canvas, (ctx, width, height) => {
-        ctx.clearRect(0, 0, width, height);
-        ctx.fillStyle = "#080a14";
-        ctx.fillRect(0, 0, width, height);
-
-        const freqToX = (freq: number) =>
-          (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
-
-        // Frequency grid
-        const ticks = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
-        ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
-        ctx.lineWidth = 1;
-        ticks.forEach((tick) => {
-          const x = freqToX(tick);
-          ctx.beginPath();
-          ctx.moveTo(x, 0);
-          ctx.lineTo(x, height);
-          ctx.stroke();
-        });
-
-        // Baseline
-        ctx.strokeStyle = "rgba(0, 229, 255, 0.15)";
-        ctx.beginPath();
-        ctx.moveTo(0, height - 20);
-        ctx.lineTo(width, height - 20);
-        ctx.stroke();
-
-        // Tick labels
-        ctx.fillStyle = "rgba(136, 146, 176, 0.5)";
-        ctx.font = "10px 'JetBrains Mono', monospace";
-        [100, 1000, 10000].forEach((tick) => {
-          const x = freqToX(tick);
-          const label = tick >= 1000 ? `${tick / 1000}k` : `${tick}`;
-          ctx.fillText(label, x - 6, height - 6);
-        });
-
-        const amplitude = Math.min(1, volume / MAX_VOLUME);
-        const pulse = isPlaying ? 0.9 + Math.sin(time / 420) * 0.1 : 0.55;
-
-        // Fill area under curve
-        ctx.beginPath();
-        for (let x = 0; x <= width; x += 1) {
-          const currentFreq =
-            MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, x / Math.max(1, width));
-          const distance = Math.log2(currentFreq / frequency);
-          const envelope = Math.exp(-(distance * distance) / (2 * 0.23 * 0.23));
-          const y =
-            height - 20 - envelope * amplitude * pulse * Math.max(24, height - 44);
-
-          if (x === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
-        ctx.lineTo(width, height - 20);
-        ctx.lineTo(0, height - 20);
-        ctx.closePath();
-        const fillGrad = ctx.createLinearGradient(0, 0, 0, height);
-        fillGrad.addColorStop(0, "rgba(0, 229, 255, 0.15)");
-        fillGrad.addColorStop(1, "rgba(0, 229, 255, 0.02)");
-        ctx.fillStyle = fillGrad;
-        ctx.fill();
-
-        // Curve line
-        ctx.strokeStyle = "rgba(0, 229, 255, 0.85)";
-        ctx.lineWidth = 2;
-        ctx.shadowColor = "rgba(0, 229, 255, 0.5)";
-        ctx.shadowBlur = 10;
-        ctx.beginPath();
-        for (let x = 0; x <= width; x += 1) {
-          const currentFreq =
-            MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, x / Math.max(1, width));
-          const distance = Math.log2(currentFreq / frequency);
-          const envelope = Math.exp(-(distance * distance) / (2 * 0.23 * 0.23));
-          const y =
-            height - 20 - envelope * amplitude * pulse * Math.max(24, height - 44);
-
-          if (x === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
-        ctx.stroke();
-        ctx.shadowBlur = 0;
-
-        // Peak marker
-        const markerX = freqToX(frequency);
-        const markerY =
-          height - 20 - amplitude * pulse * Math.max(24, height - 44);
-        ctx.fillStyle = "#00e5ff";
-        ctx.shadowColor = "rgba(0, 229, 255, 0.8)";
-        ctx.shadowBlur = 12;
-        ctx.beginPath();
-        ctx.arc(markerX, markerY, 5, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.shadowBlur = 0;
-      });
-    };
+  const startTone = useCallback(() => {
+    setOutputError(null);
+    engine.start().catch((err: unknown) => {
+      setOutputError(err instanceof Error ? err.message : "Couldn't start audio");
+    });
+  }, [engine]);
+
+  // Applied to the engine straight away so a cold start begins on the note.
+  const noteOn = useCallback(
+    (freq: number, gain: number) => {
+      setFrequency(freq);
+      setNoteGain(gain);
+      engine.setFrequency(freq);
+      engine.setVolume(volume * gain);
+      startTone();
+    },
+    [engine, startTone, volume]
+  );
 
-    const render = (time: number) => {
-      drawSpectrum();
-      drawLogMap(time);
-      animationFrameRef.current = requestAnimationFrame(render);
-    };
+  const noteOff = useCallback(() => {
+    void engine.stop();
+    setNoteGain(1);
+  }, [engine]);
 
-    animationFrameRef.current = requestAnimationFrame(render);
+  useEffect(() => {
+    storeHighContrast(highContrast);
+    document.documentElement.classList.toggle("high-contrast", highContrast);
+  }, [highContrast]);
 
-    return () => {
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
+  // Page-wide shortcuts. Keys a focused control uses itself are left to it,
+  // and the dialog handles its own keys while it is open.
+  useEffect(() => {
+    if (shortcutsOpen) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = event.defaultPrevented ? null : shortcutFor(event);
+      if (!action) return;
+      event.preventDefault();
+      switch (action.type) {
+        case "toggle":
+          if (engine.playing) void engine.stop();
+          else startTone();
+          break;
+        case "waveform":
+          setWaveform(action.waveform);
+          break;
+        case "frequency":
+          setFrequency((freq) => clampFrequency(nudgeFrequency(freq, action.step, action.direction)));
+          break;
+        case "volume":
+          setVolume((current) => {
+            const db = Math.max(MIN_LEVEL_DB, ratioToDb(current)) + action.db;
+            return dbToGain(Math.min(ratioToDb(MAX_VOLUME), Math.max(MIN_LEVEL_DB, db)));
+          });
+          break;
+        case "help":
+          setShortcutsOpen(true);
+          break;
       }
     };
-  }, [frequency, isPlaying, volume]);
-
-  const startTone = async () => {
-    if (isPlaying) return;
-    const context = new AudioContext();
-    const oscillator = context.createOscillator();
-    const gain = context.createGain();
-    const analyser = context.createAnalyser();
-
-    analyser.fftSize = 4096;
-    analyser.smoothingTimeConstant = 0.82;
-
-    oscillator.type = waveform;
-    oscillator.frequency.setValueAtTime(frequency, context.currentTime);
-    gain.gain.setValueAtTime(volume, context.currentTime);
-
-    oscillator.connect(gain);
-    gain.connect(analyser);
-    analyser.connect(context.destination);
-    oscillator.start();
-
-    audioCtxRef.current = context;
-    oscillatorRef.current = oscillator;
-    gainRef.current = gain;
-    analyserRef.current = analyser;
-    setIsPlaying(true);
-  };
-
-  const stopTone = async () => {
-    oscillatorRef.current?.stop();
-    oscillatorRef.current?.disconnect();
-    gainRef.current?.disconnect();
-    analyserRef.current?.disconnect();
-    oscillatorRef.current = null;
-    gainRef.current = null;
-    analyserRef.current = null;
-    await audioCtxRef.current?.close();
-    audioCtxRef.current = null;
-    setIsPlaying(false);
-  };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [engine, shortcutsOpen, startTone]);
 
   return (
     <main className="relative min-h-screen overflow-x-hidden bg-[#060810] px-4 py-8 font-body text-white sm:px-8">
@@ -380,20 +395,50 @@ export default function App() {
             </p>
           </div>
 
-          {/* Live note badge */}
-          <div className="rounded-xl border border-accent/20 bg-accent/5 px-5 py-3 backdrop-blur">
-            <p className="text-[10px] uppercase tracking-[0.2em] text-accent/60">Live Note</p>
-            <p className="mt-1 font-mono text-lg font-semibold text-accent">{noteLabel}</p>
+          <div className="flex items-end gap-3">
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => setShortcutsOpen(true)}
+                aria-keyshortcuts="?"
+                className="rounded-lg border border-white/[0.06] bg-white/[0.02] px-3 py-1.5 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80"
+              >
+                Shortcuts ?
+              </button>
+              <button
+                onClick={() => setHighContrast((on) => !on)}
+                aria-pressed={highContrast}
+                className={`rounded-lg border px-3 py-1.5 font-mono text-[11px] transition-all ${
+                  highContrast
+                    ? "border-accent/50 bg-accent/10 text-accent"
+                    : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+                }`}
+              >
+                High contrast
+              </button>
+            </div>
+
+            {/* Live note badge */}
+            <div className="rounded-xl border border-accent/20 bg-accent/5 px-5 py-3 backdrop-blur">
+              <p className="text-[10px] uppercase tracking-[0.2em] text-accent/60">Live Note</p>
+              <p className="mt-1 font-mono text-lg font-semibold text-accent">{noteLabel}</p>
+            </div>
           </div>
         </div>
 
+        <Announcer
+          message={`${formatFreq(liveFrequency)}, ${spokenNoteLabel(liveFrequency, tuning)}, ${waveform}`}
+        />
+        <Announcer message={`Level ${formatDb(volumeDb)}`} />
+        <Announcer message={isPlaying ? "Tone playing" : "Tone stopped"} />
+        <ShortcutsDialog open={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
+
         <div className="grid gap-4 xl:grid-cols-[minmax(0,1.55fr)_minmax(0,1fr)]">
           {/* Controls panel */}
           <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-5 backdrop-blur-xl">
             {/* Frequency */}
             <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
               <label className="flex items-center justify-between text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
-                <span>Frequency</span>
+                <span>{waveform === "bandpass" ? "Band Centre" : "Frequency"}</span>
                 <span className="font-mono text-lg tracking-normal text-accent">
                   {formatFreq(frequency)}
                 </span>
@@ -412,6 +457,27 @@ export default function App() {
                 <span>{MIN_FREQ} Hz</span>
                 <span>{MAX_FREQ / 1000} kHz</span>
               </div>
+              <FrequencyEntry frequency={frequency} tuning={tuning} onChange={setFrequency} />
+            </div>
+
+            <div className="mt-4">
+              <TuningPanel
+                frequency={frequency}
+                tuning={tuning}
+                onFrequencyChange={setFrequency}
+                onTuningChange={setTuning}
+              />
+            </div>
+
+            <div className="mt-4">
+              <MidiPanel
+                tuning={tuning}
+                onNoteOn={noteOn}
+                onNoteOff={noteOff}
+                onFrequencyChange={setFrequency}
+                onVolumeChange={setVolume}
+                onWaveformChange={setWaveform}
+              />
             </div>
 
             {/* Volume + Waveform */}
@@ -423,23 +489,23 @@ export default function App() {
                 <input
                   aria-label="Volume"
                   type="range"
-                  min={0.01}
-                  max={0.2}
-                  step={0.01}
-                  value={volume}
-                  onChange={(e) => setVolume(Number(e.target.value))}
+                  min={MIN_LEVEL_DB}
+                  max={ratioToDb(MAX_VOLUME)}
+                  step={0.5}
+                  value={volumeDb}
+                  onChange={(e) => setVolume(dbToGain(Number(e.target.value)))}
                   className="accent-tone thumb-inside h-2 mt-3 w-full"
                 />
                 <div className="mt-2 flex items-center gap-2">
                   <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/5">
                     <div
                       className="h-full rounded-full bg-gradient-to-r from-tone/80 to-tone transition-all duration-150"
-                      style={{ width: `${(volume / MAX_VOLUME) * 100}%` }}
+                      style={{
+                        width: `${((volumeDb - MIN_LEVEL_DB) / (ratioToDb(MAX_VOLUME) - MIN_LEVEL_DB)) * 100}%`
+                      }}
                     />
                   </div>
-                  <span className="font-mono text-xs text-tone">
-                    {Math.round(volume * 100)}%
-                  </span>
+                  <span className="font-mono text-xs text-tone">{formatDb(volumeDb)}</span>
                 </div>
               </div>
 
@@ -448,10 +514,12 @@ export default function App() {
                   Waveform
                 </span>
                 <div className="mt-3 grid grid-cols-2 gap-2">
-                  {WAVEFORMS.map((w) => (
+                  {WAVEFORMS.map((w, index) => (
                     <button
                       key={w}
                       onClick={() => setWaveform(w)}
+                      aria-pressed={waveform === w}
+                      aria-keyshortcuts={String(index + 1)}
                       className={`rounded-lg border px-3 py-2 font-mono text-xs transition-all ${
                         waveform === w
                           ? "border-accent/50 bg-accent/10 text-accent shadow-[0_0_12px_rgba(0,229,255,0.15)]"
@@ -462,22 +530,169 @@ export default function App() {
                       <span className="mt-1 block capitalize">{w}</span>
                     </button>
                   ))}
+                  <button
+                    onClick={() => setWaveform("custom")}
+                    aria-pressed={waveform === "custom"}
+                    className={`col-span-2 rounded-lg border px-3 py-2 font-mono text-xs transition-all ${
+                      waveform === "custom"
+                        ? "border-accent/50 bg-accent/10 text-accent shadow-[0_0_12px_rgba(0,229,255,0.15)]"
+                        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+                    }`}
+                  >
+                    <span className="block text-base leading-none">{WAVEFORM_ICONS.custom}</span>
+                    <span className="mt-1 block">Custom</span>
+                  </button>
                 </div>
+                {isClassic(waveform) && (
+                  <div className="mt-3 grid grid-cols-2 gap-2">
+                    {[false, true].map((limited) => (
+                      <button
+                        key={String(limited)}
+                        onClick={() => setBandLimited(limited)}
+                        aria-pressed={bandLimited === limited}
+                        className={`rounded-lg border px-2 py-1.5 font-mono text-[11px] transition-all ${
+                          bandLimited === limited
+                            ? "border-accent/50 bg-accent/10 text-accent"
+                            : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+                        }`}
+                      >
+                        {limited ? "Band-limited" : "Native"}
+                      </button>
+                    ))}
+                    <p className="col-span-2 font-mono text-[10px] text-muted">
+                      {!bandLimited
+                        ? "Browser oscillator"
+                        : harmonics === null
+                          ? "Harmonics stop below Nyquist"
+                          : `${harmonics} ${harmonics === 1 ? "harmonic" : "harmonics"} below Nyquist`}
+                    </p>
+                  </div>
+                )}
+                <span className="mt-4 block text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+                  Noise
+                </span>
+                <div className="mt-3 grid grid-cols-2 gap-2">
+                  {NOISE_TYPES.map((w) => (
+                    <button
+                      key={w}
+                      onClick={() => setWaveform(w)}
+                      aria-pressed={waveform === w}
+                      className={`rounded-lg border px-3 py-2 font-mono text-xs transition-all ${
+                        waveform === w
+                          ? "border-accent/50 bg-accent/10 text-accent shadow-[0_0_12px_rgba(0,229,255,0.15)]"
+                          : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+                      }`}
+                    >
+                      <span className="block text-base leading-none">{WAVEFORM_ICONS[w]}</span>
+                      <span className="mt-1 block capitalize">{w === "bandpass" ? "Band-pass" : w}</span>
+                    </button>
+                  ))}
+                </div>
+                {waveform === "bandpass" && (
+                  <label className="mt-3 block">
+                    <span className="flex justify-between text-[10px] uppercase tracking-[0.15em] text-muted/70">
+                      <span>Bandwidth</span>
+                      <span className="font-mono normal-case tracking-normal text-accent">
+                        {bandwidth.toFixed(2)} oct
+                      </span>
+                    </span>
+                    <input
+                      aria-label="Bandwidth"
+                      type="range"
+                      min={MIN_BANDWIDTH}
+                      max={MAX_BANDWIDTH}
+                      step={0.01}
+                      value={bandwidth}
+                      onChange={(e) => setBandwidth(Number(e.target.value))}
+                      className="mt-2 h-2 w-full"
+                    />
+                  </label>
+                )}
               </div>
             </div>
 
+            {waveform === "custom" && (
+              <div className="mt-4">
+                <CustomWavePanel spectrum={customWave} onChange={setCustomWave} />
+              </div>
+            )}
+
+            <div className="mt-4">
+              <EnvelopePanel
+                envelope={envelope}
+                burst={burst}
+                onEnvelopeChange={setEnvelope}
+                onBurstChange={setBurst}
+              />
+            </div>
+
+            <div className="mt-4">
+              <SweepPanel
+                enabled={sweepEnabled}
+                settings={sweep}
+                onEnabledChange={setSweepEnabled}
+                onChange={setSweep}
+              />
+            </div>
+
+            <div className="mt-4">
+              <MixerPanel voices={voices} baseFrequency={frequency} onChange={setVoices} />
+            </div>
+
+            <div className="mt-4">
+              <LfoPanel
+                lfo={lfo}
+                onChange={setLfo}
+                pitched={stereoActive || !isNoise(waveform) || waveform === "bandpass"}
+              />
+            </div>
+
+            <div className="mt-4">
+              <StereoPanel
+                stereo={stereo}
+                onChange={setStereo}
+                isPlaying={isPlaying}
+                identStep={identStep}
+                onIdentify={() => engine.identify()}
+              />
+            </div>
+
+            <div className="mt-4">
+              <ExportPanel
+                settings={{
+                  frequency,
+                  waveform,
+                  bandwidth,
+                  customWave,
+                  bandLimited,
+                  volume,
+                  voices,
+                  stereo,
+                  lfo
+                }}
+                automation={{ sweep: sweepEnabled ? sweep : null, envelope, burst }}
+                ceiling={dbToGain(ceilingDb)}
+              />
+            </div>
+
+            <div className="mt-4">
+              <PresetsPanel settings={settings} onLoad={applySettings} linkError={initial.error} />
+            </div>
+
             {/* Play/Stop */}
             <div className="mt-5 flex items-center gap-4">
               {!isPlaying ? (
                 <button
                   onClick={startTone}
+                  aria-keyshortcuts="Space"
                   className="group relative rounded-xl bg-accent px-6 py-3 text-sm font-bold uppercase tracking-[0.15em] text-[#060810] transition-all duration-300 hover:scale-[1.02] hover:shadow-[0_0_30px_rgba(0,229,255,0.4)] animate-glow-pulse"
                 >
                   <span className="relative z-10">Start Tone</span>
                 </button>
               ) : (
                 <button
-                  onClick={stopTone}
+                  onClick={() => void engine.stop()}
+                  aria-keyshortcuts="Space"
                   className="rounded-xl border border-red-500/30 bg-red-500/10 px-6 py-3 text-sm font-bold uppercase tracking-[0.15em] text-red-400 transition-all duration-300 hover:bg-red-500/20 hover:shadow-[0_0_20px_rgba(239,68,68,0.2)]"
                 >
                   Stop Tone
@@ -504,9 +719,9 @@ export default function App() {
 
             <div className="mt-3 flex items-baseline gap-2">
               <span className="text-5xl font-semibold uppercase tracking-[0.2em] leading-none text-white">
-                {frequency >= 1000
-                  ? `${(frequency / 1000).toFixed(2)}k`
-                  : `${Math.round(frequency)}`}
+                {liveFrequency >= 1000
+                  ? `${(liveFrequency / 1000).toFixed(2)}k`
+                  : `${Math.round(liveFrequency)}`}
               </span>
               <span className="text-lg font-semibold uppercase tracking-[0.2em] text-accent/70">Hz</span>
             </div>
@@ -515,8 +730,36 @@ export default function App() {
 
             <div className="mt-5 space-y-2">
               {[
-                { label: "Wave", value: waveform, color: "text-accent" },
-                { label: "Level", value: `${Math.round(volume * 100)}%`, color: "text-tone" },
+                ...(channelOutputs
+                  ? [
+                      { label: "Left", value: `${formatFreq(channelOutputs.left.frequency)} · ${channelOutputs.left.waveform}`, color: "text-accent" },
+                      { label: "Right", value: `${formatFreq(channelOutputs.right.frequency)} · ${channelOutputs.right.waveform}`, color: "text-accent" },
+                      { label: "L / R Level", value: `${Math.round(Math.abs(channelOutputs.left.gain) * 100)}% / ${Math.round(Math.abs(channelOutputs.right.gain) * 100)}%`, color: "text-tone" }
+                    ]
+                  : [{ label: "Wave", value: waveform, color: "text-accent" }]),
+                ...(stereo.mode === "binaural"
+                  ? [{ label: "Beat", value: `${stereo.beat.toFixed(1)} Hz`, color: "text-secondary" }]
+                  : []),
+                ...(stereoActive && (stereo.swap || stereo.invert)
+                  ? [{ label: "Wiring", value: [stereo.swap && "swapped", stereo.invert && "R inverted"].filter(Boolean).join(" · "), color: "text-secondary" }]
+                  : []),
+                ...(identStep
+                  ? [{ label: "Identify", value: identStep === "both" ? "both" : `${identStep} only`, color: "text-secondary" }]
+                  : []),
+                ...(burst.mode !== "off"
+                  ? [{ label: "Bursts", value: burst.mode === "cycles" ? `${burst.cycles} cyc` : `${burst.onMs}/${burst.offMs} ms`, color: "text-secondary" }]
+                  : []),
+                ...(voices.length > 0
+                  ? [{ label: "Voices", value: `${voices.length + 1}`, color: "text-tone" }]
+                  : []),
+                ...(lfo.target !== "off"
+                  ? [{ label: "Mod", value: `${lfo.target === "frequency" ? "FM" : lfo.target === "amplitude" ? "AM" : "Ring"} · ${lfo.rate < 10 ? lfo.rate.toFixed(2) : Math.round(lfo.rate)} Hz`, color: "text-secondary" }]
+                  : []),
+                ...(sweepEnabled
+                  ? [{ label: "Sweep", value: `${sweep.curve} · ${sweep.repeat}`, color: "text-secondary" }]
+                  : []),
+                { label: "Level", value: formatDb(volumeDb), color: "text-tone" },
+                { label: "Ceiling", value: formatDb(ceilingDb), color: "text-secondary" },
                 { label: "Status", value: isPlaying ? "Running" : "Standby", color: isPlaying ? "text-accent" : "text-muted" }
               ].map((row) => (
                 <div
@@ -524,7 +767,7 @@ export default function App() {
                   className="flex items-center justify-between rounded-lg border border-white/[0.04] bg-white/[0.02] px-3 py-2.5"
                 >
                   <span className="text-xs text-muted/70">{row.label}</span>
-                  <span className={`font-mono text-sm font-semibold capitalize ${row.color}`}>
+                  <span className={`font-mono text-sm font-semibold first-letter:uppercase ${row.color}`}>
                     {row.value}
                   </span>
                 </div>
@@ -554,31 +797,87 @@ export default function App() {
 
         {/* Visualizer canvases */}
         <div className="mt-4 grid gap-4 xl:grid-cols-2">
-          <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
-            <div className="mb-3 flex items-center justify-between">
-              <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
-                Spectrum Analyzer
-              </p>
-              <p className="font-mono text-[10px] text-accent/40">FFT</p>
-            </div>
-            <canvas
-              ref={spectrumCanvasRef}
-              className="h-48 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
-            />
-          </div>
+          <SpectrumPanel
+            getAnalyser={getAnalyser}
+            getGate={getBurstGate}
+            getChannels={getScopeTap}
+            showChannels={stereoActive}
+            isPlaying={isPlaying}
+            toneFrequencies={toneFrequencies}
+            sidebandFrequencies={sidebands}
+            voiceFrequencies={voiceFrequencies}
+            tuning={tuning}
+          />
+
+          <ResponsePanel
+            isPlaying={isPlaying}
+            level={volume}
+            ceiling={dbToGain(ceilingDb)}
+            openContext={openContext}
+          />
+        </div>
 
-          <div className="hidden rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl xl:block">
-            <div className="mb-3 flex items-center justify-between">
-              <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
-                Frequency Response
-              </p>
-              <p className="font-mono text-[10px] text-accent/40">10 Hz — 25 kHz</p>
-            </div>
-            <canvas
-              ref={logCanvasRef}
-              className="h-48 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
-            />
-          </div>
+        <div className="mt-4">
+          <SpectrogramPanel
+            getOutput={getOutput}
+            isPlaying={isPlaying}
+            analysis={analysis}
+            onAnalysisChange={setAnalysis}
+          />
+        </div>
+
+        <div className="mt-4">
+          <LevelPanel
+            getChannels={getScopeTap}
+            getLimiterGain={getLimiterGain}
+            isPlaying={isPlaying}
+            ceilingDb={ceilingDb}
+            onCeilingChange={setCeilingDb}
+            onReference={loadReference}
+          />
+        </div>
+
+        <div className="mt-4">
+          <OutputPanel
+            output={output}
+            onChange={changeOutput}
+            getContext={getContext}
+            isPlaying={isPlaying}
+            frequencies={
+              sweepEnabled ? [sweep.startFreq, sweep.endFreq, ...requestedFrequencies] : requestedFrequencies
+            }
+            error={outputError}
+            warning={outputWarning}
+          />
+        </div>
+
+        <div className="mt-4">
+          <ScopePanel getTap={getScopeTap} isPlaying={isPlaying} />
+        </div>
+
+        <div className="mt-4">
+          <DistortionPanel
+            getOutput={getOutput}
+            isPlaying={isPlaying}
+            expectedFrequency={
+              waveform === "sine" && !sweepEnabled && voices.length === 0 && !stereoActive
+                ? frequency
+                : null
+            }
+            openContext={openContext}
+          />
+        </div>
+
+        <div className="mt-4">
+          <RecorderPanel getOutput={getOutput} isPlaying={isPlaying} openContext={openContext} />
+        </div>
+
+        <div className="mt-4">
+          <SequencerPanel isPlaying={isPlaying} openOutput={openOutput} />
+        </div>
+
+        <div className="mt-4">
+          <HearingPanel isPlaying={isPlaying} openContext={openContext} />
         </div>
 
         {/* Footer */}
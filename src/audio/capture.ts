@@ -0,0 +1,118 @@
+const CAPTURE_PROCESSOR = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice());
+    return true;
+  }
+}
+class StereoCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) this.port.postMessage(input.map((channel) => channel.slice()));
+    return true;
+  }
+}
+registerProcessor("capture-processor", CaptureProcessor);
+registerProcessor("stereo-capture-processor", StereoCaptureProcessor);
+`;
+
+const modules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadCaptureModule(context: BaseAudioContext) {
+  let loading = modules.get(context);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: "text/javascript" }));
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    modules.set(context, loading);
+  }
+  return loading;
+}
+
+/** Connects a capture worklet to `source`. Resolves to a function that disconnects it. */
+function startTap<T>(
+  context: BaseAudioContext,
+  source: AudioNode,
+  node: AudioWorkletNode,
+  onMessage: (data: T) => void
+) {
+  // Keep the worklet pulled by the graph without letting it reach the speakers.
+  const sink = context.createGain();
+  sink.gain.value = 0;
+
+  node.port.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+  source.connect(node);
+  node.connect(sink);
+  sink.connect(context.destination);
+
+  return () => {
+    node.port.onmessage = null;
+    try {
+      source.disconnect(node);
+    } catch {
+      // Already gone if the rest of the graph was torn down first.
+    }
+    node.disconnect();
+    sink.disconnect();
+  };
+}
+
+/**
+ * Streams the first channel of `source` to `onSamples`, one render quantum at
+ * a time. Resolves to a function that disconnects the tap.
+ */
+export async function startStream(
+  context: BaseAudioContext,
+  source: AudioNode,
+  onSamples: (samples: Float32Array) => void
+) {
+  await loadCaptureModule(context);
+  return startTap(context, source, new AudioWorkletNode(context, "capture-processor"), onSamples);
+}
+
+/** Like startStream, but delivers both channels, with mono sources upmixed to stereo. */
+export async function startStereoStream(
+  context: BaseAudioContext,
+  source: AudioNode,
+  onSamples: (channels: Float32Array[]) => void
+) {
+  await loadCaptureModule(context);
+  const node = new AudioWorkletNode(context, "stereo-capture-processor", {
+    channelCount: 2,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers"
+  });
+  return startTap(context, source, node, onSamples);
+}
+
+export interface Capture {
+  /** Disconnects the tap and returns everything captured so far. */
+  stop: () => Float32Array;
+}
+
+/** Records the first channel of `source` sample by sample until stopped. */
+export async function startCapture(context: BaseAudioContext, source: AudioNode): Promise<Capture> {
+  const chunks: Float32Array[] = [];
+  const stopStream = await startStream(context, source, (chunk) => chunks.push(chunk));
+
+  return {
+    stop: () => {
+      stopStream();
+      const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+      const samples = new Float32Array(length);
+      let offset = 0;
+      chunks.forEach((chunk) => {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+      });
+      return samples;
+    }
+  };
+}
+
+/** Captures `seconds` of `source` in real time. */
+export async function captureFor(context: BaseAudioContext, source: AudioNode, seconds: number) {
+  const capture = await startCapture(context, source);
+  await new Promise((resolve) => window.setTimeout(resolve, seconds * 1000));
+  return capture.stop();
+}
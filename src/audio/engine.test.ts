@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_SETTINGS } from "../lib/presets";
+import {
+  FakeParam,
+  asContext,
+  createFakeContext,
+  createFakeLimiter,
+  createFakeTimers,
+  nodesOf,
+  paramOf
+} from "../test/fakeAudio";
+import { EngineSettings, createToneEngine } from "./engine";
+
+const SETTINGS: EngineSettings = { ...DEFAULT_SETTINGS, sweep: null };
+
+function setup(settings: Partial<EngineSettings> = {}) {
+  const context = createFakeContext();
+  const clock = createFakeTimers();
+  const setOutputDevice = vi.fn<(context: BaseAudioContext, deviceId: string) => Promise<void>>(
+    async () => undefined
+  );
+  const createLimiter = vi.fn(async (_: BaseAudioContext, ceiling: number) =>
+    createFakeLimiter(ceiling)
+  );
+  const engine = createToneEngine(
+    { ...SETTINGS, ...settings },
+    {
+      createContext: () => asContext(context),
+      createLimiter,
+      setOutputDevice,
+      timers: clock.timers,
+      output: { deviceId: "speakers", sampleRate: null, latencyHint: "interactive" }
+    }
+  );
+  return { context, clock, engine, setOutputDevice, createLimiter };
+}
+
+const oscillator = (context: ReturnType<typeof createFakeContext>) =>
+  nodesOf(context, "oscillator")[0];
+
+describe("createToneEngine", () => {
+  it("builds the graph on the injected context, limiter and output", async () => {
+    const { context, engine, setOutputDevice, createLimiter } = setup({ frequency: 1000 });
+    const playing = vi.fn();
+    engine.on("playing", playing);
+
+    await engine.start();
+
+    expect(engine.playing).toBe(true);
+    expect(playing).toHaveBeenCalledWith(true);
+    expect(setOutputDevice).toHaveBeenCalledWith(context, "speakers");
+    expect(createLimiter).toHaveBeenCalledOnce();
+    expect(paramOf(oscillator(context), "frequency").value).toBe(1000);
+    expect(oscillator(context).started).toBe(true);
+    expect(engine.getContext()).toBe(context);
+  });
+
+  it("applies settings to the running graph", async () => {
+    const { context, engine } = setup();
+    await engine.start();
+
+    engine.setFrequency(250);
+    engine.setWaveform("square");
+
+    expect(paramOf(oscillator(context), "frequency").value).toBe(250);
+    expect(oscillator(context).type).toBe("square");
+  });
+
+  it("swaps the source when switching to noise", async () => {
+    const { context, engine } = setup();
+    await engine.start();
+
+    engine.setWaveform("pink");
+
+    expect(oscillator(context).stopped).toBe(true);
+    expect(nodesOf(context, "bufferSource")[0].started).toBe(true);
+  });
+
+  it("plays the release tail before tearing down", async () => {
+    const { clock, context, engine } = setup();
+    const playing = vi.fn();
+    engine.on("playing", playing);
+    await engine.start();
+
+    const stopping = engine.stop();
+    expect(playing).toHaveBeenLastCalledWith(false);
+    expect(context.closed).toBe(false);
+
+    clock.flush();
+    await stopping;
+    expect(context.closed).toBe(true);
+    expect(oscillator(context).stopped).toBe(true);
+    expect(engine.getContext()).toBeNull();
+  });
+
+  it("cancels a start that is stopped before the context opens", async () => {
+    const { context, engine } = setup();
+
+    const starting = engine.start();
+    await engine.stop();
+    await starting;
+
+    expect(engine.playing).toBe(false);
+    expect(context.closed).toBe(true);
+  });
+
+  it("follows a sweep on its timer and clears it when the sweep ends", async () => {
+    const { clock, context, engine } = setup();
+    const sweep = vi.fn();
+    engine.on("sweep", sweep);
+    await engine.start();
+
+    engine.setSweep({
+      startFreq: 100,
+      endFreq: 1000,
+      duration: 1,
+      curve: "linear",
+      dwell: 0.5,
+      repeat: "once"
+    });
+    expect(clock.running).toBeGreaterThan(0);
+    context.currentTime = 0.5;
+    clock.tick();
+    expect(sweep).toHaveBeenLastCalledWith(550);
+
+    engine.setSweep(null);
+    expect(sweep).toHaveBeenLastCalledWith(null);
+  });
+
+  it("limits band-limited shapes to the harmonics below Nyquist", async () => {
+    const { context, engine } = setup({ waveform: "square", bandLimited: true });
+    const harmonics = vi.fn();
+    engine.on("harmonics", harmonics);
+    await engine.start();
+
+    expect(harmonics).toHaveBeenLastCalledWith(54);
+    engine.setFrequency(4400);
+    expect(harmonics).toHaveBeenLastCalledWith(5);
+    engine.setBandLimited(false);
+    expect(harmonics).toHaveBeenLastCalledWith(null);
+    expect(oscillator(context).type).toBe("square");
+  });
+
+  it("switches the output device while playing", async () => {
+    const { context, engine, setOutputDevice } = setup();
+    await engine.start();
+
+    await engine.setOutput({ deviceId: "headphones", sampleRate: null, latencyHint: "interactive" });
+
+    expect(setOutputDevice).toHaveBeenLastCalledWith(context, "headphones");
+  });
+
+  it("falls back to the default device when the saved one is gone", async () => {
+    const { context, engine, setOutputDevice } = setup();
+    setOutputDevice.mockImplementation(async (_, deviceId) => {
+      if (deviceId) throw new Error("Requested device not found");
+    });
+    const missing = vi.fn();
+    engine.on("missingDevice", missing);
+
+    await engine.start();
+
+    expect(engine.playing).toBe(true);
+    expect(setOutputDevice).toHaveBeenLastCalledWith(context, "");
+    expect(missing).toHaveBeenCalledWith("speakers");
+  });
+
+  it("lends out outputs that follow the ceiling and device until closed", async () => {
+    const { context, engine, setOutputDevice, createLimiter } = setup();
+    const output = await engine.openOutput();
+    const limiter = await createLimiter.mock.results[0].value;
+    const ceiling = limiter.node.parameters.get("ceiling") as unknown as FakeParam;
+
+    engine.setCeiling(-12);
+    await engine.setOutput({ deviceId: "headphones", sampleRate: null, latencyHint: "interactive" });
+    expect(ceiling.value).toBeCloseTo(0.251, 3);
+    expect(setOutputDevice).toHaveBeenLastCalledWith(context, "headphones");
+
+    await output.close();
+    expect(context.closed).toBe(true);
+  });
+});
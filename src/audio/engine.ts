@@ -0,0 +1,687 @@
+import {
+  BurstSettings,
+  EnvelopeSettings,
+  alignToPeriod,
+  burstGateAt,
+  holdParam,
+  releaseNote,
+  scheduleBursts,
+  scheduleNote
+} from "../lib/envelope";
+import { HarmonicSpectrum } from "../lib/harmonics";
+import { LEVEL_TIME_CONSTANT, dbToGain } from "../lib/level";
+import { LfoSettings, modulatorLevel } from "../lib/lfo";
+import { bandwidthToQ } from "../lib/noise";
+import { DEFAULT_OUTPUT, OutputSettings } from "../lib/output";
+import { AnalysisSettings, DEFAULT_ANALYSIS } from "../lib/spectrogram";
+import { IdentStep, StereoSettings, identStepAt } from "../lib/stereo";
+import { SweepSettings, normalizeSweep, scheduleSweep, sweepFrequencyAt } from "../lib/sweep";
+import { Waveform, isNoise } from "../lib/waveforms";
+import { applyLfo, releaseLfo } from "./lfo";
+import { Limiter, createLimiter, releaseLimiter, setCeiling } from "./limiter";
+import { createOutputContext, routeOrDefault, setOutputDevice } from "./output";
+import { ScopeTap, createScopeTap, releaseScopeTap } from "./scope";
+import {
+  applyStereo,
+  createStereoSource,
+  releaseStereoSource,
+  scheduleIdentification,
+  startStereoSource
+} from "./stereo";
+import {
+  ToneGraph,
+  ToneSettings,
+  Voice,
+  attachLfo,
+  bandLimitFor,
+  createSource,
+  createToneGraph,
+  masterGain,
+  releaseSource,
+  releaseVoices,
+  setOscillatorWaveform,
+  startToneGraph,
+  syncVoices
+} from "./toneGraph";
+
+const SWEEP_LOOKAHEAD = 1;
+const BURST_LOOKAHEAD = 0.5;
+const TICK_MS = 50;
+const LEVEL_RAMP_SECONDS = 0.02;
+/** Sweeps size band-limited shapes for where the pitch will be this far ahead. */
+const BAND_LIMIT_LOOKAHEAD = 0.1;
+
+/** Everything the engine plays; the app's presets add display-only settings on top. */
+export interface EngineSettings extends ToneSettings {
+  envelope: EnvelopeSettings;
+  burst: BurstSettings;
+  /** Null when the sweep is off. */
+  sweep: SweepSettings | null;
+}
+
+export interface ToneEngineEvents {
+  /** Fires as soon as the tone starts or is asked to stop. */
+  playing: boolean;
+  /** Current sweep frequency while sweeping, then null. */
+  sweep: number | null;
+  /** Step of the left / right identification, then null when it ends. */
+  ident: IdentStep | null;
+  /** Harmonics the band-limited main oscillator keeps, or null when it plays a native shape. */
+  harmonics: number | null;
+  /** A saved output device that couldn't be used, so the tone went to the system default. */
+  missingDevice: string;
+}
+
+/** Timers the engine schedules ahead on. */
+export interface EngineTimers {
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (timer: unknown) => void;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+}
+
+export interface ToneEngineOptions {
+  /**
+   * Called on every start. Defaults to a new AudioContext opened with the
+   * output settings. Together with the hooks below this lets tests run the
+   * engine on a fake context, without worklets, devices or real timers.
+   */
+  createContext?: () => BaseAudioContext;
+  /** Defaults to the worklet limiter. */
+  createLimiter?: (context: BaseAudioContext, ceiling: number) => Promise<Limiter>;
+  /** Defaults to routing the context with setSinkId. */
+  setOutputDevice?: (context: BaseAudioContext, deviceId: string) => Promise<void>;
+  /** Defaults to the global timers. */
+  timers?: EngineTimers;
+  output?: OutputSettings;
+  ceilingDb?: number;
+  analysis?: AnalysisSettings;
+}
+
+const globalTimers: EngineTimers = {
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (timer) => clearInterval(timer as ReturnType<typeof setInterval>),
+  setTimeout: (callback, ms) => setTimeout(callback, ms)
+};
+
+type Listener<K extends keyof ToneEngineEvents> = (value: ToneEngineEvents[K]) => void;
+
+/** Nodes and timers that only exist while the tone is playing. */
+interface Session {
+  context: BaseAudioContext;
+  graph: ToneGraph;
+  limiter: Limiter;
+  analyser: AnalyserNode;
+  scopeTap: ScopeTap;
+  /** Context times used to phase-align cycle bursts and to draw the gate. */
+  sourceStart: number;
+  burstStart: number | null;
+  noteOn: boolean;
+  /** Harmonic count and pitch the main oscillator's band limit was built for. */
+  harmonics: number | null;
+  bandFrequency: number;
+  /** Handles from EngineTimers.setInterval, or null when not running. */
+  sweepTimer: unknown;
+  burstTimer: unknown;
+  identTimer: unknown;
+}
+
+/** A context of the engine's own, on its output device and behind a limiter at its ceiling. */
+export interface EngineOutput {
+  context: BaseAudioContext;
+  /** Connect sources here; it feeds the destination through the limiter. */
+  input: AudioNode;
+  close: () => Promise<void>;
+}
+
+export type ToneEngine = ReturnType<typeof createToneEngine>;
+
+async function closeContext(context: BaseAudioContext) {
+  // OfflineAudioContext has nothing to close.
+  if ("close" in context && typeof context.close === "function") await context.close();
+}
+
+/**
+ * Owns the live audio graph, independent of any UI. Setters can be called at
+ * any time: they are stored while stopped and applied in place while playing.
+ */
+export function createToneEngine(initial: EngineSettings, options: ToneEngineOptions = {}) {
+  let output = options.output ?? DEFAULT_OUTPUT;
+  const createContext = options.createContext ?? (() => createOutputContext(output));
+  const makeLimiter = options.createLimiter ?? createLimiter;
+  const routeOutput = options.setOutputDevice ?? setOutputDevice;
+  const timers = options.timers ?? globalTimers;
+  let settings = initial;
+  let ceilingDb = options.ceilingDb ?? 0;
+  let analysis = options.analysis ?? DEFAULT_ANALYSIS;
+  let session: Session | null = null;
+  let starting = false;
+  // Set by stop() while a start is still loading, so fast note on / off
+  // from a controller doesn't leave the tone running.
+  let cancelStart = false;
+  let identifying = false;
+  // Contexts lent out by openOutput, kept in step with ceiling and device.
+  const lent = new Set<{ context: BaseAudioContext; limiter: Limiter }>();
+  const listeners: { [K in keyof ToneEngineEvents]: Set<Listener<K>> } = {
+    playing: new Set(),
+    sweep: new Set(),
+    ident: new Set(),
+    harmonics: new Set(),
+    missingDevice: new Set()
+  };
+
+  function emit<K extends keyof ToneEngineEvents>(event: K, value: ToneEngineEvents[K]) {
+    (listeners[event] as Set<Listener<K>>).forEach((listener) => listener(value));
+  }
+
+  function clearTimer(timer: unknown) {
+    if (timer !== null) timers.clearInterval(timer);
+    return null;
+  }
+
+  // The LFO is rebuilt when what it drives changes, and retuned in place
+  // otherwise so rate and depth edits don't restart its cycle.
+  function attachSessionLfo() {
+    if (!session) return;
+    const { context, graph } = session;
+    if (graph.lfo) releaseLfo(graph.lfo);
+    graph.lfo = attachLfo(context, graph, settings.lfo);
+    graph.lfo?.source.start();
+  }
+
+  function applyFrequency() {
+    const param = session?.graph.source?.frequency;
+    if (settings.sweep || !session || !param) return;
+    param.setValueAtTime(settings.frequency, session.context.currentTime);
+  }
+
+  // Band-limited shapes are rebuilt only when the number of harmonics that
+  // fit below Nyquist changes, or when `force` asks for a new shape.
+  function applyBandLimit(topFrequency: number, force = false) {
+    if (!session) return;
+    const { context } = session;
+    const { waveform } = settings;
+    const oscillator = session.graph.source?.oscillator;
+    const count = oscillator ? bandLimitFor(settings, topFrequency, context.sampleRate) : null;
+    session.bandFrequency = topFrequency;
+    if (count === session.harmonics && !force) return;
+    session.harmonics = count;
+    if (oscillator && !isNoise(waveform)) {
+      setOscillatorWaveform(context, oscillator, waveform, settings.customWave, count);
+    }
+    emit("harmonics", count);
+  }
+
+  function applyBandwidth() {
+    const filter = session?.graph.source?.filter;
+    if (!session || !filter) return;
+    filter.Q.setValueAtTime(bandwidthToQ(settings.bandwidth), session.context.currentTime);
+  }
+
+  function runSweep() {
+    if (!session) return;
+    const current = session;
+    current.sweepTimer = clearTimer(current.sweepTimer);
+    const param = current.graph.source?.frequency;
+    if (!settings.sweep || !param) {
+      emit("sweep", null);
+      return;
+    }
+
+    // Passes are queued a little ahead of the clock so looping sweeps never
+    // run out of automation, while the display polls the same timeline.
+    const { context } = current;
+    const sweep = normalizeSweep(settings.sweep);
+    const startTime = context.currentTime;
+    let cursor = { pass: 0, time: startTime };
+    param.cancelScheduledValues(startTime);
+    const tick = () => {
+      cursor = scheduleSweep(param, sweep, cursor, context.currentTime + SWEEP_LOOKAHEAD);
+      const elapsed = context.currentTime - startTime;
+      const frequency = sweepFrequencyAt(sweep, elapsed);
+      emit("sweep", frequency);
+      applyBandLimit(
+        Math.max(frequency, sweepFrequencyAt(sweep, elapsed + BAND_LIMIT_LOOKAHEAD))
+      );
+    };
+    tick();
+    current.sweepTimer = timers.setInterval(tick, TICK_MS);
+  }
+
+  function stopSweep() {
+    if (!session) return;
+    session.sweepTimer = clearTimer(session.sweepTimer);
+    const param = session.graph.source?.frequency;
+    param?.cancelScheduledValues(0);
+  }
+
+  /** Re-applies everything that depends on which source is playing. */
+  function sourceChanged() {
+    stopSweep();
+    attachSessionLfo();
+    applyFrequency();
+    applyBandwidth();
+    applyBandLimit(settings.frequency, true);
+    runSweep();
+  }
+
+  // All level changes go through the envelope: a continuous tone attacks once
+  // and then glides between sustain levels, while bursts are rescheduled.
+  function scheduleLevel() {
+    if (!session) return;
+    const current = session;
+    current.burstTimer = clearTimer(current.burstTimer);
+    const { context } = current;
+    const { burst, envelope } = settings;
+    const param = current.graph.gain.gain;
+    const peak = masterGain(settings.volume, settings.voices);
+    const now = context.currentTime;
+    holdParam(param, now);
+
+    if (burst.mode === "off") {
+      current.burstStart = null;
+      if (current.noteOn) {
+        param.linearRampToValueAtTime(peak * envelope.sustain, now + LEVEL_RAMP_SECONDS);
+      } else {
+        param.linearRampToValueAtTime(0, now + LEVEL_RAMP_SECONDS);
+        scheduleNote(param, envelope, peak, now + LEVEL_RAMP_SECONDS, null);
+        current.noteOn = true;
+      }
+      return;
+    }
+
+    current.noteOn = false;
+    const start =
+      burst.mode === "cycles"
+        ? alignToPeriod(now + LEVEL_RAMP_SECONDS, current.sourceStart, settings.frequency)
+        : now + LEVEL_RAMP_SECONDS;
+    param.linearRampToValueAtTime(0, start);
+    current.burstStart = start;
+
+    let cursor = start;
+    const tick = () => {
+      cursor = scheduleBursts(
+        param,
+        burst,
+        envelope,
+        peak,
+        settings.frequency,
+        cursor,
+        context.currentTime + BURST_LOOKAHEAD
+      );
+    };
+    tick();
+    current.burstTimer = timers.setInterval(tick, TICK_MS);
+  }
+
+  function stopIdentification() {
+    if (!session) return;
+    const nodes = session.graph.stereo;
+    if (session.identTimer !== null) {
+      session.identTimer = clearTimer(session.identTimer);
+      emit("ident", null);
+      nodes?.leftLevel.gain.cancelScheduledValues(0);
+      nodes?.rightLevel.gain.cancelScheduledValues(0);
+    }
+  }
+
+  function applyStereoSettings() {
+    stopIdentification();
+    const nodes = session?.graph.stereo;
+    if (!session || !nodes) {
+      identifying = false;
+      return;
+    }
+    const current = session;
+    const { context } = current;
+    applyStereo(nodes, settings.stereo, context.currentTime);
+    if (!identifying) return;
+
+    const start = context.currentTime;
+    scheduleIdentification(nodes, settings.stereo, start);
+    const tick = () => {
+      const step = identStepAt(context.currentTime - start);
+      emit("ident", step);
+      if (step) return;
+      identifying = false;
+      applyStereoSettings();
+    };
+    tick();
+    current.identTimer = timers.setInterval(tick, TICK_MS);
+  }
+
+  async function openContext() {
+    const context = createContext();
+    try {
+      if (await routeOrDefault(context, output.deviceId, routeOutput)) {
+        emit("missingDevice", output.deviceId);
+      }
+      return { context, limiter: await makeLimiter(context, dbToGain(ceilingDb)) };
+    } catch (err) {
+      void closeContext(context);
+      throw err;
+    }
+  }
+
+  function teardown(current: Session) {
+    current.sweepTimer = clearTimer(current.sweepTimer);
+    current.burstTimer = clearTimer(current.burstTimer);
+    current.identTimer = clearTimer(current.identTimer);
+    const { graph } = current;
+    if (graph.source) releaseSource(graph.source);
+    if (graph.stereo) releaseStereoSource(graph.stereo);
+    if (graph.lfo) releaseLfo(graph.lfo);
+    graph.modulator.disconnect();
+    releaseVoices(graph.voices);
+    graph.gain.disconnect();
+    releaseLimiter(current.limiter);
+    current.analyser.disconnect();
+    releaseScopeTap(current.scopeTap);
+    return closeContext(current.context);
+  }
+
+  return {
+    get playing() {
+      return session !== null;
+    },
+
+    on<K extends keyof ToneEngineEvents>(event: K, listener: Listener<K>) {
+      listeners[event].add(listener);
+      return () => {
+        listeners[event].delete(listener);
+      };
+    },
+
+    async start() {
+      if (session) return;
+      if (starting) {
+        cancelStart = false;
+        return;
+      }
+      starting = true;
+      cancelStart = false;
+      let opened: { context: BaseAudioContext; limiter: Limiter };
+      try {
+        opened = await openContext();
+      } finally {
+        starting = false;
+      }
+      const { context, limiter } = opened;
+      if (cancelStart) {
+        releaseLimiter(limiter);
+        void closeContext(context);
+        return;
+      }
+      const frequency = settings.sweep ? normalizeSweep(settings.sweep).startFreq : settings.frequency;
+      const graph = createToneGraph(context, { ...settings, frequency });
+      const analyser = context.createAnalyser();
+      analyser.fftSize = analysis.fftSize;
+      analyser.smoothingTimeConstant = analysis.smoothing;
+
+      // Silent until scheduleLevel queues the attack. Everything downstream,
+      // meters included, sees the limited signal.
+      graph.gain.gain.setValueAtTime(0, context.currentTime);
+      graph.gain.connect(limiter.node);
+      limiter.node.connect(analyser);
+      analyser.connect(context.destination);
+      const scopeTap = createScopeTap(context, limiter.node, analyser);
+      startToneGraph(graph);
+
+      session = {
+        context,
+        graph,
+        limiter,
+        analyser,
+        scopeTap,
+        sourceStart: context.currentTime,
+        burstStart: null,
+        noteOn: false,
+        harmonics: graph.source?.oscillator
+          ? bandLimitFor(settings, frequency, context.sampleRate)
+          : null,
+        bandFrequency: frequency,
+        sweepTimer: null,
+        burstTimer: null,
+        identTimer: null
+      };
+      emit("playing", true);
+      emit("harmonics", session.harmonics);
+      runSweep();
+      scheduleLevel();
+    },
+
+    /** Lets the envelope's release tail play out, then tears the graph down. */
+    async stop() {
+      const current = session;
+      if (!current) {
+        cancelStart = starting;
+        return;
+      }
+      stopIdentification();
+      session = null;
+      identifying = false;
+      current.burstTimer = clearTimer(current.burstTimer);
+      current.sweepTimer = clearTimer(current.sweepTimer);
+      emit("sweep", null);
+      emit("harmonics", null);
+      emit("playing", false);
+
+      const { context, graph } = current;
+      const silentAt = releaseNote(graph.gain.gain, settings.envelope, context.currentTime);
+      const remaining = silentAt - context.currentTime;
+      if (remaining > 0) {
+        await new Promise<void>((resolve) => timers.setTimeout(resolve, remaining * 1000));
+      }
+      await teardown(current);
+    },
+
+    /** Stops at once without a release tail, e.g. when the host goes away. */
+    dispose() {
+      cancelStart = starting;
+      const current = session;
+      session = null;
+      if (current) void teardown(current);
+      lent.forEach(({ context, limiter }) => {
+        releaseLimiter(limiter);
+        void closeContext(context);
+      });
+      lent.clear();
+    },
+
+    /**
+     * Opens a context the way start does, for players that schedule their
+     * own sources, such as the sequencer. It follows the ceiling and output
+     * device until closed.
+     */
+    async openOutput(): Promise<EngineOutput> {
+      const opened = await openContext();
+      opened.limiter.node.connect(opened.context.destination);
+      lent.add(opened);
+      return {
+        context: opened.context,
+        input: opened.limiter.node,
+        close: async () => {
+          if (!lent.delete(opened)) return;
+          releaseLimiter(opened.limiter);
+          await closeContext(opened.context);
+        }
+      };
+    },
+
+    setFrequency(frequency: number) {
+      const cyclesChanged = settings.burst.mode === "cycles" && frequency !== settings.frequency;
+      settings = { ...settings, frequency };
+      applyFrequency();
+      if (!settings.sweep) applyBandLimit(frequency);
+      if (cyclesChanged) scheduleLevel();
+    },
+
+    // Oscillator-to-oscillator changes retype the running node; switching
+    // to or from noise swaps the source.
+    setWaveform(waveform: Waveform) {
+      settings = { ...settings, waveform };
+      const source = session?.graph.source;
+      if (!session || !source) return;
+      const { context, graph } = session;
+
+      if (source.oscillator && !isNoise(waveform)) {
+        applyBandLimit(session.bandFrequency, true);
+        return;
+      }
+
+      releaseSource(source);
+      const next = createSource(context, settings);
+      next.output.connect(graph.modulator);
+      next.node.start();
+      graph.source = next;
+      session.sourceStart = context.currentTime;
+      sourceChanged();
+    },
+
+    setCustomWave(customWave: HarmonicSpectrum) {
+      settings = { ...settings, customWave };
+      const oscillator = session?.graph.source?.oscillator;
+      if (settings.waveform !== "custom" || !session || !oscillator) return;
+      setOscillatorWaveform(session.context, oscillator, "custom", customWave);
+    },
+
+    setBandLimited(bandLimited: boolean) {
+      settings = { ...settings, bandLimited };
+      if (session) applyBandLimit(session.bandFrequency);
+    },
+
+    setBandwidth(bandwidth: number) {
+      settings = { ...settings, bandwidth };
+      applyBandwidth();
+    },
+
+    setVolume(volume: number) {
+      settings = { ...settings, volume };
+      scheduleLevel();
+    },
+
+    setVoices(voices: Voice[]) {
+      settings = { ...settings, voices };
+      if (!session) return;
+      scheduleLevel();
+      syncVoices(session.context, session.graph.voices, voices, session.graph.gain);
+    },
+
+    setEnvelope(envelope: EnvelopeSettings) {
+      settings = { ...settings, envelope };
+      scheduleLevel();
+    },
+
+    setBurst(burst: BurstSettings) {
+      settings = { ...settings, burst };
+      scheduleLevel();
+    },
+
+    setSweep(sweep: SweepSettings | null) {
+      const wasSweeping = settings.sweep !== null;
+      settings = { ...settings, sweep };
+      if (!session) return;
+      stopSweep();
+      if (wasSweeping && !sweep) {
+        applyFrequency();
+        applyBandLimit(settings.frequency);
+      }
+      runSweep();
+    },
+
+    // Stereo modes replace the main source with a pair of oscillators, which
+    // then ignore the mono waveform, frequency and sweep controls.
+    setStereo(stereo: StereoSettings) {
+      settings = { ...settings, stereo };
+      const active = stereo.mode !== "off";
+      if (session && active !== (session.graph.stereo !== null)) {
+        const { context, graph } = session;
+        stopIdentification();
+        if (active) {
+          if (graph.source) releaseSource(graph.source);
+          graph.source = null;
+          graph.stereo = createStereoSource(context, stereo);
+          graph.stereo.merger.connect(graph.modulator);
+          startStereoSource(graph.stereo);
+        } else {
+          if (graph.stereo) releaseStereoSource(graph.stereo);
+          graph.stereo = null;
+          graph.source = createSource(context, settings);
+          graph.source.output.connect(graph.modulator);
+          graph.source.node.start();
+        }
+        session.sourceStart = context.currentTime;
+        sourceChanged();
+      }
+      applyStereoSettings();
+    },
+
+    /** Starts, or restarts, the left only / right only / both sequence. */
+    identify() {
+      identifying = true;
+      applyStereoSettings();
+    },
+
+    setLfo(lfo: LfoSettings) {
+      const previous = settings.lfo;
+      settings = { ...settings, lfo };
+      if (!session) return;
+      const { context, graph } = session;
+      if (lfo.target !== previous.target || lfo.shape !== previous.shape || lfo.unit !== previous.unit) {
+        attachSessionLfo();
+      }
+      graph.modulator.gain.setTargetAtTime(modulatorLevel(lfo), context.currentTime, LEVEL_TIME_CONSTANT);
+      if (graph.lfo) applyLfo(graph.lfo, lfo, context.currentTime);
+    },
+
+    setCeiling(db: number) {
+      ceilingDb = db;
+      if (session) setCeiling(session.limiter, dbToGain(db), session.context.currentTime);
+      lent.forEach(({ context, limiter }) => setCeiling(limiter, dbToGain(db), context.currentTime));
+    },
+
+    /** Switches device straight away; rate and latency apply from the next start. */
+    async setOutput(next: OutputSettings) {
+      const deviceChanged = next.deviceId !== output.deviceId;
+      output = next;
+      if (!deviceChanged) return;
+      const contexts = [...lent].map(({ context }) => context);
+      if (session) contexts.push(session.context);
+      await Promise.all(contexts.map((context) => routeOutput(context, next.deviceId)));
+    },
+
+    setAnalysis(next: AnalysisSettings) {
+      analysis = next;
+      if (!session) return;
+      session.analyser.fftSize = next.fftSize;
+      session.analyser.smoothingTimeConstant = next.smoothing;
+    },
+
+    getContext() {
+      return session?.context ?? null;
+    },
+
+    getAnalyser() {
+      return session?.analyser ?? null;
+    },
+
+    getScopeTap() {
+      return session?.scopeTap ?? null;
+    },
+
+    /** The limited output, for measurements that tap the live signal. */
+    getOutput() {
+      return session ? { context: session.context, node: session.limiter.node } : null;
+    },
+
+    getLimiterGain() {
+      return session?.limiter.gain.current ?? null;
+    },
+
+    /** Burst gate state at the current time, or null when bursts are off. */
+    getBurstGate() {
+      const burstStart = session?.burstStart ?? null;
+      if (!session || settings.burst.mode === "off" || burstStart === null) return null;
+      return burstGateAt(settings.burst, settings.frequency, session.context.currentTime - burstStart);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import { MAX_TEST_DB, Trial } from "../lib/hearing";
+import { dbToGain } from "../lib/level";
+import { Limiter, createLimiter, releaseLimiter } from "./limiter";
+import { OpenContext } from "./output";
+
+const PULSES = 3;
+const PULSE_SECONDS = 0.25;
+const GAP_SECONDS = 0.15;
+const RAMP_SECONDS = 0.02;
+
+/**
+ * A separate context for the hearing test, so nothing the generator is doing
+ * can leak into a trial. The limiter enforces the level cap on top of the
+ * clamping done by the staircase.
+ */
+export interface TestOutput {
+  context: AudioContext;
+  limiter: Limiter;
+  merger: ChannelMergerNode;
+}
+
+export async function openTestOutput(openContext: OpenContext): Promise<TestOutput> {
+  const context = await openContext();
+  let limiter: Limiter;
+  try {
+    limiter = await createLimiter(context, dbToGain(MAX_TEST_DB));
+  } catch (err) {
+    void context.close();
+    throw err;
+  }
+  const merger = context.createChannelMerger(2);
+  merger.connect(limiter.node);
+  limiter.node.connect(context.destination);
+  return { context, limiter, merger };
+}
+
+export async function closeTestOutput(output: TestOutput) {
+  output.merger.disconnect();
+  releaseLimiter(output.limiter);
+  await output.context.close();
+}
+
+/** Plays a trial as a short pulse train in one ear; resolves once it has finished. */
+export function playTrial(output: TestOutput, trial: Trial) {
+  const { context, merger } = output;
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const peak = dbToGain(Math.min(MAX_TEST_DB, trial.level));
+  const start = context.currentTime + 0.05;
+
+  oscillator.frequency.setValueAtTime(trial.frequency, start);
+  gain.gain.setValueAtTime(0, start);
+  for (let i = 0; i < PULSES; i += 1) {
+    const on = start + i * (PULSE_SECONDS + GAP_SECONDS);
+    gain.gain.setValueAtTime(0, on);
+    gain.gain.linearRampToValueAtTime(peak, on + RAMP_SECONDS);
+    gain.gain.setValueAtTime(peak, on + PULSE_SECONDS - RAMP_SECONDS);
+    gain.gain.linearRampToValueAtTime(0, on + PULSE_SECONDS);
+  }
+  const end = start + PULSES * (PULSE_SECONDS + GAP_SECONDS);
+
+  oscillator.connect(gain);
+  gain.connect(merger, 0, trial.ear === "left" ? 0 : 1);
+  oscillator.start(start);
+  oscillator.stop(end);
+
+  return new Promise<void>((resolve) => {
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      gain.disconnect();
+      resolve();
+    };
+  });
+}
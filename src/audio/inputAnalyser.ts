@@ -0,0 +1,44 @@
+export interface InputTap {
+  context: AudioContext;
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+}
+
+/** Audio inputs. Labels stay empty until microphone permission is granted. */
+export async function listInputDevices() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput");
+}
+
+/**
+ * Opens a microphone or line input on its own context with voice
+ * processing disabled, so the analyser sees the signal as captured.
+ */
+export async function openInput(
+  deviceId: string | null,
+  fftSize: number,
+  smoothing: number
+): Promise<InputTap> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = smoothing;
+  source.connect(analyser);
+  return { context, stream, source, analyser };
+}
+
+export function closeInput(tap: InputTap) {
+  tap.source.disconnect();
+  tap.stream.getTracks().forEach((track) => track.stop());
+  void tap.context.close();
+}
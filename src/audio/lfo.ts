@@ -0,0 +1,69 @@
+import { LfoSettings, lfoAmount } from "../lib/lfo";
+
+/** Samples each random step lasts at a playback rate of 1. */
+const HOLD_STEP_SAMPLES = 256;
+const HOLD_STEPS = 128;
+
+export interface LfoNodes {
+  /** An oscillator, or a looping buffer of random steps for sample-and-hold. */
+  source: OscillatorNode | AudioBufferSourceNode;
+  /** Scales the ±1 LFO signal to the target's units. */
+  depth: GainNode;
+}
+
+const holdCache = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+/** Random steps for sample-and-hold, generated once per context. */
+function getHoldBuffer(context: BaseAudioContext) {
+  const cached = holdCache.get(context);
+  if (cached) return cached;
+
+  const buffer = context.createBuffer(1, HOLD_STEPS * HOLD_STEP_SAMPLES, context.sampleRate);
+  const samples = buffer.getChannelData(0);
+  for (let step = 0; step < HOLD_STEPS; step += 1) {
+    samples.fill(Math.random() * 2 - 1, step * HOLD_STEP_SAMPLES, (step + 1) * HOLD_STEP_SAMPLES);
+  }
+  holdCache.set(context, buffer);
+  return buffer;
+}
+
+/** Updates rate and depth in place, leaving the LFO's phase alone. */
+export function applyLfo(nodes: LfoNodes, lfo: LfoSettings, time: number) {
+  const { source } = nodes;
+  if (source instanceof OscillatorNode) {
+    source.frequency.setValueAtTime(lfo.rate, time);
+  } else {
+    // The buffer holds one step per HOLD_STEP_SAMPLES, so this plays `rate` steps a second.
+    source.playbackRate.setValueAtTime((lfo.rate * HOLD_STEP_SAMPLES) / source.context.sampleRate, time);
+  }
+  nodes.depth.gain.setValueAtTime(lfoAmount(lfo), time);
+}
+
+/**
+ * Creates an LFO feeding every param in `targets`, not yet started. Signals
+ * connected to an AudioParam are added to its own value, so the LFO rides on
+ * top of sweeps and envelopes.
+ */
+export function createLfo(context: BaseAudioContext, lfo: LfoSettings, targets: AudioParam[]): LfoNodes {
+  let source: OscillatorNode | AudioBufferSourceNode;
+  if (lfo.shape === "hold") {
+    source = context.createBufferSource();
+    source.buffer = getHoldBuffer(context);
+    source.loop = true;
+  } else {
+    source = context.createOscillator();
+    source.type = lfo.shape;
+  }
+
+  const nodes: LfoNodes = { source, depth: context.createGain() };
+  applyLfo(nodes, lfo, context.currentTime);
+  source.connect(nodes.depth);
+  targets.forEach((param) => nodes.depth.connect(param));
+  return nodes;
+}
+
+export function releaseLfo(nodes: LfoNodes) {
+  nodes.source.stop();
+  nodes.source.disconnect();
+  nodes.depth.disconnect();
+}
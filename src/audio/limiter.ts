@@ -0,0 +1,151 @@
+/** How far ahead the limiter looks; also the latency it adds. */
+export const LOOKAHEAD_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.1;
+/** How often the worklet reports gain reduction. */
+const REPORT_SECONDS = 0.05;
+
+/*
+ * Brickwall look-ahead limiter. The gain each sample needs is held for the
+ * look-ahead window with a sliding minimum, released exponentially and then
+ * box-filtered over the same window; delaying the audio by that window means
+ * the gain has ramped down fully by the time a peak comes out, so the output
+ * never exceeds the ceiling.
+ */
+const LIMITER_PROCESSOR = `
+class LimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "ceiling", defaultValue: 1, minValue: 0.0001, maxValue: 1, automationRate: "k-rate" }];
+  }
+
+  constructor(options) {
+    super();
+    const { lookahead, release, report } = options.processorOptions;
+    this.size = Math.max(1, Math.round(lookahead * sampleRate));
+    this.releaseCoeff = Math.exp(-1 / (release * sampleRate));
+    this.reportFrames = Math.round(report * sampleRate);
+    this.delays = [];
+    this.write = 0;
+    this.time = 0;
+    // Sliding minimum as a monotonic deque in a ring.
+    this.minValues = new Float64Array(this.size + 1);
+    this.minTimes = new Float64Array(this.size + 1);
+    this.minHead = 0;
+    this.minCount = 0;
+    this.box = new Float64Array(this.size).fill(1);
+    this.boxIndex = 0;
+    this.boxSum = this.size;
+    this.released = 1;
+    this.lowest = 1;
+    this.sinceReport = 0;
+  }
+
+  pushMinimum(value) {
+    const capacity = this.minValues.length;
+    while (this.minCount > 0) {
+      const back = (this.minHead + this.minCount - 1) % capacity;
+      if (this.minValues[back] < value) break;
+      this.minCount -= 1;
+    }
+    const slot = (this.minHead + this.minCount) % capacity;
+    this.minValues[slot] = value;
+    this.minTimes[slot] = this.time;
+    this.minCount += 1;
+    while (this.minTimes[this.minHead] <= this.time - this.size) {
+      this.minHead = (this.minHead + 1) % capacity;
+      this.minCount -= 1;
+    }
+    return this.minValues[this.minHead];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ceiling = parameters.ceiling[0];
+    while (this.delays.length < output.length) this.delays.push(new Float32Array(this.size));
+
+    for (let i = 0; i < output[0].length; i += 1) {
+      let peak = 0;
+      for (let ch = 0; ch < output.length; ch += 1) {
+        const sample = input[ch] ? input[ch][i] : 0;
+        this.delays[ch][this.write] = sample;
+        peak = Math.max(peak, Math.abs(sample));
+      }
+
+      const held = this.pushMinimum(peak > ceiling ? ceiling / peak : 1);
+      this.released = held < this.released ? held : held + (this.released - held) * this.releaseCoeff;
+      this.boxSum += this.released - this.box[this.boxIndex];
+      this.box[this.boxIndex] = this.released;
+      this.boxIndex = (this.boxIndex + 1) % this.size;
+      const gain = Math.min(1, this.boxSum / this.size);
+
+      const read = (this.write + 1) % this.size;
+      for (let ch = 0; ch < output.length; ch += 1) {
+        output[ch][i] = this.delays[ch][read] * gain;
+      }
+      this.write = read;
+      this.time += 1;
+      if (gain < this.lowest) this.lowest = gain;
+    }
+
+    this.sinceReport += output[0].length;
+    if (this.sinceReport >= this.reportFrames) {
+      this.port.postMessage(this.lowest);
+      this.lowest = 1;
+      this.sinceReport = 0;
+    }
+    return true;
+  }
+}
+registerProcessor("limiter-processor", LimiterProcessor);
+`;
+
+const modules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadLimiterModule(context: BaseAudioContext) {
+  let loading = modules.get(context);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([LIMITER_PROCESSOR], { type: "text/javascript" }));
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    modules.set(context, loading);
+  }
+  return loading;
+}
+
+export interface Limiter {
+  node: AudioWorkletNode;
+  /** Lowest gain applied over the last report period, 0–1; 1 means not limiting. */
+  gain: { current: number };
+}
+
+/** Creates a stereo limiter holding its output below `ceiling` (linear). */
+export async function createLimiter(context: BaseAudioContext, ceiling: number): Promise<Limiter> {
+  await loadLimiterModule(context);
+  const node = new AudioWorkletNode(context, "limiter-processor", {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 2,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers",
+    parameterData: { ceiling },
+    processorOptions: {
+      lookahead: LOOKAHEAD_SECONDS,
+      release: RELEASE_SECONDS,
+      report: REPORT_SECONDS
+    }
+  });
+  const gain = { current: 1 };
+  node.port.onmessage = (event: MessageEvent<number>) => {
+    gain.current = event.data;
+  };
+  return { node, gain };
+}
+
+export function setCeiling(limiter: Limiter, ceiling: number, time: number) {
+  limiter.node.parameters.get("ceiling")?.setValueAtTime(ceiling, time);
+}
+
+export function releaseLimiter(limiter: Limiter) {
+  limiter.node.port.onmessage = null;
+  limiter.node.disconnect();
+}
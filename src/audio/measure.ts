@@ -0,0 +1,74 @@
+import { Stimulus, createStimulus, impulseResponse, responseFromImpulse } from "../lib/measurement";
+import { startCapture } from "./capture";
+import { createLimiter, releaseLimiter } from "./limiter";
+import { OpenContext } from "./output";
+
+/** Silence recorded before the stimulus starts. */
+const LEAD_IN_SECONDS = 0.3;
+/** Recording kept after the stimulus so late energy and latency are caught. */
+const TAIL_SECONDS = 0.6;
+/** Peak below roughly -80 dBFS means the microphone heard nothing usable. */
+const SILENCE_THRESHOLD = 1e-4;
+
+function wait(seconds: number) {
+  return new Promise((resolve) => window.setTimeout(resolve, seconds * 1000));
+}
+
+/**
+ * Plays `stimulus` through the chosen output while recording the
+ * microphone, then deconvolves the two into a smoothed response. Browser
+ * voice processing is disabled so the capture is as raw as possible.
+ *
+ * Like the tone, the stimulus goes through the limiter at `ceiling`. Its
+ * peak is held at the ceiling too, so the limiter never has to act and the
+ * reference used for deconvolution is exactly what was played.
+ */
+export async function measureResponse(
+  openContext: OpenContext,
+  stimulus: Stimulus,
+  duration: number,
+  level: number,
+  ceiling: number
+) {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+  });
+  let context: AudioContext;
+  try {
+    context = await openContext();
+  } catch (err) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw err;
+  }
+
+  try {
+    await context.resume();
+    const input = context.createMediaStreamSource(stream);
+    const capture = await startCapture(context, input);
+    const limiter = await createLimiter(context, ceiling);
+    limiter.node.connect(context.destination);
+
+    const samples = createStimulus(stimulus, context.sampleRate, duration, Math.min(level, ceiling));
+    const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const player = context.createBufferSource();
+    player.buffer = buffer;
+    player.connect(limiter.node);
+    player.start(context.currentTime + LEAD_IN_SECONDS);
+
+    await wait(LEAD_IN_SECONDS + duration + TAIL_SECONDS);
+    const recording = capture.stop();
+    player.disconnect();
+    releaseLimiter(limiter);
+    input.disconnect();
+
+    const peak = recording.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    if (peak < SILENCE_THRESHOLD) {
+      throw new Error("No signal reached the microphone");
+    }
+    return responseFromImpulse(impulseResponse(samples, recording), context.sampleRate);
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+    await context.close();
+  }
+}
@@ -0,0 +1,35 @@
+import { NoiseColor, fillNoise } from "../lib/noise";
+
+const NOISE_SECONDS = 4;
+const LOOP_FADE_SECONDS = 0.05;
+
+const bufferCache = new WeakMap<BaseAudioContext, Map<NoiseColor, AudioBuffer>>();
+
+/**
+ * Returns a looping noise buffer for `context`, generated once per color.
+ * The tail is crossfaded into the head so the loop point doesn't click.
+ */
+export function getNoiseBuffer(context: BaseAudioContext, color: NoiseColor) {
+  let buffers = bufferCache.get(context);
+  if (!buffers) {
+    buffers = new Map();
+    bufferCache.set(context, buffers);
+  }
+
+  const cached = buffers.get(color);
+  if (cached) return cached;
+
+  const length = Math.round(NOISE_SECONDS * context.sampleRate);
+  const fade = Math.round(LOOP_FADE_SECONDS * context.sampleRate);
+  const samples = new Float32Array(length + fade);
+  fillNoise(samples, color);
+  for (let i = 0; i < fade; i += 1) {
+    const mix = i / fade;
+    samples[i] = samples[i] * mix + samples[length + i] * (1 - mix);
+  }
+
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  buffer.copyToChannel(samples.subarray(0, length), 0);
+  buffers.set(color, buffer);
+  return buffer;
+}
@@ -0,0 +1,71 @@
+import { OutputSettings } from "../lib/output";
+
+/** setSinkId isn't in the DOM typings yet. */
+type SinkContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+export function canChooseOutput() {
+  return typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype;
+}
+
+/** Audio outputs. Like inputs, labels stay empty until media permission is granted. */
+export async function listOutputDevices() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audiooutput");
+}
+
+export function createOutputContext(output: OutputSettings) {
+  return new AudioContext({
+    latencyHint: output.latencyHint,
+    ...(output.sampleRate ? { sampleRate: output.sampleRate } : {})
+  });
+}
+
+/** Opens contexts for players outside the engine, on the chosen output. */
+export type OpenContext = () => Promise<AudioContext>;
+
+/** Routes `context` to a device; "" is the system default, which always works. */
+export async function setOutputDevice(context: BaseAudioContext, deviceId: string) {
+  const sink = context as SinkContext;
+  if (!sink.setSinkId) {
+    if (deviceId) throw new Error("This browser can't choose an output device");
+    return;
+  }
+  await sink.setSinkId(deviceId);
+}
+
+/**
+ * Routes `context` to `deviceId`, falling back to the system default when the
+ * device can't be used, typically because it was unplugged since it was saved.
+ * Resolves true when it fell back.
+ */
+export async function routeOrDefault(
+  context: BaseAudioContext,
+  deviceId: string,
+  route = setOutputDevice
+) {
+  try {
+    await route(context, deviceId);
+    return false;
+  } catch (err) {
+    if (!deviceId) throw err;
+  }
+  await route(context, "");
+  return true;
+}
+
+/**
+ * Opens a context with the chosen rate, latency and device, for everything
+ * that plays outside the engine. `onFallback` hears about a missing device.
+ */
+export async function openOutputContext(output: OutputSettings, onFallback?: () => void) {
+  const context = createOutputContext(output);
+  try {
+    if (await routeOrDefault(context, output.deviceId)) onFallback?.();
+    return context;
+  } catch (err) {
+    void context.close();
+    throw err;
+  }
+}
@@ -0,0 +1,93 @@
+import { OpenContext } from "./output";
+
+const WEBM_TYPE = "audio/webm;codecs=opus";
+
+export function canEncodeWebm() {
+  return typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(WEBM_TYPE);
+}
+
+function toBuffer(context: BaseAudioContext, channels: Float32Array[], sampleRate: number) {
+  const buffer = context.createBuffer(channels.length, Math.max(1, channels[0].length), sampleRate);
+  channels.forEach((channel, i) => buffer.getChannelData(i).set(channel));
+  return buffer;
+}
+
+/** The part of a recording to play, in seconds, and whether to repeat it. */
+export interface PlayRegion {
+  start: number;
+  end: number;
+  loop: boolean;
+}
+
+export interface Playback {
+  stop: () => void;
+  /** Moves the loop points while looping; a single pass keeps its region. */
+  setRegion: (start: number, end: number) => void;
+}
+
+/** Plays `region` of captured channels on `context`; `onEnded` fires unless stopped first. */
+export function playChannels(
+  context: AudioContext,
+  channels: Float32Array[],
+  sampleRate: number,
+  region: PlayRegion,
+  onEnded: () => void
+): Playback {
+  const source = context.createBufferSource();
+  source.buffer = toBuffer(context, channels, sampleRate);
+  source.connect(context.destination);
+  source.onended = onEnded;
+  if (region.loop) {
+    source.loop = true;
+    source.loopStart = region.start;
+    source.loopEnd = region.end;
+    source.start(0, region.start);
+  } else {
+    source.start(0, region.start, region.end - region.start);
+  }
+
+  return {
+    stop: () => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    },
+    setRegion: (start, end) => {
+      if (!source.loop) return;
+      source.loopStart = start;
+      source.loopEnd = end;
+    }
+  };
+}
+
+/**
+ * Encodes channels as WebM/Opus. MediaRecorder only takes live streams, so
+ * this plays them silently into one and takes as long as the audio lasts.
+ */
+export async function encodeWebm(
+  channels: Float32Array[],
+  sampleRate: number,
+  openContext: OpenContext
+) {
+  const context = await openContext();
+  try {
+    const source = context.createBufferSource();
+    source.buffer = toBuffer(context, channels, sampleRate);
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType: WEBM_TYPE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: WEBM_TYPE });
+  } finally {
+    await context.close();
+  }
+}
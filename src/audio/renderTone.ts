@@ -0,0 +1,93 @@
+import {
+  BurstSettings,
+  EnvelopeSettings,
+  scheduleBursts,
+  scheduleNote
+} from "../lib/envelope";
+import { SweepSettings, normalizeSweep, scheduleSweep } from "../lib/sweep";
+import { isClassic } from "../lib/waveforms";
+import { LOOKAHEAD_SECONDS, createLimiter } from "./limiter";
+import {
+  ToneSettings,
+  bandLimitFor,
+  createToneGraph,
+  masterGain,
+  setOscillatorWaveform,
+  startToneGraph
+} from "./toneGraph";
+
+export interface RenderOptions {
+  sampleRate: number;
+  /** Length of the rendered file in seconds. */
+  duration: number;
+  /** Limiter ceiling, linear, so files peak no higher than the live output. */
+  ceiling: number;
+}
+
+/** Parameter automation applied on top of the static tone settings. */
+export interface ToneAutomation {
+  sweep: SweepSettings | null;
+  envelope: EnvelopeSettings;
+  burst: BurstSettings;
+}
+
+/**
+ * Renders the tone faster than real time through the same limiter as the live
+ * output. A continuous tone is released so the file ends in silence; bursts
+ * repeat for the whole duration.
+ */
+export async function renderTone(
+  settings: ToneSettings,
+  automation: ToneAutomation,
+  options: RenderOptions
+): Promise<AudioBuffer> {
+  const length = Math.max(1, Math.round(options.duration * options.sampleRate));
+  // The limiter delays its output by the look-ahead, which is rendered on top and cut.
+  const delay = Math.round(LOOKAHEAD_SECONDS * options.sampleRate);
+  // Voices can be panned, so any mix with voices is rendered in stereo.
+  const channels = settings.voices.length > 0 || settings.stereo.mode !== "off" ? 2 : 1;
+  const context = new OfflineAudioContext(channels, length + delay, options.sampleRate);
+  const { envelope, burst } = automation;
+  const activeSweep = automation.sweep ? normalizeSweep(automation.sweep) : null;
+
+  const graph = createToneGraph(context, {
+    ...settings,
+    frequency: activeSweep ? activeSweep.startFreq : settings.frequency
+  });
+  const { source, gain } = graph;
+  if (activeSweep && source?.frequency) {
+    scheduleSweep(source.frequency, activeSweep, { pass: 0, time: 0 }, options.duration);
+  }
+  // Nothing follows the sweep offline, so a band-limited shape keeps only
+  // what fits below Nyquist at the top of the sweep for the whole file.
+  const bandLimit = activeSweep
+    ? bandLimitFor(settings, Math.max(activeSweep.startFreq, activeSweep.endFreq), context.sampleRate)
+    : null;
+  if (bandLimit !== null && source?.oscillator && isClassic(settings.waveform)) {
+    setOscillatorWaveform(context, source.oscillator, settings.waveform, settings.customWave, bandLimit);
+  }
+
+  const peak = masterGain(settings.volume, settings.voices);
+  if (burst.mode === "off") {
+    const offTime = Math.max(0, options.duration - envelope.release);
+    scheduleNote(gain.gain, envelope, peak, 0, offTime);
+  } else {
+    scheduleBursts(gain.gain, burst, envelope, peak, settings.frequency, 0, options.duration);
+  }
+
+  const limiter = await createLimiter(context, options.ceiling);
+  gain.connect(limiter.node);
+  limiter.node.connect(context.destination);
+  startToneGraph(graph, 0);
+  const rendered = await context.startRendering();
+
+  const buffer = new AudioBuffer({
+    length,
+    numberOfChannels: channels,
+    sampleRate: options.sampleRate
+  });
+  for (let i = 0; i < channels; i += 1) {
+    buffer.copyToChannel(rendered.getChannelData(i).subarray(delay, delay + length), i);
+  }
+  return buffer;
+}
@@ -0,0 +1,44 @@
+export interface ScopeTap {
+  /** Mono analyser shared with the spectrum display. */
+  mono: AnalyserNode;
+  left: AnalyserNode;
+  right: AnalyserNode;
+  input: GainNode;
+}
+
+const SCOPE_FFT_SIZE = 4096;
+
+/**
+ * Taps `source` into a pair of per-channel analysers for XY display. Mono
+ * sources are upmixed so both channels carry the signal.
+ */
+export function createScopeTap(
+  context: BaseAudioContext,
+  source: AudioNode,
+  mono: AnalyserNode
+): ScopeTap {
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = "explicit";
+  input.channelInterpretation = "speakers";
+
+  const splitter = context.createChannelSplitter(2);
+  const left = context.createAnalyser();
+  const right = context.createAnalyser();
+  left.fftSize = SCOPE_FFT_SIZE;
+  right.fftSize = SCOPE_FFT_SIZE;
+  left.smoothingTimeConstant = 0;
+  right.smoothingTimeConstant = 0;
+
+  source.connect(input);
+  input.connect(splitter);
+  splitter.connect(left, 0);
+  splitter.connect(right, 1);
+  return { mono, left, right, input };
+}
+
+export function releaseScopeTap(tap: ScopeTap) {
+  tap.input.disconnect();
+  tap.left.disconnect();
+  tap.right.disconnect();
+}
@@ -0,0 +1,113 @@
+import { dbToGain } from "../lib/level";
+import { Sequence, SequenceStep } from "../lib/sequence";
+import { EngineOutput } from "./engine";
+
+/** Fade at each end of a step so cuts between steps don't click. */
+const FADE_SECONDS = 0.005;
+
+/** Plays sequences through an engine output, so they share its limiter and device. */
+export interface SequenceOutput extends EngineOutput {
+  /** Oscillators scheduled and not yet ended. */
+  active: Set<OscillatorNode>;
+}
+
+/** Next step to schedule and when it starts on the context clock. */
+export interface SequenceCursor {
+  index: number;
+  time: number;
+}
+
+export function createSequenceOutput(output: EngineOutput): SequenceOutput {
+  return { ...output, active: new Set() };
+}
+
+export async function closeSequenceOutput(output: SequenceOutput) {
+  output.active.forEach((oscillator) => {
+    oscillator.onended = null;
+    oscillator.disconnect();
+  });
+  output.active.clear();
+  await output.close();
+}
+
+/**
+ * Schedules one step on its own oscillator from `start`. Gliding steps start
+ * at the previous step's final frequency and level and ramp to their own.
+ */
+function scheduleStep(
+  output: SequenceOutput,
+  step: SequenceStep,
+  previous: SequenceStep | null,
+  start: number
+) {
+  if (step.level === null) return;
+  const { context, input, active } = output;
+  const end = start + step.duration;
+  const fade = Math.min(FADE_SECONDS, step.duration / 2);
+  // Leaves room for the fade out, so a step-long glide still ends cleanly.
+  const glide =
+    step.glide > 0 && previous ? Math.min(step.duration - fade, Math.max(fade, step.glide)) : 0;
+  const peak = dbToGain(step.level);
+
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = step.waveform;
+
+  const frequency = oscillator.frequency;
+  if (glide > 0 && previous) {
+    frequency.setValueAtTime(previous.toFrequency ?? previous.frequency, start);
+    frequency.exponentialRampToValueAtTime(step.frequency, start + glide);
+  } else {
+    frequency.setValueAtTime(step.frequency, start);
+  }
+  if (step.toFrequency !== null) {
+    frequency.setValueAtTime(step.frequency, start + glide);
+    if (step.curve === "linear") frequency.linearRampToValueAtTime(step.toFrequency, end);
+    else frequency.exponentialRampToValueAtTime(step.toFrequency, end);
+  }
+
+  gain.gain.setValueAtTime(0, start);
+  if (glide > 0 && previous) {
+    const from = previous.level === null ? 0 : dbToGain(previous.level);
+    gain.gain.linearRampToValueAtTime(from, start + fade);
+    gain.gain.linearRampToValueAtTime(peak, start + glide);
+  } else {
+    gain.gain.linearRampToValueAtTime(peak, start + fade);
+  }
+  gain.gain.setValueAtTime(peak, end - fade);
+  gain.gain.linearRampToValueAtTime(0, end);
+
+  oscillator.connect(gain);
+  gain.connect(input);
+  oscillator.start(start);
+  oscillator.stop(end);
+  active.add(oscillator);
+  oscillator.onended = () => {
+    active.delete(oscillator);
+    oscillator.disconnect();
+    gain.disconnect();
+  };
+}
+
+/**
+ * Queues steps from `cursor` until one starts after `untilTime`, wrapping
+ * when the sequence loops. Returns the cursor to continue from, with an
+ * index past the end once a single pass is fully queued.
+ */
+export function scheduleSequence(
+  output: SequenceOutput,
+  sequence: Sequence,
+  cursor: SequenceCursor,
+  untilTime: number
+): SequenceCursor {
+  const { steps, loop } = sequence;
+  let { index, time } = cursor;
+  while (time < untilTime && (loop || index < steps.length)) {
+    const position = index % steps.length;
+    const previous = index > 0 ? steps[(index - 1) % steps.length] : null;
+    scheduleStep(output, steps[position], previous, time);
+    time += steps[position].duration;
+    index += 1;
+  }
+  return { index, time };
+}
@@ -0,0 +1,91 @@
+import { LEVEL_TIME_CONSTANT } from "../lib/level";
+import {
+  IDENT_STEPS,
+  IDENT_STEP_SECONDS,
+  StereoSettings,
+  identMask,
+  stereoOutputs
+} from "../lib/stereo";
+
+/** One oscillator per output, merged into a single stereo signal. */
+export interface StereoSource {
+  left: OscillatorNode;
+  right: OscillatorNode;
+  leftLevel: GainNode;
+  rightLevel: GainNode;
+  merger: ChannelMergerNode;
+}
+
+/**
+ * Points both oscillators and their levels at `stereo`. Swap and invert are
+ * resolved here, so the nodes always map to the physical outputs.
+ */
+export function applyStereo(source: StereoSource, stereo: StereoSettings, time: number) {
+  const { left, right } = stereoOutputs(stereo);
+  source.left.type = left.waveform;
+  source.right.type = right.waveform;
+  source.left.frequency.setValueAtTime(left.frequency, time);
+  source.right.frequency.setValueAtTime(right.frequency, time);
+  source.leftLevel.gain.setTargetAtTime(left.gain, time, LEVEL_TIME_CONSTANT);
+  source.rightLevel.gain.setTargetAtTime(right.gain, time, LEVEL_TIME_CONSTANT);
+}
+
+/** Creates the stereo source for `stereo`, not yet connected or started. */
+export function createStereoSource(context: BaseAudioContext, stereo: StereoSettings): StereoSource {
+  const source: StereoSource = {
+    left: context.createOscillator(),
+    right: context.createOscillator(),
+    leftLevel: context.createGain(),
+    rightLevel: context.createGain(),
+    merger: context.createChannelMerger(2)
+  };
+  applyStereo(source, stereo, context.currentTime);
+  source.left.connect(source.leftLevel);
+  source.right.connect(source.rightLevel);
+  source.leftLevel.connect(source.merger, 0, 0);
+  source.rightLevel.connect(source.merger, 0, 1);
+  return source;
+}
+
+export function startStereoSource(source: StereoSource, when = 0) {
+  source.left.start(when);
+  source.right.start(when);
+}
+
+export function releaseStereoSource(source: StereoSource) {
+  source.left.stop();
+  source.right.stop();
+  source.left.disconnect();
+  source.right.disconnect();
+  source.leftLevel.disconnect();
+  source.rightLevel.disconnect();
+  source.merger.disconnect();
+}
+
+/**
+ * Queues the left only / right only / both sequence from `start`, with short
+ * ramps so the channel changes don't click. Returns when it ends.
+ */
+export function scheduleIdentification(
+  source: StereoSource,
+  stereo: StereoSettings,
+  start: number
+) {
+  const outputs = stereoOutputs(stereo);
+  const ramp = 0.01;
+  const params = [source.leftLevel.gain, source.rightLevel.gain];
+  params.forEach((param) => {
+    param.cancelScheduledValues(start);
+    param.setValueAtTime(param.value, start);
+  });
+
+  IDENT_STEPS.forEach((step, i) => {
+    const at = start + i * IDENT_STEP_SECONDS;
+    const mask = identMask(step);
+    source.leftLevel.gain.linearRampToValueAtTime(outputs.left.gain * mask.left, at + ramp);
+    source.rightLevel.gain.linearRampToValueAtTime(outputs.right.gain * mask.right, at + ramp);
+    source.leftLevel.gain.setValueAtTime(outputs.left.gain * mask.left, at + IDENT_STEP_SECONDS);
+    source.rightLevel.gain.setValueAtTime(outputs.right.gain * mask.right, at + IDENT_STEP_SECONDS);
+  });
+  return start + IDENT_STEPS.length * IDENT_STEP_SECONDS;
+}
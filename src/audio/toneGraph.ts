@@ -0,0 +1,293 @@
+import { HarmonicSpectrum, classicSpectrum, createPeriodicWave } from "../lib/harmonics";
+import { LEVEL_TIME_CONSTANT } from "../lib/level";
+import { LfoSettings, modulatorLevel } from "../lib/lfo";
+import { bandwidthToQ } from "../lib/noise";
+import { StereoSettings } from "../lib/stereo";
+import { Waveform, harmonicLimit, isClassic, isNoise } from "../lib/waveforms";
+import { LfoNodes, createLfo } from "./lfo";
+import { getNoiseBuffer } from "./noise";
+import { StereoSource, createStereoSource, startStereoSource } from "./stereo";
+
+/** Top of the output level control; the limiter enforces the actual ceiling. */
+export const MAX_VOLUME = 1;
+/** Extra voices the mixer can add on top of the main tone. */
+export const MAX_VOICES = 8;
+
+export interface Voice {
+  id: number;
+  frequency: number;
+  waveform: OscillatorType;
+  /** Linear level relative to the main tone, 0–1. */
+  level: number;
+  /** Detune in cents. */
+  detune: number;
+  /** Stereo position, -1 (left) to 1 (right). */
+  pan: number;
+}
+
+export interface ToneSettings {
+  frequency: number;
+  waveform: Waveform;
+  /** Band-pass noise width in octaves. */
+  bandwidth: number;
+  /** Harmonics used when `waveform` is "custom". */
+  customWave: HarmonicSpectrum;
+  /** Square, triangle and sawtooth built from harmonics below Nyquist, not the native shapes. */
+  bandLimited: boolean;
+  volume: number;
+  voices: Voice[];
+  /** When a stereo mode is on it replaces the main source. */
+  stereo: StereoSettings;
+  lfo: LfoSettings;
+}
+
+/**
+ * The main signal: an oscillator, a looping noise buffer, or white noise
+ * through a band-pass filter.
+ */
+export interface ToneSource {
+  node: OscillatorNode | AudioBufferSourceNode;
+  /** Last node of the source chain; this is what feeds the master gain. */
+  output: AudioNode;
+  oscillator: OscillatorNode | null;
+  filter: BiquadFilterNode | null;
+  /** Oscillator pitch or band-pass centre; null for broadband noise. */
+  frequency: AudioParam | null;
+}
+
+export interface VoiceNodes {
+  oscillator: OscillatorNode;
+  level: GainNode;
+  panner: StereoPannerNode;
+}
+
+export interface ToneGraph {
+  /** Exactly one of `source` and `stereo` is set, depending on the stereo mode. */
+  source: ToneSource | null;
+  stereo: StereoSource | null;
+  /** Sits between the main source and `gain`; the LFO's amplitude and ring stage. */
+  modulator: GainNode;
+  lfo: LfoNodes | null;
+  gain: GainNode;
+  voices: Map<number, VoiceNodes>;
+}
+
+/**
+ * Scale applied to the master gain so the main tone plus every voice at full
+ * level still peaks at the requested volume.
+ */
+export function mixScale(voices: Voice[]) {
+  const total = voices.reduce((sum, voice) => sum + voice.level, 1);
+  return 1 / Math.max(1, total);
+}
+
+export function masterGain(volume: number, voices: Voice[]) {
+  return volume * mixScale(voices);
+}
+
+/** Frequency a voice actually sounds at once detune is applied. */
+export function voiceFrequency(voice: Voice) {
+  return voice.frequency * Math.pow(2, voice.detune / 1200);
+}
+
+function applyVoice(nodes: VoiceNodes, voice: Voice, time: number) {
+  nodes.oscillator.type = voice.waveform;
+  nodes.oscillator.frequency.setValueAtTime(voice.frequency, time);
+  nodes.oscillator.detune.setValueAtTime(voice.detune, time);
+  nodes.level.gain.setTargetAtTime(voice.level, time, LEVEL_TIME_CONSTANT);
+  nodes.panner.pan.setValueAtTime(voice.pan, time);
+}
+
+function releaseVoice(nodes: VoiceNodes) {
+  nodes.oscillator.stop();
+  nodes.oscillator.disconnect();
+  nodes.level.disconnect();
+  nodes.panner.disconnect();
+}
+
+/**
+ * Brings `nodes` in line with `voices`: new voices are created and started
+ * immediately, changed ones are updated and removed ones are stopped.
+ */
+export function syncVoices(
+  context: BaseAudioContext,
+  nodes: Map<number, VoiceNodes>,
+  voices: Voice[],
+  destination: AudioNode
+) {
+  const time = context.currentTime;
+  const ids = new Set(voices.map((voice) => voice.id));
+
+  nodes.forEach((voiceNodes, id) => {
+    if (ids.has(id)) return;
+    releaseVoice(voiceNodes);
+    nodes.delete(id);
+  });
+
+  voices.forEach((voice) => {
+    const existing = nodes.get(voice.id);
+    if (existing) {
+      applyVoice(existing, voice, time);
+      return;
+    }
+
+    const voiceNodes: VoiceNodes = {
+      oscillator: context.createOscillator(),
+      level: context.createGain(),
+      panner: context.createStereoPanner()
+    };
+    applyVoice(voiceNodes, voice, time);
+    voiceNodes.oscillator.connect(voiceNodes.level);
+    voiceNodes.level.connect(voiceNodes.panner);
+    voiceNodes.panner.connect(destination);
+    voiceNodes.oscillator.start(time);
+    nodes.set(voice.id, voiceNodes);
+  });
+}
+
+export function releaseVoices(nodes: Map<number, VoiceNodes>) {
+  nodes.forEach(releaseVoice);
+  nodes.clear();
+}
+
+/**
+ * Harmonics a band-limited shape keeps when its pitch reaches `topFrequency`,
+ * or null when the native oscillator plays it.
+ */
+export function bandLimitFor(
+  settings: Pick<ToneSettings, "waveform" | "bandLimited">,
+  topFrequency: number,
+  sampleRate: number
+) {
+  return settings.bandLimited && isClassic(settings.waveform)
+    ? harmonicLimit(topFrequency, sampleRate)
+    : null;
+}
+
+/**
+ * Applies a waveform to an oscillator. "custom" can't be assigned to `type`
+ * directly, so it goes through a PeriodicWave built from `customWave`, as do
+ * classic shapes given a `bandLimit` harmonic count.
+ */
+export function setOscillatorWaveform(
+  context: BaseAudioContext,
+  oscillator: OscillatorNode,
+  waveform: OscillatorType,
+  customWave: HarmonicSpectrum,
+  bandLimit: number | null = null
+) {
+  if (waveform === "custom") {
+    oscillator.setPeriodicWave(createPeriodicWave(context, customWave));
+  } else if (bandLimit !== null && isClassic(waveform)) {
+    oscillator.setPeriodicWave(createPeriodicWave(context, classicSpectrum(waveform, bandLimit)));
+  } else {
+    oscillator.type = waveform;
+  }
+}
+
+/**
+ * Creates the main source for `settings.waveform`, not yet connected or
+ * started.
+ */
+export function createSource(
+  context: BaseAudioContext,
+  settings: Pick<ToneSettings, "frequency" | "waveform" | "bandwidth" | "customWave" | "bandLimited">
+): ToneSource {
+  const { waveform } = settings;
+  if (!isNoise(waveform)) {
+    const oscillator = context.createOscillator();
+    const bandLimit = bandLimitFor(settings, settings.frequency, context.sampleRate);
+    setOscillatorWaveform(context, oscillator, waveform, settings.customWave, bandLimit);
+    oscillator.frequency.setValueAtTime(settings.frequency, context.currentTime);
+    return {
+      node: oscillator,
+      output: oscillator,
+      oscillator,
+      filter: null,
+      frequency: oscillator.frequency
+    };
+  }
+
+  const node = context.createBufferSource();
+  node.buffer = getNoiseBuffer(context, waveform === "bandpass" ? "white" : waveform);
+  node.loop = true;
+
+  if (waveform !== "bandpass") {
+    return { node, output: node, oscillator: null, filter: null, frequency: null };
+  }
+
+  const filter = context.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.setValueAtTime(settings.frequency, context.currentTime);
+  filter.Q.setValueAtTime(bandwidthToQ(settings.bandwidth), context.currentTime);
+  node.connect(filter);
+  return { node, output: filter, oscillator: null, filter, frequency: filter.frequency };
+}
+
+export function releaseSource(source: ToneSource) {
+  source.node.stop();
+  source.node.disconnect();
+  source.filter?.disconnect();
+}
+
+/**
+ * Params an LFO should drive for its target. Frequency modulation moves the
+ * oscillator pitch or band-pass centre, through `detune` when the depth is in
+ * cents; broadband noise has no pitch, so that target comes back empty.
+ */
+export function lfoTargets(
+  graph: Pick<ToneGraph, "source" | "stereo" | "modulator">,
+  lfo: LfoSettings
+): AudioParam[] {
+  if (lfo.target === "off") return [];
+  if (lfo.target !== "frequency") return [graph.modulator.gain];
+
+  const { source, stereo } = graph;
+  let pitched: (OscillatorNode | BiquadFilterNode)[] = [];
+  if (stereo) pitched = [stereo.left, stereo.right];
+  else if (source?.oscillator) pitched = [source.oscillator];
+  else if (source?.filter) pitched = [source.filter];
+  return pitched.map((node) => (lfo.unit === "cents" ? node.detune : node.frequency));
+}
+
+/**
+ * Sets the modulator's resting level for `lfo` and connects a new LFO to the
+ * graph, not yet started. Returns null when there is nothing to modulate.
+ */
+export function attachLfo(
+  context: BaseAudioContext,
+  graph: Pick<ToneGraph, "source" | "stereo" | "modulator">,
+  lfo: LfoSettings
+) {
+  graph.modulator.gain.setValueAtTime(modulatorLevel(lfo), context.currentTime);
+  const targets = lfoTargets(graph, lfo);
+  return targets.length > 0 ? createLfo(context, lfo, targets) : null;
+}
+
+/**
+ * Builds the source → modulator → gain chain shared by live playback and
+ * offline rendering, with any extra voices mixed into the same gain. The
+ * caller connects `gain` onwards and starts the graph with startToneGraph.
+ */
+export function createToneGraph(context: BaseAudioContext, settings: ToneSettings): ToneGraph {
+  const stereo = settings.stereo.mode !== "off" ? createStereoSource(context, settings.stereo) : null;
+  const source = stereo ? null : createSource(context, settings);
+  const modulator = context.createGain();
+  const gain = context.createGain();
+  const voices = new Map<number, VoiceNodes>();
+
+  gain.gain.setValueAtTime(masterGain(settings.volume, settings.voices), context.currentTime);
+
+  stereo?.merger.connect(modulator);
+  source?.output.connect(modulator);
+  modulator.connect(gain);
+  const lfo = attachLfo(context, { source, stereo, modulator }, settings.lfo);
+  syncVoices(context, voices, settings.voices, gain);
+  return { source, stereo, modulator, lfo, gain, voices };
+}
+
+export function startToneGraph(graph: ToneGraph, when = 0) {
+  graph.source?.node.start(when);
+  if (graph.stereo) startStereoSource(graph.stereo, when);
+  graph.lfo?.source.start(when);
+}
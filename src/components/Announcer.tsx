@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+/** Long enough that dragging a slider is read out once it stops, not at every step. */
+const SETTLE_MS = 600;
+
+interface AnnouncerProps {
+  message: string;
+}
+
+/**
+ * Visually hidden live region. The first message is only rendered, so the
+ * page doesn't talk on load; later ones are read once they settle.
+ */
+export default function Announcer({ message }: AnnouncerProps) {
+  const [spoken, setSpoken] = useState(message);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setSpoken(message), SETTLE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [message]);
+
+  return (
+    <p aria-live="polite" aria-atomic="true" className="sr-only">
+      {spoken}
+    </p>
+  );
+}
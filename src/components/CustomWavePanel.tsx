@@ -0,0 +1,247 @@
+import { PointerEvent, useEffect, useRef, useState } from "react";
+import { drawOnCanvas } from "../lib/canvas";
+import {
+  HARMONIC_COUNTS,
+  HARMONIC_PRESETS,
+  HarmonicPreset,
+  HarmonicSpectrum,
+  loadSavedSpectra,
+  presetSpectrum,
+  renderPeriod,
+  resizeSpectrum,
+  storeSavedSpectra
+} from "../lib/harmonics";
+
+type EditMode = "amplitude" | "phase";
+
+interface CustomWavePanelProps {
+  spectrum: HarmonicSpectrum;
+  onChange: (spectrum: HarmonicSpectrum) => void;
+}
+
+export default function CustomWavePanel({ spectrum, onChange }: CustomWavePanelProps) {
+  const [mode, setMode] = useState<EditMode>("amplitude");
+  const [duty, setDuty] = useState(0.25);
+  const [name, setName] = useState("");
+  const [saved, setSaved] = useState(loadSavedSpectra);
+  const editorRef = useRef<HTMLCanvasElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+  const draggingRef = useRef(false);
+
+  const count = spectrum.amplitudes.length;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor) {
+      drawOnCanvas(editor, (ctx, width, height) => {
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = "#080a14";
+        ctx.fillRect(0, 0, width, height);
+
+        const barWidth = width / count;
+        const values = mode === "amplitude" ? spectrum.amplitudes : spectrum.phases;
+
+        if (mode === "phase") {
+          ctx.strokeStyle = "rgba(0, 229, 255, 0.15)";
+          ctx.beginPath();
+          ctx.moveTo(0, height / 2);
+          ctx.lineTo(width, height / 2);
+          ctx.stroke();
+        }
+
+        values.forEach((value, i) => {
+          const x = i * barWidth + 0.5;
+          ctx.fillStyle =
+            mode === "amplitude" ? "rgba(224, 64, 251, 0.75)" : "rgba(0, 229, 255, 0.7)";
+          if (mode === "amplitude") {
+            const barHeight = value * (height - 4);
+            ctx.fillRect(x, height - barHeight, Math.max(1, barWidth - 1), barHeight);
+          } else {
+            const y = height / 2 - (value / 180) * (height / 2 - 2);
+            ctx.fillRect(x, Math.min(y, height / 2), Math.max(1, barWidth - 1), Math.abs(y - height / 2));
+          }
+        });
+      });
+    }
+
+    const preview = previewRef.current;
+    if (preview) {
+      drawOnCanvas(preview, (ctx, width, height) => {
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = "#080a14";
+        ctx.fillRect(0, 0, width, height);
+
+        ctx.strokeStyle = "rgba(0, 229, 255, 0.15)";
+        ctx.beginPath();
+        ctx.moveTo(0, height / 2);
+        ctx.lineTo(width, height / 2);
+        ctx.stroke();
+
+        const samples = renderPeriod(spectrum, Math.max(2, Math.floor(width)));
+        ctx.strokeStyle = "rgba(0, 229, 255, 0.85)";
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        samples.forEach((sample, i) => {
+          const x = (i / (samples.length - 1)) * width;
+          const y = height / 2 - sample * (height / 2 - 4);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      });
+    }
+  }, [count, mode, spectrum]);
+
+  const editAt = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor(((event.clientX - rect.left) / rect.width) * count);
+    if (index < 0 || index >= count) return;
+    const ratio = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+
+    const next = {
+      amplitudes: [...spectrum.amplitudes],
+      phases: [...spectrum.phases]
+    };
+    if (mode === "amplitude") {
+      next.amplitudes[index] = Math.round((1 - ratio) * 100) / 100;
+    } else {
+      next.phases[index] = Math.round((0.5 - ratio) * 360);
+    }
+    onChange(next);
+  };
+
+  const applyPreset = (preset: HarmonicPreset) => onChange(presetSpectrum(preset, count, duty));
+
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const next = { ...saved, [trimmed]: spectrum };
+    storeSavedSpectra(next);
+    setSaved(next);
+    setName("");
+  };
+
+  const deleteSaved = (key: string) => {
+    const next = { ...saved };
+    delete next[key];
+    storeSavedSpectra(next);
+    setSaved(next);
+  };
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+        Custom Waveform
+      </span>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {HARMONIC_PRESETS.map((preset) => (
+          <button key={preset.id} onClick={() => applyPreset(preset.id)} className={chipClass(false)}>
+            {preset.label}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 font-mono text-[11px] text-muted">
+          Duty
+          <input
+            aria-label="Pulse duty cycle"
+            type="range"
+            min={0.01}
+            max={0.99}
+            step={0.01}
+            value={duty}
+            onChange={(e) => setDuty(Number(e.target.value))}
+            className="h-2 w-20"
+          />
+          <span className="w-8 text-white/80">{Math.round(duty * 100)}%</span>
+        </label>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {(["amplitude", "phase"] as EditMode[]).map((m) => (
+            <button key={m} onClick={() => setMode(m)} className={`${chipClass(mode === m)} capitalize`}>
+              {m}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {HARMONIC_COUNTS.map((n) => (
+            <button
+              key={n}
+              onClick={() => onChange(resizeSpectrum(spectrum, n))}
+              className={chipClass(count === n)}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <canvas
+        ref={editorRef}
+        aria-label={`Harmonic ${mode} editor`}
+        onPointerDown={(e) => {
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          editAt(e);
+        }}
+        onPointerMove={(e) => draggingRef.current && editAt(e)}
+        onPointerUp={() => {
+          draggingRef.current = false;
+        }}
+        className="mt-3 h-28 w-full cursor-crosshair touch-none rounded-lg border border-white/[0.04] bg-[#080a14]"
+      />
+      <canvas
+        ref={previewRef}
+        role="img"
+        aria-label="One period of the custom waveform"
+        className="mt-2 h-16 w-full rounded-lg border border-white/[0.04] bg-[#080a14]"
+      />
+
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && saveCurrent()}
+          className="min-w-0 flex-1 rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white focus:border-accent/50 focus:outline-none"
+        />
+        <button onClick={saveCurrent} disabled={!name.trim()} className={`${chipClass(false)} disabled:opacity-40`}>
+          Save
+        </button>
+      </div>
+      {Object.keys(saved).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {Object.keys(saved).map((key) => (
+            <span
+              key={key}
+              className="flex items-center overflow-hidden rounded-lg border border-white/[0.06] font-mono text-[11px]"
+            >
+              <button
+                onClick={() => onChange(saved[key])}
+                className="px-2 py-1 text-muted hover:bg-white/[0.04] hover:text-white/80"
+              >
+                {key}
+              </button>
+              <button
+                aria-label={`Delete ${key}`}
+                onClick={() => deleteSaved(key)}
+                className="border-l border-white/[0.06] px-1.5 py-1 text-red-400 hover:bg-red-500/10"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { ChangeEvent, useState } from "react";
+import { captureFor } from "../audio/capture";
+import { closeInput, openInput } from "../audio/inputAnalyser";
+import { OpenContext } from "../audio/output";
+import {
+  DistortionResult,
+  MAX_ANALYSIS_SIZE,
+  analyzeDistortion,
+  ratioToDb
+} from "../lib/distortion";
+import { formatFreq } from "../lib/frequency";
+import { DEFAULT_FFT_SIZE, DEFAULT_SMOOTHING } from "../lib/spectrum";
+
+type AnalysisSource = "generator" | "loopback" | "file";
+
+const SOURCE_LABELS: Record<AnalysisSource, string> = {
+  generator: "Generator",
+  loopback: "Loopback input",
+  file: "Test file"
+};
+
+/** Capture a little more than one analysis frame at 48 kHz. */
+const CAPTURE_SECONDS = 1.6;
+/** Skip the start of captures and files, where levels are still settling. */
+const SETTLE_SECONDS = 0.1;
+
+interface DistortionPanelProps {
+  /** The live output to tap, or null when the tone is stopped. */
+  getOutput: () => { context: BaseAudioContext; node: AudioNode } | null;
+  isPlaying: boolean;
+  /** Expected fundamental when a steady sine is playing. */
+  expectedFrequency: number | null;
+  /** Files are decoded at the output rate, as they would play. */
+  openContext: OpenContext;
+}
+
+function formatRatio(ratio: number) {
+  const percent = ratio * 100;
+  const digits = percent < 0.01 ? 4 : percent < 1 ? 3 : 2;
+  return `${percent.toFixed(digits)}% · ${ratioToDb(ratio).toFixed(1)} dB`;
+}
+
+function settled(samples: Float32Array, sampleRate: number) {
+  const skip = Math.round(SETTLE_SECONDS * sampleRate);
+  return samples.length - skip >= MAX_ANALYSIS_SIZE ? samples.subarray(skip) : samples;
+}
+
+async function decodeFile(file: File, openContext: OpenContext) {
+  const context = await openContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+  } finally {
+    void context.close();
+  }
+}
+
+export default function DistortionPanel({
+  getOutput,
+  isPlaying,
+  expectedFrequency,
+  openContext
+}: DistortionPanelProps) {
+  const [source, setSource] = useState<AnalysisSource>("generator");
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DistortionResult | null>(null);
+
+  const acquire = async () => {
+    if (source === "file") {
+      if (!file) throw new Error("Choose a test file first");
+      return decodeFile(file, openContext);
+    }
+    if (source === "generator") {
+      const output = getOutput();
+      if (!output) throw new Error("Start the tone to analyse the generator");
+      const samples = await captureFor(output.context, output.node, CAPTURE_SECONDS);
+      return { samples, sampleRate: output.context.sampleRate };
+    }
+    const input = await openInput(null, DEFAULT_FFT_SIZE, DEFAULT_SMOOTHING);
+    try {
+      const samples = await captureFor(input.context, input.source, CAPTURE_SECONDS);
+      return { samples, sampleRate: input.context.sampleRate };
+    } finally {
+      closeInput(input);
+    }
+  };
+
+  const analyse = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { samples, sampleRate } = await acquire();
+      const hint = source === "file" ? undefined : (expectedFrequency ?? undefined);
+      setResult(analyzeDistortion(settled(samples, sampleRate), sampleRate, { fundamental: hint }));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Analysis failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseFile = (e: ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setResult(null);
+  };
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  const row = (label: string, value: string) => (
+    <div className="flex items-center justify-between">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      <span className="text-white/80">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Distortion &amp; Noise
+        </p>
+        <p className="font-mono text-[10px] text-accent/40">THD · THD+N · SNR</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 font-mono text-[11px] text-muted">
+        {(Object.keys(SOURCE_LABELS) as AnalysisSource[]).map((value) => (
+          <button key={value} onClick={() => setSource(value)} className={chipClass(source === value)}>
+            {SOURCE_LABELS[value]}
+          </button>
+        ))}
+        {source === "file" && (
+          <input
+            aria-label="Test file"
+            type="file"
+            accept="audio/*"
+            onChange={chooseFile}
+            className="min-w-0 flex-1 text-[11px] text-muted file:mr-2 file:rounded-lg file:border file:border-white/[0.06] file:bg-white/[0.02] file:px-2 file:py-1 file:font-mono file:text-[11px] file:text-muted"
+          />
+        )}
+        <button
+          onClick={analyse}
+          disabled={busy}
+          className="ml-auto rounded-lg border border-accent/40 bg-accent/10 px-3 py-1 font-mono text-[11px] text-accent transition-all hover:bg-accent/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {busy ? "Analysing…" : "Analyse"}
+        </button>
+      </div>
+
+      {source !== "file" && isPlaying && expectedFrequency === null && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">
+          Distortion is only meaningful for a steady sine
+        </p>
+      )}
+      {error && <p className="mt-2 font-mono text-[10px] text-secondary/80">{error}</p>}
+
+      {result && (
+        <div className="mt-4 grid gap-4 font-mono text-[11px] sm:grid-cols-2">
+          <div className="space-y-1.5">
+            {row(
+              "Fundamental",
+              `${formatFreq(result.fundamental.frequency)} · ${result.fundamental.dbfs.toFixed(1)} dBFS`
+            )}
+            {row("THD", formatRatio(result.thd))}
+            {row("THD+N", formatRatio(result.thdN))}
+            {row("SNR", `${result.snr.toFixed(1)} dB`)}
+            {row("Noise", `${result.noiseDbfs.toFixed(1)} dBFS`)}
+          </div>
+          <div className="space-y-1">
+            {result.harmonics.map((harmonic) => (
+              <div
+                key={harmonic.order}
+                className="grid grid-cols-[2rem_minmax(0,1fr)_4.5rem] items-center gap-2"
+              >
+                <span className="text-muted/70">H{harmonic.order}</span>
+                <div className="h-1.5 rounded-full bg-white/[0.04]">
+                  <div
+                    className="h-full rounded-full bg-secondary/70"
+                    style={{ width: `${Math.max(0, Math.min(100, 100 + harmonic.dbc))}%` }}
+                  />
+                </div>
+                <span className="text-right text-white/80">{harmonic.dbc.toFixed(1)} dBc</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { ReactNode } from "react";
+import {
+  BURST_MODES,
+  BurstSettings,
+  EnvelopeSettings
+} from "../lib/envelope";
+
+const BURST_LABELS: Record<BurstSettings["mode"], string> = {
+  off: "Continuous",
+  gated: "On / Off",
+  cycles: "N cycles"
+};
+
+interface EnvelopePanelProps {
+  envelope: EnvelopeSettings;
+  burst: BurstSettings;
+  onEnvelopeChange: (envelope: EnvelopeSettings) => void;
+  onBurstChange: (burst: BurstSettings) => void;
+}
+
+function formatSeconds(seconds: number) {
+  return seconds >= 1 ? `${seconds.toFixed(2)} s` : `${Math.round(seconds * 1000)} ms`;
+}
+
+export default function EnvelopePanel({
+  envelope,
+  burst,
+  onEnvelopeChange,
+  onBurstChange
+}: EnvelopePanelProps) {
+  const updateEnvelope = (patch: Partial<EnvelopeSettings>) =>
+    onEnvelopeChange({ ...envelope, ...patch });
+  const updateBurst = (patch: Partial<BurstSettings>) => onBurstChange({ ...burst, ...patch });
+
+  const sliderRow = (label: string, display: string, input: ReactNode) => (
+    <label className="grid grid-cols-[3.5rem_minmax(0,1fr)_4rem] items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      {input}
+      <span className="text-right font-mono text-[11px] text-white/80">{display}</span>
+    </label>
+  );
+
+  const timeSlider = (label: string, key: "attack" | "decay" | "release", max: number) =>
+    sliderRow(
+      label,
+      formatSeconds(envelope[key]),
+      <input
+        aria-label={label}
+        type="range"
+        min={0}
+        max={max}
+        step={0.001}
+        value={envelope[key]}
+        onChange={(e) => updateEnvelope({ [key]: Number(e.target.value) })}
+        className="h-2 w-full"
+      />
+    );
+
+  const numberField = (label: string, value: number, min: number, onValue: (v: number) => void) => (
+    <label className="block">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      <input
+        type="number"
+        min={min}
+        step={1}
+        value={value}
+        onChange={(e) => onValue(Number(e.target.value))}
+        className="mt-1 w-full rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white focus:border-accent/50 focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+        Envelope
+      </span>
+
+      <div className="mt-3 space-y-2">
+        {timeSlider("Attack", "attack", 2)}
+        {timeSlider("Decay", "decay", 2)}
+        {sliderRow(
+          "Sustain",
+          `${Math.round(envelope.sustain * 100)}%`,
+          <input
+            aria-label="Sustain"
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={envelope.sustain}
+            onChange={(e) => updateEnvelope({ sustain: Number(e.target.value) })}
+            className="accent-tone thumb-inside h-2 w-full"
+          />
+        )}
+        {timeSlider("Release", "release", 5)}
+      </div>
+
+      <span className="mt-4 block text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+        Bursts
+      </span>
+      <div className="mt-3 grid grid-cols-3 gap-2">
+        {BURST_MODES.map((mode) => (
+          <button
+            key={mode}
+            onClick={() => updateBurst({ mode })}
+            className={`rounded-lg border px-2 py-1.5 font-mono text-[11px] transition-all ${
+              burst.mode === mode
+                ? "border-secondary/50 bg-secondary/10 text-secondary"
+                : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+            }`}
+          >
+            {BURST_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      {burst.mode !== "off" && (
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          {burst.mode === "gated"
+            ? numberField("On ms", burst.onMs, 1, (onMs) => updateBurst({ onMs }))
+            : numberField("Cycles", burst.cycles, 1, (cycles) => updateBurst({ cycles }))}
+          {numberField("Off ms", burst.offMs, 0, (offMs) => updateBurst({ offMs }))}
+        </div>
+      )}
+    </div>
+  );
+}
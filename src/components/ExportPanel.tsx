@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { EXPORT_FORMATS, ExportFormat, encodeAudio } from "../lib/audioEncoder";
+import { downloadBytes } from "../lib/download";
+import { stereoOutputs } from "../lib/stereo";
+import { ToneAutomation, renderTone } from "../audio/renderTone";
+import { ToneSettings } from "../audio/toneGraph";
+
+const SAMPLE_RATES = [44100, 48000, 88200, 96000, 192000];
+const MAX_EXPORT_SECONDS = 600;
+
+interface ExportPanelProps {
+  settings: ToneSettings;
+  automation: ToneAutomation;
+  /** Limiter ceiling, linear, applied to files as it is to the live output. */
+  ceiling: number;
+}
+
+function exportName(settings: ToneSettings, automation: ToneAutomation) {
+  const { stereo } = settings;
+  if (stereo.mode === "binaural") {
+    return `binaural-${Math.round(stereo.carrier)}hz-${Number(stereo.beat.toFixed(2))}hz`;
+  }
+  if (stereo.mode === "split") {
+    const { left, right } = stereoOutputs(stereo);
+    return `stereo-${Math.round(left.frequency)}-${Math.round(right.frequency)}hz`;
+  }
+  const { sweep } = automation;
+  return sweep
+    ? `sweep-${Math.round(sweep.startFreq)}-${Math.round(sweep.endFreq)}hz`
+    : `${settings.waveform}-${Math.round(settings.frequency)}hz`;
+}
+
+export default function ExportPanel({ settings, automation, ceiling }: ExportPanelProps) {
+  const [sampleRate, setSampleRate] = useState(48000);
+  const [duration, setDuration] = useState(5);
+  const [format, setFormat] = useState<ExportFormat>("wav24");
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    const seconds = Math.min(MAX_EXPORT_SECONDS, Math.max(0.1, duration || 0));
+    const target = EXPORT_FORMATS.find((f) => f.id === format) ?? EXPORT_FORMATS[0];
+    setBusy(true);
+    setStatus("Rendering…");
+    try {
+      const buffer = await renderTone(settings, automation, {
+        sampleRate,
+        duration: seconds,
+        ceiling
+      });
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+        buffer.getChannelData(i)
+      );
+      const bytes = encodeAudio(channels, buffer.sampleRate, format);
+      downloadBytes(
+        bytes,
+        target.mime,
+        `${exportName(settings, automation)}-${sampleRate}.${target.extension}`
+      );
+      setStatus(`Saved ${(bytes.length / 1024).toFixed(0)} KB`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fieldClass =
+    "mt-1 w-full rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white focus:border-accent/50 focus:outline-none";
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+        Export
+      </span>
+      <div className="mt-3 grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className={`${fieldClass} appearance-none`}
+          >
+            {EXPORT_FORMATS.map((f) => (
+              <option key={f.id} value={f.id} className="bg-[#0a0f1e]">
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Rate</span>
+          <select
+            value={sampleRate}
+            onChange={(e) => setSampleRate(Number(e.target.value))}
+            className={`${fieldClass} appearance-none`}
+          >
+            {SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate} className="bg-[#0a0f1e]">
+                {rate / 1000} kHz
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Seconds</span>
+          <input
+            type="number"
+            min={0.1}
+            max={MAX_EXPORT_SECONDS}
+            step={0.1}
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          onClick={handleExport}
+          disabled={busy}
+          className="rounded-lg border border-accent/40 bg-accent/10 px-4 py-2 font-mono text-xs text-accent transition-all hover:bg-accent/20 disabled:opacity-50"
+        >
+          {busy ? "Rendering" : "Render & Download"}
+        </button>
+        {status && <span className="font-mono text-[11px] text-muted">{status}</span>}
+      </div>
+    </div>
+  );
+}
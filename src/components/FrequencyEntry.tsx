@@ -0,0 +1,133 @@
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+import Knob from "./Knob";
+import {
+  NudgeStep,
+  frequencyError,
+  nudgeFrequency,
+  parseFrequency
+} from "../lib/frequency";
+import { FINE_TUNE_CENTS } from "../lib/midi";
+import { Tuning, nearestNote, noteToFrequency } from "../lib/tuning";
+
+interface FrequencyEntryProps {
+  frequency: number;
+  tuning: Tuning;
+  onChange: (frequency: number) => void;
+}
+
+/** A Fine knob setting and the frequency it produced. */
+interface FineAnchor {
+  midi: number;
+  cents: number;
+  frequency: number;
+  tuning: Tuning;
+}
+
+function formatEntry(freq: number) {
+  return `${Number(freq.toFixed(3))}`;
+}
+
+/** Arrow keys nudge by 1 Hz, with Alt by a cent, Shift a semitone and Ctrl/⌘ an octave. */
+function nudgeStep(e: KeyboardEvent): NudgeStep {
+  if (e.ctrlKey || e.metaKey) return "octave";
+  if (e.shiftKey) return "semitone";
+  if (e.altKey) return "cent";
+  return "hz";
+}
+
+export default function FrequencyEntry({ frequency, tuning, onChange }: FrequencyEntryProps) {
+  const [draft, setDraft] = useState(() => formatEntry(frequency));
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The note the Fine knob last tuned from. It holds while the knob drives the
+  // frequency, so turning past ±50c stops at the end instead of hopping notes.
+  const fineRef = useRef<FineAnchor | null>(null);
+
+  useEffect(() => {
+    if (!editing) setDraft(formatEntry(frequency));
+  }, [editing, frequency]);
+
+  const apply = (freq: number) => {
+    const message = frequencyError(freq);
+    setError(message);
+    if (message) return false;
+    onChange(freq);
+    return true;
+  };
+
+  const commit = () => {
+    const freq = parseFrequency(draft);
+    if (freq === null) {
+      setError(`"${draft}" isn't a frequency, try 997, 1k or 1.5 kHz`);
+      return;
+    }
+    if (apply(freq)) setDraft(formatEntry(freq));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      commit();
+      return;
+    }
+    if (e.key === "Escape") {
+      setDraft(formatEntry(frequency));
+      setError(null);
+      return;
+    }
+    const direction = e.key === "ArrowUp" ? 1 : e.key === "ArrowDown" ? -1 : 0;
+    if (!direction) return;
+    e.preventDefault();
+    const next = nudgeFrequency(parseFrequency(draft) ?? frequency, nudgeStep(e), direction);
+    if (apply(next)) setDraft(formatEntry(next));
+  };
+
+  const fine = fineRef.current;
+  const anchored = fine !== null && fine.frequency === frequency && fine.tuning === tuning;
+  const { midi, cents } = anchored ? fine : nearestNote(frequency, tuning);
+
+  const tuneFine = (value: number) => {
+    const next = noteToFrequency(midi, value, tuning);
+    if (apply(next)) fineRef.current = { midi, cents: value, frequency: next, tuning };
+  };
+
+  return (
+    <div className="mt-3 flex items-start gap-3">
+      <div className="flex-1">
+        <div className="flex items-center gap-2">
+          <input
+            aria-label="Frequency value"
+            aria-invalid={error !== null}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onFocus={() => setEditing(true)}
+            onBlur={() => {
+              setEditing(false);
+              commit();
+            }}
+            onKeyDown={onKeyDown}
+            className={`w-full rounded-lg border bg-white/[0.02] px-2 py-1.5 font-mono text-sm text-white focus:outline-none ${
+              error ? "border-red-400/60" : "border-white/[0.06] focus:border-accent/50"
+            }`}
+          />
+          <span className="font-mono text-[11px] text-muted/70">Hz</span>
+        </div>
+        {error ? (
+          <p className="mt-1 font-mono text-[10px] text-red-400/90">{error}</p>
+        ) : (
+          <p className="mt-1 font-mono text-[10px] text-muted/50">
+            ↑↓ 1 Hz · Alt cent · Shift semitone · Ctrl octave
+          </p>
+        )}
+      </div>
+      <Knob
+        label="Fine"
+        value={cents}
+        min={-FINE_TUNE_CENTS}
+        max={FINE_TUNE_CENTS}
+        step={1}
+        display={`${cents >= 0 ? "+" : ""}${cents.toFixed(1)}c`}
+        onChange={tuneFine}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useEffect, useRef, useState } from "react";
+import { TestOutput, closeTestOutput, openTestOutput, playTrial } from "../audio/hearing";
+import { OpenContext } from "../audio/output";
+import { drawOnCanvas } from "../lib/canvas";
+import { MAX_FREQ, formatFreq } from "../lib/frequency";
+import {
+  CUTOFF_LEVEL_DB,
+  Cutoff,
+  EARS,
+  Ear,
+  HearingMode,
+  HearingResult,
+  HearingSession,
+  MAX_TEST_DB,
+  MIN_TEST_DB,
+  Threshold,
+  createSession,
+  currentTrial,
+  loadResults,
+  respondSession,
+  sessionProgress,
+  storeResults
+} from "../lib/hearing";
+
+const CHART_MIN_FREQ = 125;
+const CHART_MAX_FREQ = 20000;
+const CHART_TICKS = [250, 500, 1000, 2000, 4000, 8000, 16000];
+const DB_STEP = 10;
+/** Random pause before each trial so the next tone can't be anticipated. */
+const MIN_GAP_MS = 600;
+const MAX_GAP_MS = 1500;
+/** Keeps the cutoff search clear of the sample rate's anti-alias filter. */
+const NYQUIST_MARGIN = 0.45;
+
+// Audiogram convention: left ear blue crosses, right ear red circles.
+const EAR_COLORS: Record<Ear, string> = { left: "#4d8dff", right: "#ff5252" };
+
+const MODE_LABELS: Record<HearingMode, string> = {
+  audiogram: "Audiogram",
+  cutoff: "Upper cutoff"
+};
+
+type EarChoice = Ear | "both";
+
+const EAR_CHOICES: Record<EarChoice, string> = {
+  left: "Left",
+  right: "Right",
+  both: "Both"
+};
+
+interface HearingPanelProps {
+  /** The test owns the output, so it waits for the tone to stop. */
+  isPlaying: boolean;
+  openContext: OpenContext;
+}
+
+function resultName(result: HearingResult) {
+  const date = new Date(result.createdAt);
+  return `${MODE_LABELS[result.mode]} · ${date.toLocaleDateString()} ${date.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit"
+  })}`;
+}
+
+export default function HearingPanel({ isPlaying, openContext }: HearingPanelProps) {
+  const [mode, setMode] = useState<HearingMode>("audiogram");
+  const [earChoice, setEarChoice] = useState<EarChoice>("both");
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [session, setSession] = useState<HearingSession | null>(null);
+  const [answered, setAnswered] = useState(true);
+  const [results, setResults] = useState<HearingResult[]>(loadResults);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [size, setSize] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const outputRef = useRef<TestOutput | null>(null);
+  const timeoutRef = useRef<number | null>(null);
+
+  const selected = results.find((result) => result.id === selectedId) ?? null;
+  const thresholds: Threshold[] = session?.thresholds ?? selected?.thresholds ?? [];
+  const cutoffs: Cutoff[] = session?.cutoffs ?? selected?.cutoffs ?? [];
+  const inconclusive = thresholds.filter((point) => point.level === null && !point.noResponse);
+  const trial = session && currentTrial(session);
+
+  useEffect(() => {
+    const onResize = () => setSize(window.innerWidth);
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current !== null) window.clearTimeout(timeoutRef.current);
+      if (outputRef.current) void closeTestOutput(outputRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    drawOnCanvas(canvas, (ctx, width, height) => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = "#080a14";
+      ctx.fillRect(0, 0, width, height);
+
+      const plotHeight = height - 20;
+      const left = 36;
+      const freqToX = (freq: number) =>
+        left +
+        (Math.log(freq / CHART_MIN_FREQ) / Math.log(CHART_MAX_FREQ / CHART_MIN_FREQ)) *
+          (width - left - 8);
+      // Better hearing plots higher, as on a clinical audiogram.
+      const dbToY = (db: number) =>
+        8 + ((db - MIN_TEST_DB) / (MAX_TEST_DB - MIN_TEST_DB)) * (plotHeight - 16);
+
+      ctx.lineWidth = 1;
+      ctx.font = "10px 'JetBrains Mono', monospace";
+      ctx.fillStyle = "rgba(136, 146, 176, 0.5)";
+      for (let db = MIN_TEST_DB; db <= MAX_TEST_DB; db += DB_STEP) {
+        const y = dbToY(db);
+        ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
+        ctx.beginPath();
+        ctx.moveTo(left, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+        ctx.fillText(`${db}`, 4, y + 3);
+      }
+      CHART_TICKS.forEach((tick) => {
+        const x = freqToX(tick);
+        ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, plotHeight);
+        ctx.stroke();
+        ctx.fillText(tick >= 1000 ? `${tick / 1000}k` : `${tick}`, x - 8, height - 6);
+      });
+
+      if (thresholds.length === 0 && cutoffs.length === 0) {
+        ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
+        ctx.font = "500 13px 'Inter', sans-serif";
+        ctx.fillText(session ? "Listening…" : "Run a test to plot thresholds", left + 20, plotHeight / 2);
+        return;
+      }
+
+      EARS.forEach((ear) => {
+        const color = EAR_COLORS[ear];
+        const points = thresholds
+          .filter((point) => point.ear === ear)
+          .sort((a, b) => a.frequency - b.frequency);
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let drawing = false;
+        points.forEach((point) => {
+          if (point.level === null) {
+            drawing = false;
+            return;
+          }
+          const x = freqToX(point.frequency);
+          const y = dbToY(point.level);
+          if (drawing) ctx.lineTo(x, y);
+          else ctx.moveTo(x, y);
+          drawing = true;
+        });
+        ctx.stroke();
+
+        points.forEach((point) => {
+          const x = freqToX(point.frequency);
+          if (point.level === null && !point.noResponse) {
+            // Inconclusive: marked along the bottom and listed under the chart.
+            ctx.fillStyle = color;
+            ctx.fillText("?", x - 3, plotHeight - 4);
+            return;
+          }
+          if (point.level === null) {
+            // No response at the cap: an arrow pointing off the chart.
+            const y = dbToY(MAX_TEST_DB);
+            ctx.beginPath();
+            ctx.moveTo(x, y - 10);
+            ctx.lineTo(x, y);
+            ctx.moveTo(x - 4, y - 4);
+            ctx.lineTo(x, y);
+            ctx.lineTo(x + 4, y - 4);
+            ctx.stroke();
+            return;
+          }
+          const y = dbToY(point.level);
+          ctx.beginPath();
+          if (ear === "left") {
+            ctx.moveTo(x - 4, y - 4);
+            ctx.lineTo(x + 4, y + 4);
+            ctx.moveTo(x + 4, y - 4);
+            ctx.lineTo(x - 4, y + 4);
+          } else {
+            ctx.arc(x, y, 4.5, 0, Math.PI * 2);
+          }
+          ctx.stroke();
+        });
+
+        cutoffs
+          .filter((cutoff) => cutoff.ear === ear && cutoff.frequency !== null)
+          .forEach((cutoff) => {
+            const x = freqToX(cutoff.frequency ?? 0);
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x, plotHeight);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            ctx.fillStyle = color;
+            ctx.fillText(`${ear[0].toUpperCase()} ${formatFreq(cutoff.frequency ?? 0)}`, x + 4, 14);
+          });
+      });
+    });
+  }, [cutoffs, session, size, thresholds]);
+
+  const present = async (next: HearingSession) => {
+    const output = outputRef.current;
+    const nextTrial = currentTrial(next);
+    if (!output || !nextTrial) return;
+    setAnswered(false);
+    await playTrial(output, nextTrial);
+  };
+
+  const stop = () => {
+    if (timeoutRef.current !== null) window.clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+    if (outputRef.current) void closeTestOutput(outputRef.current);
+    outputRef.current = null;
+    setSession(null);
+    setAnswered(true);
+  };
+
+  const start = async () => {
+    setError(null);
+    try {
+      const output = await openTestOutput(openContext);
+      outputRef.current = output;
+      const ears = earChoice === "both" ? EARS : [earChoice];
+      const maxFrequency = Math.min(MAX_FREQ, output.context.sampleRate * NYQUIST_MARGIN);
+      const next = createSession(mode, ears, maxFrequency);
+      setSession(next);
+      setSelectedId(null);
+      void present(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Audio output unavailable");
+    }
+  };
+
+  const respond = (heard: boolean) => {
+    if (!session || answered) return;
+    setAnswered(true);
+    const next = respondSession(session, heard);
+    if (!currentTrial(next)) {
+      const result: HearingResult = {
+        id: `${Date.now()}`,
+        createdAt: Date.now(),
+        mode: next.mode,
+        thresholds: next.thresholds,
+        cutoffs: next.cutoffs
+      };
+      const updated = [...results, result];
+      setResults(updated);
+      storeResults(updated);
+      stop();
+      setSelectedId(result.id);
+      return;
+    }
+    setSession(next);
+    const gap = MIN_GAP_MS + Math.random() * (MAX_GAP_MS - MIN_GAP_MS);
+    timeoutRef.current = window.setTimeout(() => void present(next), gap);
+  };
+
+  const deleteResult = (id: string) => {
+    const updated = results.filter((result) => result.id !== id);
+    setResults(updated);
+    storeResults(updated);
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const chipClass = (active: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all disabled:opacity-40 ${
+      active
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  const progress = session && sessionProgress(session);
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Hearing Test
+        </p>
+        <p className="font-mono text-[10px] text-accent/40">Thresholds · dBFS</p>
+      </div>
+
+      <div className="mb-3 rounded-xl border border-red-500/30 bg-red-500/10 p-3 text-xs text-red-300">
+        <p className="font-semibold uppercase tracking-[0.15em]">Protect your hearing</p>
+        <p className="mt-1 text-red-300/80">
+          Turn your system volume down before starting. Tones are capped at {MAX_TEST_DB} dBFS
+          {mode === "cutoff" && ` and the cutoff search plays at ${CUTOFF_LEVEL_DB} dBFS`}, but how
+          loud that is depends entirely on your volume and headphones. Stop at once if anything is
+          uncomfortable. This is not a medical test and levels are not dB HL.
+        </p>
+        <label className="mt-2 flex items-center gap-2 font-mono text-[11px]">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => setAcknowledged(e.target.checked)}
+            className="accent-red-400"
+          />
+          My volume is down and I'm using headphones
+        </label>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label="Audiogram"
+        className="h-56 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
+      />
+      {inconclusive.length > 0 && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">
+          No threshold at{" "}
+          {inconclusive
+            .map((point) => `${formatFreq(point.frequency)} (${point.ear})`)
+            .join(", ")}
+          : answers were inconsistent, so retest these
+        </p>
+      )}
+
+      {session && trial ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 font-mono text-[11px]">
+          <span className="text-muted">
+            {trial.ear === "left" ? "Left" : "Right"} ear · {formatFreq(trial.frequency)}
+            {progress && ` · ${progress.done + 1} of ${progress.total}`}
+          </span>
+          <button
+            onClick={() => respond(true)}
+            disabled={answered}
+            className="ml-auto rounded-lg border border-tone/40 bg-tone/10 px-3 py-1 text-tone transition-all hover:bg-tone/20 disabled:opacity-40"
+          >
+            I hear it
+          </button>
+          <button onClick={() => respond(false)} disabled={answered} className={chipClass(false)}>
+            I don't
+          </button>
+          <button onClick={() => void present(session)} disabled={answered} className={chipClass(false)}>
+            Replay
+          </button>
+          <button onClick={stop} className="text-muted hover:text-red-400">
+            Stop
+          </button>
+        </div>
+      ) : (
+        <div className="mt-3 flex flex-wrap items-center gap-2 font-mono text-[11px] text-muted">
+          {(Object.keys(MODE_LABELS) as HearingMode[]).map((value) => (
+            <button key={value} onClick={() => setMode(value)} className={chipClass(mode === value)}>
+              {MODE_LABELS[value]}
+            </button>
+          ))}
+          <span className="ml-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Ear</span>
+          {(Object.keys(EAR_CHOICES) as EarChoice[]).map((value) => (
+            <button key={value} onClick={() => setEarChoice(value)} className={chipClass(earChoice === value)}>
+              {EAR_CHOICES[value]}
+            </button>
+          ))}
+          <button
+            onClick={start}
+            disabled={isPlaying || !acknowledged}
+            className="ml-auto rounded-lg border border-accent/40 bg-accent/10 px-3 py-1 font-mono text-[11px] text-accent transition-all hover:bg-accent/20 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Start test
+          </button>
+        </div>
+      )}
+
+      {(isPlaying || error) && !session && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">
+          {error ?? "Stop the tone to run a hearing test"}
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="mt-3 space-y-1 font-mono text-[11px]">
+          {results.map((result) => (
+            <li key={result.id} className="flex items-center gap-2">
+              <button
+                onClick={() => setSelectedId(selectedId === result.id ? null : result.id)}
+                disabled={session !== null}
+                className={`flex-1 truncate text-left ${
+                  selectedId === result.id ? "text-accent" : "text-white/80 hover:text-accent"
+                }`}
+              >
+                {resultName(result)}
+              </button>
+              <button onClick={() => deleteResult(result.id)} className="text-muted hover:text-red-400">
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
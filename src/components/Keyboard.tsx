@@ -0,0 +1,93 @@
+import { KeyboardEvent, PointerEvent } from "react";
+import { formatFreq } from "../lib/frequency";
+import { Tuning, noteFrequency, noteName } from "../lib/tuning";
+
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+const WHITE_KEYS = [0, 2, 4, 5, 7, 9, 11];
+
+interface KeyboardProps {
+  /** MIDI note of the leftmost C. */
+  firstMidi: number;
+  octaves: number;
+  tuning: Tuning;
+  active: number[];
+  onPress: (midi: number) => void;
+  /** When set, keys are held: released on pointer up or key up. */
+  onRelease?: (midi: number) => void;
+}
+
+export default function Keyboard({
+  firstMidi,
+  octaves,
+  tuning,
+  active,
+  onPress,
+  onRelease
+}: KeyboardProps) {
+  const whiteKeys = Array.from({ length: octaves }, (_, o) =>
+    WHITE_KEYS.map((pitch) => firstMidi + o * 12 + pitch)
+  ).flat();
+  const blackKeys = Array.from({ length: octaves }, (_, o) =>
+    BLACK_KEYS.map((pitch) => firstMidi + o * 12 + pitch)
+  ).flat();
+  const whiteWidth = 100 / whiteKeys.length;
+
+  const keyProps = (midi: number) => ({
+    "aria-label": noteName(midi),
+    "aria-pressed": active.includes(midi),
+    title: `${noteName(midi)} · ${formatFreq(noteFrequency(midi, tuning))}`,
+    onPointerDown: (e: PointerEvent<HTMLButtonElement>) => {
+      // Captured so the release lands here even if the pointer slides off.
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onPress(midi);
+    },
+    onPointerUp: () => onRelease?.(midi),
+    onPointerCancel: () => onRelease?.(midi),
+    onKeyDown: (e: KeyboardEvent) => {
+      if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+        e.preventDefault();
+        onPress(midi);
+      }
+    },
+    onKeyUp: (e: KeyboardEvent) => {
+      if (e.key === " " || e.key === "Enter") onRelease?.(midi);
+    }
+  });
+
+  return (
+    <div className="relative h-20 flex-1 touch-none select-none">
+      {whiteKeys.map((midi, index) => (
+        <button
+          key={midi}
+          {...keyProps(midi)}
+          className={`absolute top-0 h-full rounded-b-md border border-black/40 transition-colors ${
+            active.includes(midi) ? "bg-accent" : "bg-white/85 hover:bg-white"
+          }`}
+          style={{ left: `${index * whiteWidth}%`, width: `${whiteWidth}%` }}
+        >
+          {midi % 12 === 0 && (
+            <span className="absolute bottom-1 left-0 right-0 text-center font-mono text-[9px] text-black/60">
+              {noteName(midi)}
+            </span>
+          )}
+        </button>
+      ))}
+      {blackKeys.map((midi) => {
+        const whiteIndex = whiteKeys.indexOf(midi - 1) + 1;
+        return (
+          <button
+            key={midi}
+            {...keyProps(midi)}
+            className={`absolute top-0 z-10 h-12 rounded-b-md border border-black/60 transition-colors ${
+              active.includes(midi) ? "bg-secondary" : "bg-[#111] hover:bg-[#333]"
+            }`}
+            style={{
+              left: `${whiteIndex * whiteWidth - whiteWidth * 0.3}%`,
+              width: `${whiteWidth * 0.6}%`
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { KeyboardEvent, PointerEvent, WheelEvent, useRef } from "react";
+
+/** Drag distance in pixels that covers the knob's whole range. */
+const DRAG_RANGE_PX = 200;
+const SWEEP_DEGREES = 270;
+
+interface KnobProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  /** Keyboard and wheel increment; holding Shift divides it by ten. */
+  step: number;
+  display: string;
+  onChange: (value: number) => void;
+}
+
+export default function Knob({ label, value, min, max, step, display, onChange }: KnobProps) {
+  const dragRef = useRef<{ y: number; value: number } | null>(null);
+
+  const clamp = (next: number) => Math.min(max, Math.max(min, next));
+  const fraction = (value - min) / (max - min);
+  const angle = -SWEEP_DEGREES / 2 + fraction * SWEEP_DEGREES;
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { y: e.clientY, value };
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const scale = e.shiftKey ? 0.1 : 1;
+    const delta = ((drag.y - e.clientY) / DRAG_RANGE_PX) * (max - min) * scale;
+    onChange(clamp(drag.value + delta));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const onWheel = (e: WheelEvent<HTMLDivElement>) => {
+    const increment = e.shiftKey ? step / 10 : step;
+    onChange(clamp(value + (e.deltaY < 0 ? increment : -increment)));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const increment = e.shiftKey ? step / 10 : step;
+    if (e.key === "ArrowUp" || e.key === "ArrowRight") onChange(clamp(value + increment));
+    else if (e.key === "ArrowDown" || e.key === "ArrowLeft") onChange(clamp(value - increment));
+    else if (e.key === "Home") onChange(min);
+    else if (e.key === "End") onChange(max);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={Number(value.toFixed(2))}
+        aria-valuetext={display}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onWheel={onWheel}
+        onKeyDown={onKeyDown}
+        className="relative h-11 w-11 cursor-ns-resize touch-none rounded-full border border-white/10 bg-gradient-to-b from-white/[0.08] to-white/[0.02] focus:border-accent/50 focus:outline-none"
+      >
+        <div className="absolute inset-0" style={{ transform: `rotate(${angle}deg)` }}>
+          <div className="mx-auto mt-1 h-3 w-0.5 rounded-full bg-accent" />
+        </div>
+      </div>
+      <span className="text-[9px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      <span className="font-mono text-[10px] text-white/80">{display}</span>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { ratioToDb } from "../lib/distortion";
+import {
+  Calibration,
+  LevelReading,
+  METER_FLOOR_DB,
+  MIN_CEILING_DB,
+  REFERENCE_FREQUENCY,
+  REFERENCE_LEVEL_DB,
+  estimateSpl,
+  formatDb,
+  loadCalibration,
+  measureLevel,
+  storeCalibration
+} from "../lib/level";
+
+/** Lowest level the bars show. */
+const SCALE_DB = -60;
+const PEAK_HOLD_SECONDS = 1.5;
+
+type Channel = "left" | "right";
+
+interface LevelPanelProps {
+  /** Read every frame so the meters follow the graph as it is rebuilt. */
+  getChannels: () => { left: AnalyserNode; right: AnalyserNode } | null;
+  /** Lowest limiter gain over the last few milliseconds, or null when stopped. */
+  getLimiterGain: () => number | null;
+  isPlaying: boolean;
+  ceilingDb: number;
+  onCeilingChange: (db: number) => void;
+  /** Switches the generator to the calibration reference tone. */
+  onReference: () => void;
+}
+
+function barWidth(db: number) {
+  return `${Math.max(0, Math.min(1, (db - SCALE_DB) / -SCALE_DB)) * 100}%`;
+}
+
+export default function LevelPanel({
+  getChannels,
+  getLimiterGain,
+  isPlaying,
+  ceilingDb,
+  onCeilingChange,
+  onReference
+}: LevelPanelProps) {
+  const [calibration, setCalibration] = useState<Calibration | null>(loadCalibration);
+  const [measuredSpl, setMeasuredSpl] = useState("");
+
+  const rmsBarRefs = useRef<Record<Channel, HTMLDivElement | null>>({ left: null, right: null });
+  const peakBarRefs = useRef<Record<Channel, HTMLDivElement | null>>({ left: null, right: null });
+  const readoutRefs = useRef<Record<Channel, HTMLSpanElement | null>>({ left: null, right: null });
+  const limiterRef = useRef<HTMLSpanElement | null>(null);
+  const splRef = useRef<HTMLSpanElement | null>(null);
+  // Louder channel's RMS from the last frame, used when calibrating.
+  const rmsRef = useRef(METER_FLOOR_DB);
+
+  useEffect(() => {
+    const createBuffer = (size: number) => new Float32Array(size);
+    let buffer = createBuffer(0);
+    const held: Record<Channel, { db: number; at: number }> = {
+      left: { db: METER_FLOOR_DB, at: 0 },
+      right: { db: METER_FLOOR_DB, at: 0 }
+    };
+    let frame: number | null = null;
+
+    const render = (now: number) => {
+      const channels = isPlaying ? getChannels() : null;
+      let loudest = METER_FLOOR_DB;
+
+      (["left", "right"] as Channel[]).forEach((channel) => {
+        let reading: LevelReading = { peak: METER_FLOOR_DB, rms: METER_FLOOR_DB };
+        const analyser = channels?.[channel];
+        if (analyser) {
+          if (buffer.length !== analyser.fftSize) buffer = createBuffer(analyser.fftSize);
+          analyser.getFloatTimeDomainData(buffer);
+          reading = measureLevel(buffer);
+        }
+        loudest = Math.max(loudest, reading.rms);
+
+        const hold = held[channel];
+        if (reading.peak >= hold.db || now - hold.at > PEAK_HOLD_SECONDS * 1000) {
+          held[channel] = { db: reading.peak, at: now };
+        }
+
+        const rmsBar = rmsBarRefs.current[channel];
+        const peakBar = peakBarRefs.current[channel];
+        const readout = readoutRefs.current[channel];
+        if (rmsBar) rmsBar.style.width = barWidth(reading.rms);
+        if (peakBar) peakBar.style.left = barWidth(held[channel].db);
+        if (readout) {
+          readout.textContent = `${formatDb(held[channel].db, "pk")} · ${formatDb(reading.rms, "rms")}`;
+        }
+      });
+      rmsRef.current = loudest;
+
+      const gain = isPlaying ? getLimiterGain() : null;
+      if (limiterRef.current) {
+        const limiting = gain !== null && gain < 0.999;
+        limiterRef.current.textContent = limiting ? `Limiting ${ratioToDb(gain).toFixed(1)} dB` : "Idle";
+        limiterRef.current.className = limiting ? "text-red-400" : "text-muted/60";
+      }
+      if (splRef.current) {
+        splRef.current.textContent =
+          calibration && loudest > METER_FLOOR_DB
+            ? `≈ ${estimateSpl(loudest, calibration).toFixed(1)} dB SPL`
+            : "—";
+      }
+
+      frame = requestAnimationFrame(render);
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [calibration, getChannels, getLimiterGain, isPlaying]);
+
+  const calibrate = (e: FormEvent) => {
+    e.preventDefault();
+    const spl = Number(measuredSpl);
+    if (!Number.isFinite(spl) || rmsRef.current <= METER_FLOOR_DB) return;
+    const next = { rms: rmsRef.current, spl, calibratedAt: Date.now() };
+    setCalibration(next);
+    storeCalibration(next);
+    setMeasuredSpl("");
+  };
+
+  const clearCalibration = () => {
+    setCalibration(null);
+    storeCalibration(null);
+  };
+
+  const buttonClass =
+    "rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Output Level
+        </p>
+        <p className="font-mono text-[10px]">
+          <span ref={limiterRef} className="text-muted/60">
+            Idle
+          </span>
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {(["left", "right"] as Channel[]).map((channel) => (
+          <div key={channel} className="grid grid-cols-[1.5rem_minmax(0,1fr)_11rem] items-center gap-2">
+            <span className="font-mono text-[10px] uppercase text-muted/70">{channel[0]}</span>
+            <div className="relative h-2 overflow-hidden rounded-full bg-white/5">
+              <div
+                ref={(el) => {
+                  rmsBarRefs.current[channel] = el;
+                }}
+                className="h-full rounded-full bg-gradient-to-r from-tone/80 via-tone to-red-400"
+                style={{ width: "0%" }}
+              />
+              <div
+                ref={(el) => {
+                  peakBarRefs.current[channel] = el;
+                }}
+                className="absolute top-0 h-full w-0.5 bg-white/80"
+                style={{ left: "0%" }}
+              />
+              <div
+                className="absolute top-0 h-full w-px bg-red-400/70"
+                style={{ left: barWidth(ceilingDb) }}
+              />
+            </div>
+            <span
+              ref={(el) => {
+                readoutRefs.current[channel] = el;
+              }}
+              className="text-right font-mono text-[11px] text-white/80"
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className="mt-4 grid grid-cols-[4rem_minmax(0,1fr)_5rem] items-center gap-2">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Ceiling</span>
+        <input
+          aria-label="Limiter ceiling"
+          type="range"
+          min={MIN_CEILING_DB}
+          max={0}
+          step={0.5}
+          value={ceilingDb}
+          onChange={(e) => onCeilingChange(Number(e.target.value))}
+          className="h-2 w-full"
+        />
+        <span className="text-right font-mono text-[11px] text-white/80">{formatDb(ceilingDb)}</span>
+      </label>
+
+      <div className="mt-4 rounded-xl border border-white/[0.04] bg-white/[0.02] p-3">
+        <div className="flex items-center justify-between font-mono text-[11px]">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Estimated SPL</span>
+          <span ref={splRef} className="text-accent">
+            —
+          </span>
+        </div>
+        <form onSubmit={calibrate} className="mt-2 flex flex-wrap items-center gap-2 font-mono text-[11px]">
+          <button type="button" onClick={onReference} className={buttonClass}>
+            {REFERENCE_FREQUENCY / 1000} kHz at {REFERENCE_LEVEL_DB} dBFS
+          </button>
+          <input
+            aria-label="Measured SPL"
+            inputMode="decimal"
+            value={measuredSpl}
+            onChange={(e) => setMeasuredSpl(e.target.value)}
+            placeholder="Meter dB SPL"
+            className="w-28 rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 text-white placeholder:text-muted/40 focus:border-accent/50 focus:outline-none"
+          />
+          <button type="submit" disabled={!isPlaying || !measuredSpl.trim()} className={buttonClass}>
+            Calibrate
+          </button>
+          {calibration && (
+            <button type="button" onClick={clearCalibration} className={buttonClass}>
+              Clear
+            </button>
+          )}
+        </form>
+        <p className="mt-2 font-mono text-[10px] text-muted/50">
+          {calibration
+            ? `Calibrated: ${formatDb(calibration.rms, "dBFS rms")} = ${calibration.spl.toFixed(1)} dB SPL. Redo after changing volume or speakers.`
+            : "Play the reference tone, read an SPL meter at the listening position and enter the reading."}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { ReactNode } from "react";
+import { formatFreq } from "../lib/frequency";
+import {
+  DEPTH_UNITS,
+  LFO_SHAPES,
+  LFO_TARGETS,
+  LfoSettings,
+  LfoShape,
+  LfoTarget,
+  MAX_DEVIATION,
+  rateToSlider,
+  sliderToRate
+} from "../lib/lfo";
+
+const TARGET_LABELS: Record<LfoTarget, string> = {
+  off: "Off",
+  frequency: "FM",
+  amplitude: "AM",
+  ring: "Ring"
+};
+
+const SHAPE_LABELS: Record<LfoShape, string> = {
+  sine: "Sine",
+  triangle: "Tri",
+  square: "Square",
+  hold: "S&H"
+};
+
+interface LfoPanelProps {
+  lfo: LfoSettings;
+  onChange: (lfo: LfoSettings) => void;
+  /** False for broadband noise, which has no pitch to modulate. */
+  pitched: boolean;
+}
+
+function formatRate(rate: number) {
+  if (rate < 1) return `${rate.toFixed(2)} Hz`;
+  if (rate < 100) return `${rate.toFixed(1)} Hz`;
+  return formatFreq(rate);
+}
+
+export default function LfoPanel({ lfo, onChange, pitched }: LfoPanelProps) {
+  const update = (patch: Partial<LfoSettings>) => onChange({ ...lfo, ...patch });
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  const sliderRow = (label: string, display: string, input: ReactNode) => (
+    <label className="grid grid-cols-[3.5rem_minmax(0,1fr)_4rem] items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      {input}
+      <span className="text-right font-mono text-[11px] text-white/80">{display}</span>
+    </label>
+  );
+
+  const maxDeviation = MAX_DEVIATION[lfo.unit];
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Modulation
+        </span>
+        <div className="flex gap-1">
+          {LFO_TARGETS.map((target) => (
+            <button
+              key={target}
+              onClick={() => update({ target })}
+              className={chipClass(lfo.target === target)}
+            >
+              {TARGET_LABELS[target]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {lfo.target === "off" ? (
+        <p className="mt-3 text-xs text-muted/60">
+          Vibrato and FM, tremolo and AM, or ring modulation from a single LFO.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Shape</span>
+            {LFO_SHAPES.map((shape) => (
+              <button key={shape} onClick={() => update({ shape })} className={chipClass(lfo.shape === shape)}>
+                {SHAPE_LABELS[shape]}
+              </button>
+            ))}
+          </div>
+
+          {sliderRow(
+            "Rate",
+            formatRate(lfo.rate),
+            <input
+              aria-label="LFO rate"
+              type="range"
+              min={0}
+              max={100}
+              step={0.1}
+              value={rateToSlider(lfo.rate)}
+              onChange={(e) => update({ rate: sliderToRate(Number(e.target.value)) })}
+              className="accent-secondary h-2 w-full"
+            />
+          )}
+
+          {lfo.target === "frequency" && (
+            <>
+              {sliderRow(
+                "Depth",
+                lfo.unit === "cents" ? `±${Math.round(lfo.deviation)}c` : `±${formatRate(lfo.deviation)}`,
+                <input
+                  aria-label="Frequency deviation"
+                  type="range"
+                  min={0}
+                  max={maxDeviation}
+                  step={lfo.unit === "cents" ? 1 : 0.5}
+                  value={Math.min(lfo.deviation, maxDeviation)}
+                  onChange={(e) => update({ deviation: Number(e.target.value) })}
+                  className="h-2 w-full"
+                />
+              )}
+              <div className="flex items-center gap-1">
+                <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Unit</span>
+                {DEPTH_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    onClick={() =>
+                      update({ unit, deviation: Math.min(lfo.deviation, MAX_DEVIATION[unit]) })
+                    }
+                    className={chipClass(lfo.unit === unit)}
+                  >
+                    {unit === "hz" ? "Hz" : "Cents"}
+                  </button>
+                ))}
+              </div>
+              {!pitched && (
+                <p className="font-mono text-[10px] text-secondary/80">
+                  Broadband noise has no pitch to modulate.
+                </p>
+              )}
+            </>
+          )}
+
+          {lfo.target === "amplitude" &&
+            sliderRow(
+              "Depth",
+              `${Math.round(lfo.depth * 100)}%`,
+              <input
+                aria-label="Tremolo depth"
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={lfo.depth}
+                onChange={(e) => update({ depth: Number(e.target.value) })}
+                className="accent-tone thumb-inside h-2 w-full"
+              />
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
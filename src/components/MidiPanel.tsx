@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from "react";
+import Keyboard from "./Keyboard";
+import { MAX_VOLUME } from "../audio/toneGraph";
+import { ratioToDb } from "../lib/distortion";
+import { MIN_LEVEL_DB, dbToGain } from "../lib/level";
+import {
+  BEND_RANGES,
+  MIDI_TARGETS,
+  MidiMessage,
+  MidiSettings,
+  MidiTarget,
+  controllerFineTune,
+  controllerFraction,
+  controllerWaveform,
+  listenToMidi,
+  loadMidiSettings,
+  midiNoteFrequency,
+  storeMidiSettings,
+  velocityToGain
+} from "../lib/midi";
+import { Tuning, noteName } from "../lib/tuning";
+import { Waveform } from "../lib/waveforms";
+
+const KEYBOARD_OCTAVES = 2;
+const MIN_OCTAVE = 0;
+const MAX_OCTAVE = 8;
+const DEFAULT_VELOCITY = 100;
+
+interface MidiPanelProps {
+  tuning: Tuning;
+  /** A note started, or a new note took over while others are held. */
+  onNoteOn: (frequency: number, gain: number) => void;
+  /** The last held note was released. */
+  onNoteOff: () => void;
+  /** Bend, fine tune or falling back to an earlier held note. */
+  onFrequencyChange: (frequency: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onWaveformChange: (waveform: Waveform) => void;
+}
+
+export default function MidiPanel({
+  tuning,
+  onNoteOn,
+  onNoteOff,
+  onFrequencyChange,
+  onVolumeChange,
+  onWaveformChange
+}: MidiPanelProps) {
+  const [settings, setSettings] = useState<MidiSettings>(loadMidiSettings);
+  const [enabled, setEnabled] = useState(false);
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [learning, setLearning] = useState<MidiTarget | null>(null);
+  const [held, setHeld] = useState<number[]>([]);
+  const [fineCents, setFineCents] = useState(0);
+  const [octave, setOctave] = useState(4);
+  const [velocity, setVelocity] = useState(DEFAULT_VELOCITY);
+  // Held notes in the order they were pressed; the newest one sounds.
+  const heldRef = useRef<number[]>([]);
+  const bendRef = useRef(0);
+  const fineRef = useRef(0);
+
+  useEffect(() => storeMidiSettings(settings), [settings]);
+
+  const pitchOf = (note: number) =>
+    midiNoteFrequency(note, tuning, bendRef.current, settings.bendRange, fineRef.current);
+
+  const retune = () => {
+    const top = heldRef.current[heldRef.current.length - 1];
+    if (top !== undefined) onFrequencyChange(pitchOf(top));
+  };
+
+  const learn = (target: MidiTarget, controller: number) => {
+    // A controller drives one target, so learning moves it rather than sharing it.
+    const mapping = { ...settings.mapping };
+    MIDI_TARGETS.forEach(({ id }) => {
+      if (mapping[id] === controller) mapping[id] = null;
+    });
+    setSettings({ ...settings, mapping: { ...mapping, [target]: controller } });
+    setLearning(null);
+  };
+
+  const control = (target: MidiTarget, value: number) => {
+    if (target === "volume") {
+      const maxDb = ratioToDb(MAX_VOLUME);
+      onVolumeChange(dbToGain(MIN_LEVEL_DB + controllerFraction(value) * (maxDb - MIN_LEVEL_DB)));
+    } else if (target === "waveform") {
+      onWaveformChange(controllerWaveform(value));
+    } else {
+      fineRef.current = controllerFineTune(value);
+      setFineCents(fineRef.current);
+      retune();
+    }
+  };
+
+  const handleMessage = (message: MidiMessage) => {
+    if (message.type === "noteOn") {
+      heldRef.current = [...heldRef.current.filter((note) => note !== message.note), message.note];
+      setHeld(heldRef.current);
+      onNoteOn(pitchOf(message.note), velocityToGain(message.velocity));
+    } else if (message.type === "noteOff") {
+      if (!heldRef.current.includes(message.note)) return;
+      heldRef.current = heldRef.current.filter((note) => note !== message.note);
+      setHeld(heldRef.current);
+      if (heldRef.current.length === 0) onNoteOff();
+      else retune();
+    } else if (message.type === "pitchBend") {
+      bendRef.current = message.bend;
+      retune();
+    } else if (learning) {
+      learn(learning, message.controller);
+    } else {
+      MIDI_TARGETS.forEach(({ id }) => {
+        if (settings.mapping[id] === message.controller) control(id, message.value);
+      });
+    }
+  };
+  // Devices call back from outside React, so they go through the latest handler.
+  const handlerRef = useRef(handleMessage);
+  handlerRef.current = handleMessage;
+
+  // A device that goes away can't send the note offs, so its notes are released here.
+  const releaseHeld = () => {
+    if (heldRef.current.length === 0) return;
+    heldRef.current = [];
+    setHeld([]);
+    onNoteOff();
+  };
+  const releaseRef = useRef(releaseHeld);
+  releaseRef.current = releaseHeld;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+    setError(null);
+
+    let inputCount = 0;
+    listenToMidi(
+      (message) => handlerRef.current(message),
+      (names) => {
+        if (cancelled) return;
+        if (names.length < inputCount) releaseRef.current();
+        inputCount = names.length;
+        setInputs(names);
+      }
+    )
+      .then((stopListening) => {
+        if (cancelled) stopListening();
+        else stop = stopListening;
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "MIDI unavailable");
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      releaseRef.current();
+      setInputs([]);
+    };
+  }, [enabled]);
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  const top = held[held.length - 1];
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">MIDI</span>
+        <button onClick={() => setEnabled(!enabled)} className={chipClass(enabled)}>
+          {enabled ? "Connected" : "Connect device"}
+        </button>
+      </div>
+      <p className="mt-2 truncate font-mono text-[10px] text-muted/70">
+        {!enabled
+          ? "Play the keyboard below, or connect a device"
+          : inputs.length > 0
+            ? inputs.join(", ")
+            : "No devices found, the keyboard below stands in"}
+      </p>
+
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          aria-label="Octave down"
+          onClick={() => setOctave(Math.max(MIN_OCTAVE, octave - 1))}
+          className={chipClass(false)}
+        >
+          ‹
+        </button>
+        <Keyboard
+          firstMidi={(octave + 1) * 12}
+          octaves={KEYBOARD_OCTAVES}
+          tuning={tuning}
+          active={held}
+          onPress={(note) => handleMessage({ type: "noteOn", note, velocity })}
+          onRelease={(note) => handleMessage({ type: "noteOff", note })}
+        />
+        <button
+          aria-label="Octave up"
+          onClick={() => setOctave(Math.min(MAX_OCTAVE, octave + 1))}
+          className={chipClass(false)}
+        >
+          ›
+        </button>
+      </div>
+
+      <label className="mt-3 grid grid-cols-[4.5rem_minmax(0,1fr)_3rem] items-center gap-2">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Velocity</span>
+        <input
+          aria-label="Keyboard velocity"
+          type="range"
+          min={1}
+          max={127}
+          step={1}
+          value={velocity}
+          onChange={(e) => setVelocity(Number(e.target.value))}
+          className="h-2 w-full"
+        />
+        <span className="text-right font-mono text-[11px] text-white/80">{velocity}</span>
+      </label>
+
+      <div className="mt-3 flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Bend ±</span>
+        {BEND_RANGES.map((bendRange) => (
+          <button
+            key={bendRange}
+            onClick={() => setSettings({ ...settings, bendRange })}
+            className={chipClass(settings.bendRange === bendRange)}
+          >
+            {bendRange} st
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">CC</span>
+        {MIDI_TARGETS.map(({ id, label }) => (
+          <button
+            key={id}
+            title="Click, then move a control on the device"
+            onClick={() => setLearning(learning === id ? null : id)}
+            className={chipClass(learning === id)}
+          >
+            {label} ·{" "}
+            {learning === id
+              ? "learning…"
+              : settings.mapping[id] === null
+                ? "none"
+                : settings.mapping[id]}
+          </button>
+        ))}
+      </div>
+
+      <p className="mt-2 font-mono text-[10px] text-muted/70">
+        {top === undefined ? "No note held" : `${noteName(top)} held`}
+        {fineCents !== 0 && ` · fine ${fineCents > 0 ? "+" : ""}${fineCents.toFixed(1)} c`}
+      </p>
+      {error && <p className="mt-2 font-mono text-[10px] text-secondary/80">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { ReactNode } from "react";
+import { MAX_VOICES, Voice } from "../audio/toneGraph";
+import {
+  clampFrequency,
+  formatFreq,
+  frequencyToSlider,
+  sliderToFrequency
+} from "../lib/frequency";
+import { WAVEFORMS, WAVEFORM_ICONS } from "../lib/waveforms";
+
+interface MixerPanelProps {
+  voices: Voice[];
+  baseFrequency: number;
+  onChange: (voices: Voice[]) => void;
+}
+
+function formatPan(pan: number) {
+  if (Math.abs(pan) < 0.005) return "C";
+  return `${pan < 0 ? "L" : "R"}${Math.round(Math.abs(pan) * 100)}`;
+}
+
+export default function MixerPanel({ voices, baseFrequency, onChange }: MixerPanelProps) {
+  const updateVoice = (id: number, patch: Partial<Voice>) =>
+    onChange(voices.map((voice) => (voice.id === id ? { ...voice, ...patch } : voice)));
+
+  const addVoice = () => {
+    const id = voices.reduce((max, voice) => Math.max(max, voice.id), 0) + 1;
+    onChange([
+      ...voices,
+      {
+        id,
+        frequency: clampFrequency(baseFrequency * 1.5),
+        waveform: "sine",
+        level: 1,
+        detune: 0,
+        pan: 0
+      }
+    ]);
+  };
+
+  const removeVoice = (id: number) => onChange(voices.filter((voice) => voice.id !== id));
+
+  const sliderRow = (
+    label: string,
+    display: string,
+    input: ReactNode
+  ) => (
+    <label className="grid grid-cols-[3.5rem_minmax(0,1fr)_4rem] items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      {input}
+      <span className="text-right font-mono text-[11px] text-white/80">{display}</span>
+    </label>
+  );
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Mixer
+        </span>
+        <button
+          onClick={addVoice}
+          disabled={voices.length >= MAX_VOICES}
+          className="rounded-lg border border-tone/40 bg-tone/10 px-3 py-1 font-mono text-[11px] text-tone transition-all hover:bg-tone/20 disabled:opacity-40"
+        >
+          + Voice
+        </button>
+      </div>
+
+      {voices.length === 0 ? (
+        <p className="mt-3 text-xs text-muted/60">
+          Add voices to layer extra oscillators over the main tone.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {voices.map((voice, index) => (
+            <div
+              key={voice.id}
+              className="space-y-2 rounded-lg border border-white/[0.04] bg-white/[0.02] p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-xs text-tone">Voice {index + 2}</span>
+                <div className="flex gap-1">
+                  {WAVEFORMS.map((w) => (
+                    <button
+                      key={w}
+                      title={w}
+                      onClick={() => updateVoice(voice.id, { waveform: w })}
+                      className={`rounded-md border px-2 py-0.5 font-mono text-[11px] transition-all ${
+                        voice.waveform === w
+                          ? "border-accent/50 bg-accent/10 text-accent"
+                          : "border-white/[0.06] text-muted hover:text-white/80"
+                      }`}
+                    >
+                      {WAVEFORM_ICONS[w]}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => removeVoice(voice.id)}
+                    className="rounded-md border border-red-500/30 px-2 py-0.5 font-mono text-[11px] text-red-400 hover:bg-red-500/10"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+
+              {sliderRow(
+                "Freq",
+                formatFreq(voice.frequency),
+                <input
+                  aria-label={`Voice ${index + 2} frequency`}
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  value={frequencyToSlider(voice.frequency)}
+                  onChange={(e) =>
+                    updateVoice(voice.id, { frequency: sliderToFrequency(Number(e.target.value)) })
+                  }
+                  className="accent-secondary h-2 w-full"
+                />
+              )}
+              {sliderRow(
+                "Level",
+                `${Math.round(voice.level * 100)}%`,
+                <input
+                  aria-label={`Voice ${index + 2} level`}
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={voice.level}
+                  onChange={(e) => updateVoice(voice.id, { level: Number(e.target.value) })}
+                  className="accent-tone thumb-inside h-2 w-full"
+                />
+              )}
+              {sliderRow(
+                "Detune",
+                `${voice.detune > 0 ? "+" : ""}${voice.detune}c`,
+                <input
+                  aria-label={`Voice ${index + 2} detune`}
+                  type="range"
+                  min={-100}
+                  max={100}
+                  step={1}
+                  value={voice.detune}
+                  onChange={(e) => updateVoice(voice.id, { detune: Number(e.target.value) })}
+                  className="h-2 w-full"
+                />
+              )}
+              {sliderRow(
+                "Pan",
+                formatPan(voice.pan),
+                <input
+                  aria-label={`Voice ${index + 2} pan`}
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={voice.pan}
+                  onChange={(e) => updateVoice(voice.id, { pan: Number(e.target.value) })}
+                  className="h-2 w-full"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { canChooseOutput, listOutputDevices } from "../audio/output";
+import { formatFreq } from "../lib/frequency";
+import {
+  LATENCY_HINTS,
+  OUTPUT_SAMPLE_RATES,
+  OutputSettings,
+  aboveNyquist,
+  createGlitchDetector,
+  formatLatency,
+  trackClock
+} from "../lib/output";
+
+interface OutputPanelProps {
+  output: OutputSettings;
+  onChange: (output: OutputSettings) => void;
+  getContext: () => BaseAudioContext | null;
+  isPlaying: boolean;
+  /** Everything the tone is set to play, checked against Nyquist. */
+  frequencies: number[];
+  /** Why the last start or device switch failed. */
+  error: string | null;
+  /** Something that worked out differently than chosen, such as a missing device. */
+  warning: string | null;
+}
+
+function latencyOf(context: BaseAudioContext, field: "baseLatency" | "outputLatency") {
+  return field in context ? (context as AudioContext)[field] : undefined;
+}
+
+export default function OutputPanel({
+  output,
+  onChange,
+  getContext,
+  isPlaying,
+  frequencies,
+  error,
+  warning
+}: OutputPanelProps) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  // Settings and rate of the running context, kept after it stops.
+  const [started, setStarted] = useState<{ output: OutputSettings; sampleRate: number } | null>(null);
+  const stateRef = useRef<HTMLSpanElement>(null);
+  const baseRef = useRef<HTMLSpanElement>(null);
+  const outputLatencyRef = useRef<HTMLSpanElement>(null);
+  const glitchRef = useRef<HTMLSpanElement>(null);
+  const outputRef = useRef(output);
+  outputRef.current = output;
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    let cancelled = false;
+    const refresh = () => {
+      listOutputDevices()
+        .then((list) => {
+          if (!cancelled) setDevices(list);
+        })
+        .catch(() => undefined);
+    };
+    refresh();
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, []);
+
+  useEffect(() => {
+    const context = isPlaying ? getContext() : null;
+    if (!context) return;
+    setStarted({ output: outputRef.current, sampleRate: context.sampleRate });
+    const detector = createGlitchDetector();
+    let frame: number | null = null;
+
+    const render = (now: number) => {
+      const base = latencyOf(context, "baseLatency");
+      trackClock(detector, context.currentTime, now / 1000, base ?? 128 / context.sampleRate);
+      if (stateRef.current) stateRef.current.textContent = context.state;
+      if (baseRef.current) baseRef.current.textContent = formatLatency(base);
+      if (outputLatencyRef.current) {
+        outputLatencyRef.current.textContent = formatLatency(latencyOf(context, "outputLatency"));
+      }
+      if (glitchRef.current) {
+        glitchRef.current.textContent =
+          detector.glitches === 0
+            ? "None"
+            : `${detector.glitches} · ${(detector.lost * 1000).toFixed(0)} ms lost`;
+        glitchRef.current.className = detector.glitches > 0 ? "text-red-400" : "text-white/80";
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (stateRef.current) stateRef.current.textContent = "closed";
+    };
+  }, [getContext, isPlaying]);
+
+  const update = (patch: Partial<OutputSettings>) => onChange({ ...output, ...patch });
+  const sampleRate = started?.sampleRate ?? output.sampleRate;
+  const aliased = sampleRate ? [...new Set(aboveNyquist(frequencies, sampleRate))] : [];
+  const restartNeeded =
+    isPlaying &&
+    started !== null &&
+    (started.output.sampleRate !== output.sampleRate ||
+      started.output.latencyHint !== output.latencyHint);
+
+  const fieldClass =
+    "mt-1 w-full rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white focus:border-accent/50 focus:outline-none disabled:opacity-40";
+
+  const reading = (label: string, ref: RefObject<HTMLSpanElement>) => (
+    <div>
+      <p className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</p>
+      <span ref={ref} className="text-white/80">
+        —
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">Output</p>
+        <p className="font-mono text-[10px] text-accent/40">
+          {started ? `${started.sampleRate / 1000} kHz` : "Not started"}
+        </p>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Device</span>
+          <select
+            value={output.deviceId}
+            disabled={!canChooseOutput()}
+            title={canChooseOutput() ? undefined : "This browser always plays to the default output"}
+            onChange={(e) => update({ deviceId: e.target.value })}
+            className={`${fieldClass} appearance-none`}
+          >
+            <option value="" className="bg-[#0a0f1e]">
+              System default
+            </option>
+            {devices
+              .filter((device) => device.deviceId && device.deviceId !== "default")
+              .map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId} className="bg-[#0a0f1e]">
+                  {device.label || `Output ${index + 1}`}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Rate</span>
+          <select
+            value={output.sampleRate ?? ""}
+            onChange={(e) => update({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+            className={`${fieldClass} appearance-none`}
+          >
+            <option value="" className="bg-[#0a0f1e]">
+              Browser default
+            </option>
+            {OUTPUT_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate} className="bg-[#0a0f1e]">
+                {rate / 1000} kHz
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Latency</span>
+          <select
+            value={output.latencyHint}
+            onChange={(e) =>
+              update({ latencyHint: e.target.value as OutputSettings["latencyHint"] })
+            }
+            className={`${fieldClass} appearance-none`}
+          >
+            {LATENCY_HINTS.map(({ id, label }) => (
+              <option key={id} value={id} className="bg-[#0a0f1e]">
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2 font-mono text-[11px] sm:grid-cols-4">
+        {reading("State", stateRef)}
+        {reading("Base latency", baseRef)}
+        {reading("Output latency", outputLatencyRef)}
+        {reading("Glitches", glitchRef)}
+      </div>
+
+      {restartNeeded && (
+        <p className="mt-2 font-mono text-[10px] text-muted">
+          Restart the tone to apply the new rate and latency
+        </p>
+      )}
+      {aliased.length > 0 && sampleRate && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">
+          {aliased.map(formatFreq).join(", ")} {aliased.length === 1 ? "is" : "are"} above Nyquist
+          ({formatFreq(sampleRate / 2)}) at {sampleRate / 1000} kHz and will alias
+        </p>
+      )}
+      {warning && <p className="mt-2 font-mono text-[10px] text-secondary/80">{warning}</p>}
+      {error && <p className="mt-2 font-mono text-[10px] text-red-400/80">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { ChangeEvent, FormEvent, useState } from "react";
+import { downloadBytes } from "../lib/download";
+import {
+  GeneratorSettings,
+  Preset,
+  loadPresets,
+  parsePresetFile,
+  serializePresets,
+  settingsToHash,
+  storePresets
+} from "../lib/presets";
+
+interface PresetsPanelProps {
+  settings: GeneratorSettings;
+  onLoad: (settings: GeneratorSettings) => void;
+  /** Why the link the page was opened with couldn't be applied, if it failed. */
+  linkError: string | null;
+}
+
+/** Adds `incoming`, replacing presets that share a name. */
+function mergePresets(existing: Preset[], incoming: Preset[]) {
+  const names = new Set(incoming.map((preset) => preset.name));
+  return [...existing.filter((preset) => !names.has(preset.name)), ...incoming];
+}
+
+export default function PresetsPanel({ settings, onLoad, linkError }: PresetsPanelProps) {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [name, setName] = useState("");
+  const [status, setStatus] = useState<string | null>(linkError && `Link ignored: ${linkError}`);
+
+  const update = (next: Preset[]) => {
+    setPresets(next);
+    storePresets(next);
+  };
+
+  const save = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    update(mergePresets(presets, [{ name: trimmed, savedAt: Date.now(), settings }]));
+    setName("");
+    setStatus(`Saved "${trimmed}"`);
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const incoming = parsePresetFile(await file.text());
+      update(mergePresets(presets, incoming));
+      setStatus(`Imported ${incoming.length} preset${incoming.length === 1 ? "" : "s"}`);
+    } catch (err) {
+      setStatus(`${file.name}: ${err instanceof Error ? err.message : "unreadable"}`);
+    }
+  };
+
+  const copyLink = async () => {
+    const { origin, pathname, search } = window.location;
+    const link = `${origin}${pathname}${search}${settingsToHash(settings)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setStatus("Link copied");
+    } catch {
+      setStatus("Clipboard unavailable, copy the address bar instead");
+    }
+  };
+
+  const buttonClass =
+    "rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80";
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Presets
+        </span>
+        <button onClick={copyLink} className={buttonClass}>
+          Copy link
+        </button>
+      </div>
+
+      <form onSubmit={save} className="mt-3 flex items-center gap-2">
+        <input
+          aria-label="Preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          className="min-w-0 flex-1 rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white placeholder:text-muted/40 focus:border-accent/50 focus:outline-none"
+        />
+        <button type="submit" disabled={!name.trim()} className={`${buttonClass} disabled:opacity-40`}>
+          Save
+        </button>
+      </form>
+
+      {presets.length > 0 && (
+        <ul className="mt-3 space-y-1 font-mono text-[11px]">
+          {presets.map((preset) => (
+            <li key={preset.name} className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  onLoad(preset.settings);
+                  setStatus(`Loaded "${preset.name}"`);
+                }}
+                className="flex-1 truncate text-left text-white/80 hover:text-accent"
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => update(presets.filter((item) => item.name !== preset.name))}
+                className="text-muted hover:text-red-400"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={() =>
+            downloadBytes(serializePresets(presets), "application/json", "audio-generator-presets.json")
+          }
+          disabled={presets.length === 0}
+          className={`${buttonClass} disabled:opacity-40`}
+        >
+          Export JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+        </label>
+      </div>
+      {status && <p className="mt-2 font-mono text-[10px] text-muted/70">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useEffect, useRef, useState } from "react";
+import { startStereoStream } from "../audio/capture";
+import { OpenContext } from "../audio/output";
+import { Playback, canEncodeWebm, encodeWebm, playChannels } from "../audio/recorder";
+import { encodeAudio } from "../lib/audioEncoder";
+import { downloadBytes } from "../lib/download";
+import { formatDb } from "../lib/level";
+import {
+  MAX_TAKE_SECONDS,
+  Take,
+  createTake,
+  formatElapsed,
+  joinChunks,
+  peakDb,
+  peakOf,
+  takeFilename,
+  takeLength,
+  trimmedChannels
+} from "../lib/recording";
+
+/** Shortest trimmed take, so the two handles can't cross. */
+const MIN_TRIM_SECONDS = 0.05;
+
+interface RecorderPanelProps {
+  getOutput: () => { context: BaseAudioContext; node: AudioNode } | null;
+  /** Recording taps the live output, so it ends when the tone stops. */
+  isPlaying: boolean;
+  /** Opens the playback context on the chosen output. */
+  openContext: OpenContext;
+}
+
+export default function RecorderPanel({ getOutput, isPlaying, openContext }: RecorderPanelProps) {
+  const [recording, setRecording] = useState(false);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [playingId, setPlayingId] = useState<number | null>(null);
+  const [loop, setLoop] = useState(false);
+  const [encoding, setEncoding] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const elapsedRef = useRef<HTMLSpanElement>(null);
+  const peakRef = useRef<HTMLSpanElement>(null);
+  const nextIdRef = useRef(1);
+  const playbackRef = useRef<AudioContext | null>(null);
+  const playbackHandleRef = useRef<Playback | null>(null);
+
+  useEffect(() => {
+    if (!isPlaying) setRecording(false);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const output = getOutput();
+    if (!output) {
+      setRecording(false);
+      return;
+    }
+    const { context, node } = output;
+    const limit = MAX_TAKE_SECONDS * context.sampleRate;
+    const chunks: Float32Array[][] = [];
+    let samples = 0;
+    let peak = 0;
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+    let frame: number | null = null;
+    setStatus(null);
+
+    startStereoStream(context, node, (channels) => {
+      if (samples >= limit) return;
+      chunks.push(channels);
+      samples += channels[0].length;
+      peak = Math.max(peak, peakOf(channels));
+      if (samples >= limit) setRecording(false);
+    })
+      .then((stopStream) => {
+        if (cancelled) stopStream();
+        else stop = stopStream;
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setStatus(err instanceof Error ? err.message : "Recording failed");
+        setRecording(false);
+      });
+
+    const render = () => {
+      if (elapsedRef.current) elapsedRef.current.textContent = formatElapsed(samples / context.sampleRate);
+      if (peakRef.current) {
+        peakRef.current.textContent = formatDb(peakDb(peak), "pk");
+        peakRef.current.className = peak >= 1 ? "text-red-400" : "text-white/80";
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (samples === 0) return;
+      const take = createTake(nextIdRef.current, joinChunks(chunks), context.sampleRate);
+      nextIdRef.current += 1;
+      setTakes((list) => [...list, take]);
+      setSelectedId(take.id);
+    };
+  }, [getOutput, recording]);
+
+  const stopPlayback = () => {
+    playbackHandleRef.current?.stop();
+    playbackHandleRef.current = null;
+    setPlayingId(null);
+  };
+
+  // New output settings arrive as a new factory, so playback reopens on them.
+  useEffect(
+    () => () => {
+      playbackHandleRef.current?.stop();
+      playbackHandleRef.current = null;
+      setPlayingId(null);
+      void playbackRef.current?.close();
+      playbackRef.current = null;
+    },
+    [openContext]
+  );
+
+  const play = async (take: Take, repeat = loop) => {
+    stopPlayback();
+    try {
+      const context = playbackRef.current ?? (await openContext());
+      playbackRef.current = context;
+      void context.resume();
+      const region = { start: take.start, end: take.end, loop: repeat };
+      playbackHandleRef.current = playChannels(
+        context,
+        take.channels,
+        take.sampleRate,
+        region,
+        () => {
+          playbackHandleRef.current = null;
+          setPlayingId(null);
+        }
+      );
+      setPlayingId(take.id);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Playback failed");
+    }
+  };
+
+  const playingTake = takes.find((take) => take.id === playingId) ?? null;
+
+  // A loop follows the trim handles while it plays.
+  useEffect(() => {
+    if (playingTake) playbackHandleRef.current?.setRegion(playingTake.start, playingTake.end);
+  }, [playingTake]);
+
+  const toggleLoop = () => {
+    const next = !loop;
+    setLoop(next);
+    // A single pass can't become a loop in place, so the playing take restarts.
+    if (playingTake) void play(playingTake, next);
+  };
+
+  const updateTake = (id: number, patch: Partial<Take>) =>
+    setTakes((list) => list.map((take) => (take.id === id ? { ...take, ...patch } : take)));
+
+  const removeTake = (id: number) => {
+    if (playingId === id) stopPlayback();
+    setTakes((list) => list.filter((take) => take.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const downloadWav = (take: Take) => {
+    // Float samples keep the capture bit-exact.
+    const bytes = encodeAudio(trimmedChannels(take), take.sampleRate, "wav32f");
+    downloadBytes(bytes, "audio/wav", takeFilename(take, "wav"));
+  };
+
+  const downloadWebm = async (take: Take) => {
+    setEncoding(true);
+    setStatus(`Encoding ${formatElapsed(take.end - take.start)} of audio in real time…`);
+    try {
+      const blob = await encodeWebm(trimmedChannels(take), take.sampleRate, openContext);
+      downloadBytes(blob, "audio/webm", takeFilename(take, "webm"));
+      setStatus(null);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Encoding failed");
+    } finally {
+      setEncoding(false);
+    }
+  };
+
+  const buttonClass =
+    "rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80 disabled:opacity-40";
+
+  const selected = takes.find((take) => take.id === selectedId) ?? null;
+  const trimRow = (label: string, field: "start" | "end", take: Take) => (
+    <label className="grid grid-cols-[2.5rem_minmax(0,1fr)_4rem] items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      <input
+        aria-label={`Trim ${field}`}
+        type="range"
+        min={0}
+        max={takeLength(take)}
+        step={0.01}
+        value={take[field]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          updateTake(
+            take.id,
+            field === "start"
+              ? { start: Math.min(value, take.end - MIN_TRIM_SECONDS) }
+              : { end: Math.max(value, take.start + MIN_TRIM_SECONDS) }
+          );
+        }}
+        className="h-2 w-full"
+      />
+      <span className="text-right font-mono text-[11px] text-white/80">{formatElapsed(take[field])}</span>
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">Recorder</p>
+        <p className="font-mono text-[10px] text-accent/40">
+          {takes.length} take{takes.length === 1 ? "" : "s"}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setRecording(!recording)}
+          disabled={!isPlaying && !recording}
+          className={`${buttonClass} ${recording ? "border-red-400/50 text-red-400" : ""}`}
+        >
+          {recording ? "■ Stop" : "● Record"}
+        </button>
+        {recording ? (
+          <span className="font-mono text-[11px] text-muted">
+            <span ref={elapsedRef} className="text-white/80">
+              0:00.0
+            </span>{" "}
+            · <span ref={peakRef}>{formatDb(-Infinity, "pk")}</span>
+          </span>
+        ) : (
+          <span className="font-mono text-[10px] text-muted/70">
+            {isPlaying
+              ? `Captures the output exactly, up to ${MAX_TAKE_SECONDS / 60} min`
+              : "Start the tone to record"}
+          </span>
+        )}
+        {takes.length > 0 && (
+          <button
+            aria-pressed={loop}
+            onClick={toggleLoop}
+            title="Repeat between the trim points"
+            className={`${buttonClass} ml-auto ${loop ? "border-accent/50 text-accent" : ""}`}
+          >
+            Loop
+          </button>
+        )}
+      </div>
+
+      {takes.length > 0 && (
+        <ul className="mt-3 space-y-1 font-mono text-[11px]">
+          {takes.map((take) => (
+            <li
+              key={take.id}
+              className={`flex items-center gap-2 rounded-lg border px-2 py-1 ${
+                take.id === selectedId ? "border-accent/30 bg-accent/5" : "border-white/[0.06]"
+              }`}
+            >
+              <button
+                aria-label={playingId === take.id ? `Stop take ${take.id}` : `Play take ${take.id}`}
+                onClick={() => (playingId === take.id ? stopPlayback() : void play(take))}
+                className="w-5 text-accent hover:text-white/80"
+              >
+                {playingId === take.id ? "■" : "▶"}
+              </button>
+              <button
+                onClick={() => setSelectedId(take.id)}
+                className="flex-1 truncate text-left text-muted hover:text-white/80"
+              >
+                Take {take.id} · {formatElapsed(take.end - take.start)} · {formatDb(take.peak, "pk")}
+              </button>
+              <button onClick={() => downloadWav(take)} className="text-muted hover:text-white/80">
+                WAV
+              </button>
+              <button
+                onClick={() => void downloadWebm(take)}
+                disabled={encoding || !canEncodeWebm()}
+                title={canEncodeWebm() ? undefined : "This browser can't record WebM/Opus"}
+                className="text-muted hover:text-white/80 disabled:opacity-30"
+              >
+                WebM
+              </button>
+              <button
+                aria-label={`Delete take ${take.id}`}
+                onClick={() => removeTake(take.id)}
+                className="px-1 text-muted hover:text-red-400"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="mt-3 space-y-2">
+          {trimRow("In", "start", selected)}
+          {trimRow("Out", "end", selected)}
+        </div>
+      )}
+      {status && <p className="mt-2 font-mono text-[10px] text-muted">{status}</p>}
+    </div>
+  );
+}
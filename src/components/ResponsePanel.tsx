@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from "react";
+import { measureResponse } from "../audio/measure";
+import { OpenContext } from "../audio/output";
+import { drawOnCanvas } from "../lib/canvas";
+import { MAX_FREQ, MIN_FREQ } from "../lib/frequency";
+import { ResponseTrace, Stimulus, loadTraces, storeTraces } from "../lib/measurement";
+
+const DURATIONS = [2, 5, 10];
+const DB_TOP = 12;
+const DB_BOTTOM = -36;
+const DB_STEP = 12;
+const TRACE_COLORS = ["#e040fb", "#76ff03", "#ffb300", "#ff5252", "#8c9eff", "#64ffda"];
+
+const STIMULUS_LABELS: Record<Stimulus, string> = {
+  sweep: "Log sweep",
+  pink: "Pink noise"
+};
+
+interface ResponsePanelProps {
+  /** The measurement owns the output, so it waits for the tone to stop. */
+  isPlaying: boolean;
+  /** Stimulus peak level, following the output level control. */
+  level: number;
+  /** Limiter ceiling, linear; the stimulus never peaks above it. */
+  ceiling: number;
+  openContext: OpenContext;
+}
+
+function traceName(stimulus: Stimulus, date: Date) {
+  const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${STIMULUS_LABELS[stimulus]} ${time}`;
+}
+
+export default function ResponsePanel({
+  isPlaying,
+  level,
+  ceiling,
+  openContext
+}: ResponsePanelProps) {
+  const [stimulus, setStimulus] = useState<Stimulus>("sweep");
+  const [duration, setDuration] = useState(5);
+  const [measuring, setMeasuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState<ResponseTrace | null>(null);
+  const [traces, setTraces] = useState<ResponseTrace[]>(loadTraces);
+  const [hidden, setHidden] = useState<string[]>([]);
+  const [showPhase, setShowPhase] = useState(false);
+  const [size, setSize] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const onResize = () => setSize(window.innerWidth);
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    drawOnCanvas(canvas, (ctx, width, height) => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = "#080a14";
+      ctx.fillRect(0, 0, width, height);
+
+      const plotHeight = height - 20;
+      const freqToX = (freq: number) =>
+        (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
+      const dbToY = (db: number) => ((DB_TOP - db) / (DB_TOP - DB_BOTTOM)) * plotHeight;
+      const phaseToY = (degrees: number) => ((180 - degrees) / 360) * plotHeight;
+
+      // Frequency grid
+      const ticks = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+      ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
+      ctx.lineWidth = 1;
+      ticks.forEach((tick) => {
+        const x = freqToX(tick);
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, plotHeight);
+        ctx.stroke();
+      });
+
+      // Level grid
+      ctx.fillStyle = "rgba(136, 146, 176, 0.5)";
+      ctx.font = "10px 'JetBrains Mono', monospace";
+      for (let db = DB_TOP; db >= DB_BOTTOM; db -= DB_STEP) {
+        const y = dbToY(db);
+        ctx.strokeStyle = db === 0 ? "rgba(0, 229, 255, 0.15)" : "rgba(0, 229, 255, 0.06)";
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+        ctx.fillText(`${db > 0 ? "+" : ""}${db}`, 4, Math.min(plotHeight - 3, Math.max(10, y - 3)));
+      }
+
+      // Tick labels
+      [100, 1000, 10000].forEach((tick) => {
+        const x = freqToX(tick);
+        const label = tick >= 1000 ? `${tick / 1000}k` : `${tick}`;
+        ctx.fillText(label, x - 6, height - 6);
+      });
+      if (showPhase) {
+        ctx.fillText("±180°", width - 40, 10);
+      }
+
+      const visible = traces
+        .map((trace, index) => ({ trace, color: TRACE_COLORS[index % TRACE_COLORS.length] }))
+        .filter(({ trace }) => !hidden.includes(trace.id));
+      if (current) visible.push({ trace: current, color: "#00e5ff" });
+
+      if (visible.length === 0) {
+        ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
+        ctx.font = "500 13px 'Inter', sans-serif";
+        ctx.fillText(
+          measuring ? "Measuring…" : "Measure to plot the response",
+          40,
+          plotHeight / 2
+        );
+        return;
+      }
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, width, plotHeight);
+      ctx.clip();
+      visible.forEach(({ trace, color }) => {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = trace === current ? 2 : 1.5;
+        ctx.beginPath();
+        trace.frequencies.forEach((freq, i) => {
+          const x = freqToX(freq);
+          const y = dbToY(trace.magnitudes[i]);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+
+        if (showPhase) {
+          ctx.globalAlpha = 0.5;
+          ctx.lineWidth = 1;
+          ctx.setLineDash([3, 3]);
+          ctx.beginPath();
+          trace.frequencies.forEach((freq, i) => {
+            const x = freqToX(freq);
+            const y = phaseToY(trace.phases[i]);
+            // Break the line where the wrapped phase jumps across ±180°.
+            const jump = i > 0 && Math.abs(trace.phases[i] - trace.phases[i - 1]) > 180;
+            if (i === 0 || jump) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          });
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.globalAlpha = 1;
+        }
+      });
+      ctx.restore();
+    });
+  }, [current, hidden, measuring, showPhase, size, traces]);
+
+  const updateTraces = (next: ResponseTrace[]) => {
+    setTraces(next);
+    storeTraces(next);
+  };
+
+  const measure = async () => {
+    setMeasuring(true);
+    setError(null);
+    try {
+      const response = await measureResponse(openContext, stimulus, duration, level, ceiling);
+      const now = new Date();
+      setCurrent({
+        id: `${now.getTime()}`,
+        name: traceName(stimulus, now),
+        createdAt: now.getTime(),
+        stimulus,
+        ...response
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Measurement failed");
+    } finally {
+      setMeasuring(false);
+    }
+  };
+
+  const saveCurrent = () => {
+    if (!current) return;
+    updateTraces([...traces, current]);
+    setCurrent(null);
+  };
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Frequency Response
+        </p>
+        <p className="font-mono text-[10px] text-accent/40">10 Hz — 25 kHz · dB</p>
+      </div>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label="Measured frequency response"
+        className="h-48 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 font-mono text-[11px] text-muted">
+        {(Object.keys(STIMULUS_LABELS) as Stimulus[]).map((value) => (
+          <button key={value} onClick={() => setStimulus(value)} className={chipClass(stimulus === value)}>
+            {STIMULUS_LABELS[value]}
+          </button>
+        ))}
+        <span className="ml-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Length</span>
+        {DURATIONS.map((value) => (
+          <button key={value} onClick={() => setDuration(value)} className={chipClass(duration === value)}>
+            {value} s
+          </button>
+        ))}
+        <button onClick={() => setShowPhase((value) => !value)} className={chipClass(showPhase)}>
+          Phase
+        </button>
+        <button
+          onClick={measure}
+          disabled={isPlaying || measuring}
+          className="ml-auto rounded-lg border border-accent/40 bg-accent/10 px-3 py-1 font-mono text-[11px] text-accent transition-all hover:bg-accent/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {measuring ? "Measuring…" : "Measure"}
+        </button>
+      </div>
+
+      {(isPlaying || error) && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">
+          {error ?? "Stop the tone to run a measurement"}
+        </p>
+      )}
+
+      {(current || traces.length > 0) && (
+        <ul className="mt-3 space-y-1 font-mono text-[11px]">
+          {current && (
+            <li className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full bg-accent" />
+              <input
+                aria-label="Trace name"
+                value={current.name}
+                onChange={(e) => setCurrent({ ...current, name: e.target.value })}
+                className="min-w-0 flex-1 rounded border border-white/[0.06] bg-white/[0.02] px-1.5 py-0.5 text-white/80 focus:border-accent/50 focus:outline-none"
+              />
+              <button onClick={saveCurrent} className="text-accent hover:text-white">
+                Save
+              </button>
+              <button onClick={() => setCurrent(null)} className="text-muted hover:text-white">
+                Discard
+              </button>
+            </li>
+          )}
+          {traces.map((trace, index) => {
+            const isHidden = hidden.includes(trace.id);
+            return (
+              <li key={trace.id} className="flex items-center gap-2">
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: TRACE_COLORS[index % TRACE_COLORS.length] }}
+                />
+                <span className={`flex-1 truncate ${isHidden ? "text-muted/50" : "text-white/80"}`}>
+                  {trace.name}
+                </span>
+                <button
+                  onClick={() =>
+                    setHidden(isHidden ? hidden.filter((id) => id !== trace.id) : [...hidden, trace.id])
+                  }
+                  className="text-muted hover:text-white"
+                >
+                  {isHidden ? "Show" : "Hide"}
+                </button>
+                <button
+                  onClick={() => updateTraces(traces.filter((item) => item.id !== trace.id))}
+                  className="text-muted hover:text-red-400"
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
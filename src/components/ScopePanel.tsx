@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from "react";
+import { ScopeTap } from "../audio/scope";
+import { createPlotLabeller, drawOnCanvas } from "../lib/canvas";
+import { formatDb, measureLevel } from "../lib/level";
+import { TriggerEdge, findTrigger, timebaseSamples } from "../lib/scope";
+
+type ScopeMode = "yt" | "xy";
+
+const TIMEBASES_MS = [0.05, 0.1, 0.2, 0.5, 1, 2, 5];
+const SCALES = [1, 2, 5, 10, 20];
+const DIVISIONS_X = 10;
+const DIVISIONS_Y = 8;
+
+interface ScopePanelProps {
+  /** Read every frame so the panel follows the graph as it is rebuilt. */
+  getTap: () => ScopeTap | null;
+  isPlaying: boolean;
+}
+
+function createBuffers(tap: ScopeTap) {
+  return {
+    mono: new Float32Array(tap.mono.fftSize),
+    left: new Float32Array(tap.left.fftSize),
+    right: new Float32Array(tap.right.fftSize)
+  };
+}
+
+type ScopeBuffers = ReturnType<typeof createBuffers>;
+
+function formatTimebase(ms: number) {
+  return ms < 1 ? `${Math.round(ms * 1000)} µs` : `${ms} ms`;
+}
+
+function describeScope(buffers: ScopeBuffers | null, mode: ScopeMode, msPerDiv: number) {
+  const name = mode === "xy" ? "Lissajous plot of left against right" : "Oscilloscope trace";
+  if (!buffers) return `${name}, no signal`;
+  if (mode === "xy") {
+    const left = formatDb(measureLevel(buffers.left).peak);
+    const right = formatDb(measureLevel(buffers.right).peak);
+    return `${name}, left peak ${left}, right peak ${right}`;
+  }
+  const peak = formatDb(measureLevel(buffers.mono).peak);
+  return `${name} at ${formatTimebase(msPerDiv)} per division, peak ${peak}`;
+}
+
+export default function ScopePanel({ getTap, isPlaying }: ScopePanelProps) {
+  const [mode, setMode] = useState<ScopeMode>("yt");
+  const [msPerDiv, setMsPerDiv] = useState(1);
+  const [scale, setScale] = useState(5);
+  const [edge, setEdge] = useState<TriggerEdge>("rising");
+  const [threshold, setThreshold] = useState(0);
+  const [frozen, setFrozen] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const buffersRef = useRef<ScopeBuffers | null>(null);
+  const sampleRateRef = useRef(48000);
+
+  useEffect(() => {
+    // The labeller owns the canvas's name; this names it until the first frame.
+    const label = createPlotLabeller();
+    const describe = () => {
+      const shown = isPlaying || frozen ? buffersRef.current : null;
+      return `${describeScope(shown, mode, msPerDiv)}${frozen ? ", frozen" : ""}`;
+    };
+    canvasRef.current?.setAttribute("aria-label", describe());
+    const render = (now: number) => {
+      const tap = getTap();
+      if (tap && !frozen) {
+        const buffers = buffersRef.current;
+        const next =
+          buffers && buffers.mono.length === tap.mono.fftSize ? buffers : createBuffers(tap);
+        tap.mono.getFloatTimeDomainData(next.mono);
+        tap.left.getFloatTimeDomainData(next.left);
+        tap.right.getFloatTimeDomainData(next.right);
+        buffersRef.current = next;
+        sampleRateRef.current = tap.mono.context.sampleRate;
+      }
+
+      const canvas = canvasRef.current;
+      if (canvas) {
+        label(canvas, now, describe);
+        drawOnCanvas(canvas, (ctx, width, height) => {
+          ctx.clearRect(0, 0, width, height);
+          ctx.fillStyle = "#080a14";
+          ctx.fillRect(0, 0, width, height);
+
+          // Graticule
+          ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
+          ctx.lineWidth = 1;
+          const divisionsX = mode === "xy" ? DIVISIONS_Y : DIVISIONS_X;
+          for (let i = 1; i < divisionsX; i += 1) {
+            const x = (width / divisionsX) * i;
+            ctx.beginPath();
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x, height);
+            ctx.stroke();
+          }
+          for (let i = 1; i < DIVISIONS_Y; i += 1) {
+            const y = (height / DIVISIONS_Y) * i;
+            ctx.beginPath();
+            ctx.moveTo(0, y);
+            ctx.lineTo(width, y);
+            ctx.stroke();
+          }
+
+          const buffers = buffersRef.current;
+          if (!buffers || (!isPlaying && !frozen)) {
+            ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
+            ctx.font = "500 13px 'Inter', sans-serif";
+            ctx.fillText("Start tone to view waveform", 14, height / 2);
+            return;
+          }
+
+          const toY = (value: number) => height / 2 - value * scale * (height / 2);
+          ctx.strokeStyle = "rgba(0, 229, 255, 0.85)";
+          ctx.lineWidth = 1.5;
+          ctx.shadowColor = "rgba(0, 229, 255, 0.5)";
+          ctx.shadowBlur = 6;
+          ctx.beginPath();
+
+          if (mode === "xy") {
+            const { left, right } = buffers;
+            const toX = (value: number) => width / 2 + value * scale * (height / 2);
+            for (let i = 0; i < left.length; i += 1) {
+              if (i === 0) ctx.moveTo(toX(left[i]), toY(right[i]));
+              else ctx.lineTo(toX(left[i]), toY(right[i]));
+            }
+            ctx.stroke();
+            ctx.shadowBlur = 0;
+          } else {
+            const data = buffers.mono;
+            const windowSize = Math.min(data.length, timebaseSamples(msPerDiv, sampleRateRef.current));
+            const level = threshold / scale;
+            const trigger = findTrigger(data, level, edge, data.length - windowSize);
+            const start = trigger ?? 0;
+            const first = Math.floor(start);
+            const offset = start - first;
+            const count = Math.min(windowSize + 1, data.length - first);
+            for (let i = 0; i < count; i += 1) {
+              const x = ((i - offset) / windowSize) * width;
+              const y = toY(data[first + i]);
+              if (i === 0) ctx.moveTo(x, y);
+              else ctx.lineTo(x, y);
+            }
+            ctx.stroke();
+            ctx.shadowBlur = 0;
+
+            // Trigger level marker
+            ctx.strokeStyle = "rgba(224, 64, 251, 0.6)";
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(0, toY(level));
+            ctx.lineTo(width, toY(level));
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            ctx.fillStyle = trigger === null ? "rgba(239, 68, 68, 0.8)" : "rgba(118, 255, 3, 0.8)";
+            ctx.font = "600 10px 'JetBrains Mono', monospace";
+            ctx.fillText(trigger === null ? "AUTO" : "TRIG'D", 10, 18);
+          }
+
+          if (frozen) {
+            ctx.fillStyle = "rgba(224, 64, 251, 0.8)";
+            ctx.font = "600 10px 'JetBrains Mono', monospace";
+            ctx.fillText("FROZEN", width - 56, 18);
+          }
+        });
+      }
+
+      frameRef.current = requestAnimationFrame(render);
+    };
+
+    frameRef.current = requestAnimationFrame(render);
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [edge, frozen, getTap, isPlaying, mode, msPerDiv, scale, threshold]);
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Oscilloscope
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => setMode("yt")} className={chipClass(mode === "yt")}>
+            Y–T
+          </button>
+          <button onClick={() => setMode("xy")} className={chipClass(mode === "xy")}>
+            X–Y
+          </button>
+          <button
+            onClick={() => setFrozen((value) => !value)}
+            className={`rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+              frozen
+                ? "border-secondary/50 bg-secondary/10 text-secondary"
+                : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+            }`}
+          >
+            {frozen ? "Frozen" : "Freeze"}
+          </button>
+        </div>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        role="img"
+        className="h-56 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
+      />
+
+      <div className="mt-3 grid gap-3 font-mono text-[11px] text-muted sm:grid-cols-2">
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Scale</span>
+          {SCALES.map((value) => (
+            <button key={value} onClick={() => setScale(value)} className={chipClass(scale === value)}>
+              ×{value}
+            </button>
+          ))}
+        </div>
+        {mode === "yt" && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Time/div</span>
+            {TIMEBASES_MS.map((value) => (
+              <button
+                key={value}
+                onClick={() => setMsPerDiv(value)}
+                className={chipClass(msPerDiv === value)}
+              >
+                {formatTimebase(value)}
+              </button>
+            ))}
+          </div>
+        )}
+        {mode === "yt" && (
+          <div className="flex flex-wrap items-center gap-2 sm:col-span-2">
+            <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Trigger</span>
+            <button onClick={() => setEdge("rising")} className={chipClass(edge === "rising")}>
+              ↑ Rising
+            </button>
+            <button onClick={() => setEdge("falling")} className={chipClass(edge === "falling")}>
+              ↓ Falling
+            </button>
+            <input
+              aria-label="Trigger threshold"
+              type="range"
+              min={-1}
+              max={1}
+              step={0.01}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="accent-secondary h-2 min-w-[8rem] flex-1"
+            />
+            <span className="w-12 text-right text-white/80">{threshold.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { ChangeEvent, KeyboardEvent, useEffect, useRef, useState } from "react";
+import { EngineOutput } from "../audio/engine";
+import {
+  SequenceCursor,
+  SequenceOutput,
+  closeSequenceOutput,
+  createSequenceOutput,
+  scheduleSequence
+} from "../audio/sequencer";
+import { downloadBytes } from "../lib/download";
+import { frequencyError, parseFrequency } from "../lib/frequency";
+import {
+  DEFAULT_STEP,
+  EXAMPLE_SEQUENCE,
+  MAX_STEP_SECONDS,
+  MIN_STEP_DB,
+  SEQUENCE_WAVEFORMS,
+  Sequence,
+  SequenceStep,
+  SequenceWaveform,
+  formatDuration,
+  formatSequence,
+  parseDuration,
+  parseSequence,
+  parseSequenceFile,
+  sequenceDuration,
+  serializeSequence,
+  stepIndexAt
+} from "../lib/sequence";
+
+const LOOKAHEAD_SECONDS = 0.5;
+const TICK_MS = 50;
+/** Gives the first step's automation time to land before it starts. */
+const START_DELAY = 0.1;
+
+interface SequencerPanelProps {
+  /** The sequencer has its own output, so it waits for the tone to stop. */
+  isPlaying: boolean;
+  /** Opens a context on the generator's output, behind its limiter. */
+  openOutput: () => Promise<EngineOutput>;
+}
+
+interface CellProps {
+  label: string;
+  value: string;
+  /** Applies the text and returns false when it can't be read. */
+  onCommit: (text: string) => boolean;
+  disabled: boolean;
+}
+
+/** Text cell that keeps the draft until Enter or blur, then commits or flags it. */
+function Cell({ label, value, onCommit, disabled }: CellProps) {
+  const [draft, setDraft] = useState(value);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setDraft(value);
+    setInvalid(false);
+  }, [value]);
+
+  const commit = () => {
+    if (draft === value) return;
+    setInvalid(!onCommit(draft.trim()));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") commit();
+    if (e.key === "Escape") {
+      setDraft(value);
+      setInvalid(false);
+    }
+  };
+
+  return (
+    <input
+      aria-label={label}
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={onKeyDown}
+      className={`w-full min-w-0 rounded-md border bg-white/[0.02] px-1.5 py-1 text-white/80 focus:outline-none disabled:opacity-60 ${
+        invalid ? "border-red-400/60" : "border-white/[0.06] focus:border-accent/50"
+      }`}
+    />
+  );
+}
+
+function readFrequency(text: string) {
+  const freq = parseFrequency(text);
+  return freq !== null && !frequencyError(freq) ? freq : null;
+}
+
+/** Bare numbers are seconds. */
+function readSeconds(text: string) {
+  return parseDuration(text) ?? parseDuration(`${text}s`);
+}
+
+function formatFrequencyCell(freq: number) {
+  return `${Number(freq.toFixed(3))}`;
+}
+
+export default function SequencerPanel({ isPlaying, openOutput }: SequencerPanelProps) {
+  const [steps, setSteps] = useState<SequenceStep[]>(() => parseSequence(EXAMPLE_SEQUENCE));
+  const [loop, setLoop] = useState(false);
+  const [script, setScript] = useState(() => formatSequence(parseSequence(EXAMPLE_SEQUENCE)));
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Playback works from a snapshot taken when it starts.
+  const sequenceRef = useRef<Sequence>({ steps, loop });
+  const openOutputRef = useRef(openOutput);
+  openOutputRef.current = openOutput;
+
+  useEffect(() => {
+    if (!running) return;
+    const sequence = sequenceRef.current;
+    const total = sequenceDuration(sequence.steps);
+    let cancelled = false;
+    let output: SequenceOutput | null = null;
+    let interval: number | null = null;
+
+    openOutputRef
+      .current()
+      .then((engineOutput) => {
+        const opened = createSequenceOutput(engineOutput);
+        if (cancelled) {
+          void closeSequenceOutput(opened);
+          return;
+        }
+        output = opened;
+        const { context } = opened;
+        const startTime = context.currentTime + START_DELAY;
+        let cursor: SequenceCursor = { index: 0, time: startTime };
+
+        const tick = () => {
+          cursor = scheduleSequence(opened, sequence, cursor, context.currentTime + LOOKAHEAD_SECONDS);
+          const elapsed = context.currentTime - startTime;
+          setCurrent(stepIndexAt(sequence.steps, Math.max(0, elapsed), sequence.loop));
+          if (!sequence.loop && elapsed >= total) setRunning(false);
+        };
+        tick();
+        interval = window.setInterval(tick, TICK_MS);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setStatus(err instanceof Error ? err.message : "Audio output unavailable");
+        setRunning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (interval !== null) window.clearInterval(interval);
+      if (output) void closeSequenceOutput(output);
+      setCurrent(null);
+    };
+  }, [running]);
+
+  const update = (next: SequenceStep[]) => {
+    setSteps(next);
+    setScript(formatSequence(next));
+    setScriptError(null);
+  };
+
+  const updateStep = (index: number, patch: Partial<SequenceStep>) => {
+    update(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+    return true;
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const applyScript = () => {
+    try {
+      update(parseSequence(script));
+    } catch (err) {
+      setScriptError(err instanceof Error ? err.message : "Unreadable sequence");
+    }
+  };
+
+  const play = () => {
+    sequenceRef.current = { steps, loop };
+    setStatus(null);
+    setRunning(true);
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const sequence = parseSequenceFile(await file.text());
+      update(sequence.steps);
+      setLoop(sequence.loop);
+      setStatus(`Loaded ${sequence.steps.length} step${sequence.steps.length === 1 ? "" : "s"}`);
+    } catch (err) {
+      setStatus(`${file.name}: ${err instanceof Error ? err.message : "unreadable"}`);
+    }
+  };
+
+  const buttonClass =
+    "rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">Sequencer</p>
+        <p className="font-mono text-[10px] text-accent/40">
+          {steps.length} step{steps.length === 1 ? "" : "s"} · {formatDuration(sequenceDuration(steps))}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[36rem] font-mono text-[11px]">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-muted/70">
+              <th className="w-6 pb-1 font-normal">#</th>
+              <th className="pb-1 font-normal">From</th>
+              <th className="pb-1 font-normal">To</th>
+              <th className="pb-1 font-normal">Wave</th>
+              <th className="pb-1 font-normal">dBFS</th>
+              <th className="pb-1 font-normal">Time</th>
+              <th className="pb-1 font-normal">Glide</th>
+              <th className="pb-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map((step, i) => (
+              <tr key={i} className={current === i ? "text-accent" : "text-muted"}>
+                <td className="pr-1">{current === i ? "▶" : i + 1}</td>
+                <td className="pr-1">
+                  <Cell
+                    label={`Step ${i + 1} frequency`}
+                    value={formatFrequencyCell(step.frequency)}
+                    disabled={running || step.level === null}
+                    onCommit={(text) => {
+                      const freq = readFrequency(text);
+                      return freq !== null && updateStep(i, { frequency: freq });
+                    }}
+                  />
+                </td>
+                <td className="pr-1">
+                  <Cell
+                    label={`Step ${i + 1} sweep to`}
+                    value={step.toFrequency === null ? "" : formatFrequencyCell(step.toFrequency)}
+                    disabled={running || step.level === null}
+                    onCommit={(text) => {
+                      if (!text) return updateStep(i, { toFrequency: null });
+                      const freq = readFrequency(text);
+                      return freq !== null && updateStep(i, { toFrequency: freq });
+                    }}
+                  />
+                </td>
+                <td className="pr-1">
+                  <select
+                    aria-label={`Step ${i + 1} waveform`}
+                    value={step.level === null ? "rest" : step.waveform}
+                    disabled={running}
+                    onChange={(e) =>
+                      e.target.value === "rest"
+                        ? updateStep(i, { level: null, toFrequency: null, glide: 0 })
+                        : updateStep(i, {
+                            waveform: e.target.value as SequenceWaveform,
+                            level: step.level ?? DEFAULT_STEP.level
+                          })
+                    }
+                    className="w-full rounded-md border border-white/[0.06] bg-[#080a14] px-1 py-1 text-white/80 focus:border-accent/50 focus:outline-none disabled:opacity-60"
+                  >
+                    {SEQUENCE_WAVEFORMS.map((waveform) => (
+                      <option key={waveform} value={waveform}>
+                        {waveform}
+                      </option>
+                    ))}
+                    <option value="rest">rest</option>
+                  </select>
+                </td>
+                <td className="pr-1">
+                  <Cell
+                    label={`Step ${i + 1} level`}
+                    value={step.level === null ? "" : `${step.level}`}
+                    disabled={running || step.level === null}
+                    onCommit={(text) => {
+                      const level = Number(text.replace(/db(fs)?$/i, ""));
+                      const valid = text !== "" && level <= 0 && level >= MIN_STEP_DB;
+                      return valid && updateStep(i, { level });
+                    }}
+                  />
+                </td>
+                <td className="pr-1">
+                  <Cell
+                    label={`Step ${i + 1} duration`}
+                    value={formatDuration(step.duration)}
+                    disabled={running}
+                    onCommit={(text) => {
+                      const seconds = readSeconds(text);
+                      const valid = seconds !== null && seconds > 0 && seconds <= MAX_STEP_SECONDS;
+                      return valid && updateStep(i, { duration: seconds, glide: Math.min(step.glide, seconds) });
+                    }}
+                  />
+                </td>
+                <td className="pr-1">
+                  <Cell
+                    label={`Step ${i + 1} glide`}
+                    value={step.glide > 0 ? formatDuration(step.glide) : ""}
+                    disabled={running || step.level === null}
+                    onCommit={(text) => {
+                      if (!text) return updateStep(i, { glide: 0 });
+                      const seconds = readSeconds(text);
+                      return seconds !== null && seconds <= step.duration && updateStep(i, { glide: seconds });
+                    }}
+                  />
+                </td>
+                <td className="whitespace-nowrap text-right">
+                  <button
+                    aria-label={`Move step ${i + 1} up`}
+                    onClick={() => moveStep(i, -1)}
+                    disabled={running || i === 0}
+                    className="px-1 hover:text-white/80 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    aria-label={`Move step ${i + 1} down`}
+                    onClick={() => moveStep(i, 1)}
+                    disabled={running || i === steps.length - 1}
+                    className="px-1 hover:text-white/80 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    aria-label={`Delete step ${i + 1}`}
+                    onClick={() => update(steps.filter((_, j) => j !== i))}
+                    disabled={running || steps.length === 1}
+                    className="px-1 hover:text-red-400 disabled:opacity-30"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => update([...steps, { ...(steps[steps.length - 1] ?? DEFAULT_STEP), glide: 0 }])}
+          disabled={running}
+          className={buttonClass}
+        >
+          Add step
+        </button>
+        <button onClick={() => setLoop((value) => !value)} disabled={running} className={buttonClass}>
+          Loop {loop ? "on" : "off"}
+        </button>
+        <button
+          onClick={running ? () => setRunning(false) : play}
+          disabled={!running && isPlaying}
+          className="ml-auto rounded-lg border border-accent/40 bg-accent/10 px-3 py-1 font-mono text-[11px] text-accent transition-all hover:bg-accent/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {running ? "Stop" : "Play sequence"}
+        </button>
+      </div>
+      {isPlaying && !running && (
+        <p className="mt-2 font-mono text-[10px] text-secondary/80">Stop the tone to play a sequence</p>
+      )}
+
+      <label className="mt-4 block">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Script</span>
+        <textarea
+          aria-label="Sequence script"
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          disabled={running}
+          rows={4}
+          spellCheck={false}
+          placeholder={EXAMPLE_SEQUENCE}
+          className="mt-1 w-full rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white placeholder:text-muted/40 focus:border-accent/50 focus:outline-none"
+        />
+      </label>
+      {scriptError && <p className="mt-1 font-mono text-[10px] text-red-400">{scriptError}</p>}
+      <p className="mt-1 font-mono text-[10px] text-muted/50">
+        Steps split by ; or new lines, e.g. 1k sine -20dB 2s, sweep 20-20k lin 10s, rest 500ms, 2k 1s
+        glide 100ms. Waveform and level carry over; # starts a comment.
+      </p>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button onClick={applyScript} disabled={running} className={buttonClass}>
+          Apply script
+        </button>
+        <button
+          onClick={() =>
+            downloadBytes(
+              serializeSequence({ steps, loop }),
+              "application/json",
+              "audio-generator-sequence.json"
+            )
+          }
+          className={buttonClass}
+        >
+          Export JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+        </label>
+      </div>
+      {status && <p className="mt-2 font-mono text-[10px] text-muted/70">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from "react";
+import { SHORTCUTS } from "../lib/shortcuts";
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Keyboard map. A modal dialog traps focus, closes on Esc and hands focus back. */
+export default function ShortcutsDialog({ open, onClose }: ShortcutsDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      aria-labelledby="shortcuts-title"
+      className="w-full max-w-md rounded-2xl border border-white/[0.12] bg-[#0a0f1e] p-5 text-white backdrop:bg-black/70"
+    >
+      <div className="mb-4 flex items-center justify-between">
+        <h2
+          id="shortcuts-title"
+          className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted"
+        >
+          Keyboard Shortcuts
+        </h2>
+        <button
+          onClick={onClose}
+          className="rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-[11px] text-muted transition-all hover:border-white/10 hover:text-white/80"
+        >
+          Close
+        </button>
+      </div>
+      <dl className="space-y-2 font-mono text-[11px]">
+        {SHORTCUTS.map(({ keys, action }) => (
+          <div key={action} className="flex items-center justify-between gap-4">
+            <dt className="flex gap-1">
+              {keys.map((key) => (
+                <kbd
+                  key={key}
+                  className="min-w-[1.75rem] rounded border border-white/20 bg-white/[0.04] px-1.5 py-0.5 text-center text-accent"
+                >
+                  {key}
+                </kbd>
+              ))}
+            </dt>
+            <dd className="text-right text-white/80">{action}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-4 font-mono text-[10px] text-muted">
+        Shortcuts pause while a text field has focus; sliders keep their own arrow keys.
+      </p>
+    </dialog>
+  );
+}
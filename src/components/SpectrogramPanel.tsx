@@ -0,0 +1,398 @@
+import { MouseEvent, useEffect, useRef, useState } from "react";
+import { startStream } from "../audio/capture";
+import { drawOnCanvas } from "../lib/canvas";
+import { WindowKind } from "../lib/fft";
+import { MAX_FREQ, MIN_FREQ, formatFreq } from "../lib/frequency";
+import {
+  AnalysisSettings,
+  FFT_SIZES,
+  FrequencyScale,
+  HISTORY_SECONDS,
+  MAX_SMOOTHING,
+  OVERLAPS,
+  SpectrogramGrid,
+  WINDOW_KINDS,
+  colorIndex,
+  columnTime,
+  createColorMap,
+  createGrid,
+  createStft,
+  gridLevel,
+  pushColumn,
+  pushSamples,
+  skipSamples
+} from "../lib/spectrogram";
+
+const ROWS = 512;
+const RANGES_DB = [60, 90, 120];
+const AXIS_WIDTH = 40;
+const AXIS_HEIGHT = 16;
+const LOG_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+const LINEAR_TICK = 5000;
+const TIME_TICKS = 5;
+
+const COLOR_MAP = createColorMap();
+const LEGEND_GRADIENT = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+  .map((t) => {
+    const i = Math.round(t * 255) * 3;
+    return `rgb(${COLOR_MAP[i]}, ${COLOR_MAP[i + 1]}, ${COLOR_MAP[i + 2]})`;
+  })
+  .join(", ")})`;
+
+const WINDOW_LABELS: Record<WindowKind, string> = {
+  hann: "Hann",
+  "blackman-harris": "Blackman-Harris",
+  "flat-top": "Flat-top"
+};
+
+const SCALE_LABELS: Record<FrequencyScale, string> = {
+  linear: "Lin",
+  log: "Log"
+};
+
+interface SpectrogramPanelProps {
+  /** The limited generator output, or null when stopped. */
+  getOutput: () => { context: BaseAudioContext; node: AudioNode } | null;
+  isPlaying: boolean;
+  analysis: AnalysisSettings;
+  onAnalysisChange: (analysis: AnalysisSettings) => void;
+}
+
+interface Selection {
+  column: number;
+  row: number;
+  time: number;
+  frequency: number;
+  level: number;
+}
+
+function formatTick(freq: number) {
+  return freq >= 1000 ? `${freq / 1000}k` : `${freq}`;
+}
+
+export default function SpectrogramPanel({
+  getOutput,
+  isPlaying,
+  analysis,
+  onAnalysisChange
+}: SpectrogramPanelProps) {
+  const [scale, setScale] = useState<FrequencyScale>("log");
+  const [history, setHistory] = useState(10);
+  const [rangeDb, setRangeDb] = useState(120);
+  const [frozen, setFrozen] = useState(false);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const gridRef = useRef<SpectrogramGrid | null>(null);
+  const frozenRef = useRef(frozen);
+  const smoothingRef = useRef(analysis.smoothing);
+  frozenRef.current = frozen;
+  smoothingRef.current = analysis.smoothing;
+
+  const { fftSize, window: windowKind, overlap } = analysis;
+
+  useEffect(() => {
+    const output = isPlaying ? getOutput() : null;
+    if (!output) return;
+    const { context, node } = output;
+    const maxFreq = Math.min(MAX_FREQ, context.sampleRate / 2);
+    const stft = createStft(
+      { fftSize, window: windowKind, overlap, smoothing: smoothingRef.current },
+      context.sampleRate
+    );
+    const grid = createGrid(stft, scale, history, ROWS, MIN_FREQ, maxFreq, context.currentTime);
+    gridRef.current = grid;
+    setSelection(null);
+    setError(null);
+
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+    startStream(context, node, (samples) => {
+      // Frozen: keep counting time so the picture resumes in the right place.
+      if (frozenRef.current) {
+        skipSamples(stft, samples.length);
+        return;
+      }
+      stft.smoothing = smoothingRef.current;
+      pushSamples(stft, samples, (frame, endSample) => pushColumn(grid, frame, endSample));
+    })
+      .then((stopStream) => {
+        if (cancelled) stopStream();
+        else stop = stopStream;
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Analysis unavailable");
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [fftSize, getOutput, history, isPlaying, overlap, scale, windowKind]);
+
+  useEffect(() => {
+    const image = document.createElement("canvas");
+    let imageData: ImageData | null = null;
+    let painted = -1;
+    let paintedGrid: SpectrogramGrid | null = null;
+    let frame: number | null = null;
+    const floorDb = -rangeDb;
+
+    // Only columns that changed since the last frame are repainted.
+    const paint = (grid: SpectrogramGrid) => {
+      if (grid !== paintedGrid || !imageData) {
+        image.width = grid.columns;
+        image.height = grid.rows;
+        imageData = new ImageData(grid.columns, grid.rows);
+        painted = -1;
+        paintedGrid = grid;
+      }
+      if (grid.head < 0) return;
+      const from = Math.max(painted, grid.head - grid.columns + 1, 0);
+      for (let column = from; column <= grid.head; column += 1) {
+        const x = column % grid.columns;
+        const offset = x * grid.rows;
+        for (let row = 0; row < grid.rows; row += 1) {
+          const color = colorIndex(grid.levels[offset + row], floorDb) * 3;
+          const pixel = ((grid.rows - 1 - row) * grid.columns + x) * 4;
+          imageData.data[pixel] = COLOR_MAP[color];
+          imageData.data[pixel + 1] = COLOR_MAP[color + 1];
+          imageData.data[pixel + 2] = COLOR_MAP[color + 2];
+          imageData.data[pixel + 3] = 255;
+        }
+      }
+      painted = grid.head;
+      image.getContext("2d")?.putImageData(imageData, 0, 0);
+    };
+
+    const render = () => {
+      const canvas = canvasRef.current;
+      const grid = isPlaying ? gridRef.current : null;
+      if (canvas) {
+        drawOnCanvas(canvas, (ctx, width, height) => {
+          ctx.clearRect(0, 0, width, height);
+          ctx.fillStyle = "#080a14";
+          ctx.fillRect(0, 0, width, height);
+
+          const plotWidth = width - AXIS_WIDTH;
+          const plotHeight = height - AXIS_HEIGHT;
+          ctx.font = "10px 'JetBrains Mono', monospace";
+
+          if (!grid) {
+            ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
+            ctx.font = "500 13px 'Inter', sans-serif";
+            ctx.fillText(error ?? "Start tone to record a spectrogram", AXIS_WIDTH + 20, height / 2);
+            return;
+          }
+
+          paint(grid);
+          // Oldest column on the left: unwrap the ring in two pieces.
+          const columnWidth = plotWidth / grid.columns;
+          const split = (grid.head + 1) % grid.columns;
+          ctx.imageSmoothingEnabled = false;
+          const older = grid.columns - split;
+          ctx.drawImage(image, split, 0, older, grid.rows, AXIS_WIDTH, 0, older * columnWidth, plotHeight);
+          if (split > 0) {
+            const x = AXIS_WIDTH + older * columnWidth;
+            ctx.drawImage(image, 0, 0, split, grid.rows, x, 0, split * columnWidth, plotHeight);
+          }
+
+          // Frequency axis
+          const low = scale === "log" ? MIN_FREQ : 0;
+          const high = Math.min(MAX_FREQ, grid.sampleRate / 2);
+          const freqToY = (freq: number) =>
+            plotHeight *
+            (1 -
+              (scale === "log"
+                ? Math.log(freq / low) / Math.log(high / low)
+                : (freq - low) / (high - low)));
+          const ticks =
+            scale === "log"
+              ? LOG_TICKS
+              : Array.from({ length: Math.floor(high / LINEAR_TICK) }, (_, i) => (i + 1) * LINEAR_TICK);
+          ctx.lineWidth = 1;
+          ticks
+            .filter((tick) => tick > low && tick < high)
+            .forEach((tick) => {
+              const y = freqToY(tick);
+              ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+              ctx.beginPath();
+              ctx.moveTo(AXIS_WIDTH, y);
+              ctx.lineTo(width, y);
+              ctx.stroke();
+              ctx.fillStyle = "rgba(136, 146, 176, 0.7)";
+              ctx.fillText(formatTick(tick), 4, y + 3);
+            });
+
+          // Time axis, newest at the right
+          ctx.fillStyle = "rgba(136, 146, 176, 0.7)";
+          for (let i = 0; i <= TIME_TICKS; i += 1) {
+            const x = AXIS_WIDTH + (plotWidth * i) / TIME_TICKS;
+            const ago = history * (1 - i / TIME_TICKS);
+            const label = ago === 0 ? "now" : `−${ago}s`;
+            ctx.fillText(label, Math.min(x, width - 24) - (i === 0 ? 0 : 12), height - 4);
+          }
+
+          if (selection) {
+            const x = AXIS_WIDTH + (selection.column - (grid.head - grid.columns + 1) + 0.5) * columnWidth;
+            const y = freqToY(selection.frequency);
+            ctx.strokeStyle = "rgba(0, 229, 255, 0.8)";
+            ctx.setLineDash([3, 3]);
+            ctx.beginPath();
+            if (x >= AXIS_WIDTH) {
+              ctx.moveTo(x, 0);
+              ctx.lineTo(x, plotHeight);
+            }
+            ctx.moveTo(AXIS_WIDTH, y);
+            ctx.lineTo(width, y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+          }
+
+          if (frozen) {
+            ctx.fillStyle = "rgba(136, 146, 176, 0.2)";
+            ctx.fillRect(width - 76, 8, 68, 20);
+            ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+            ctx.font = "600 10px 'JetBrains Mono', monospace";
+            ctx.fillText("FROZEN", width - 64, 22);
+          }
+        });
+      }
+      frame = requestAnimationFrame(render);
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [error, frozen, history, isPlaying, rangeDb, scale, selection]);
+
+  const inspect = (e: MouseEvent<HTMLCanvasElement>) => {
+    const grid = gridRef.current;
+    if (!grid || grid.head < 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left - AXIS_WIDTH;
+    const y = e.clientY - rect.top;
+    const plotWidth = rect.width - AXIS_WIDTH;
+    const plotHeight = rect.height - AXIS_HEIGHT;
+    if (x < 0 || y > plotHeight) return;
+
+    const column = grid.head - grid.columns + 1 + Math.floor((x / plotWidth) * grid.columns);
+    const row = Math.min(grid.rows - 1, Math.floor((1 - y / plotHeight) * grid.rows));
+    const level = gridLevel(grid, column, row);
+    if (level === null) return;
+    setSelection({
+      column,
+      row,
+      time: columnTime(grid, column),
+      frequency: grid.rowFrequencies[row],
+      level
+    });
+  };
+
+  const update = (patch: Partial<AnalysisSettings>) => onAnalysisChange({ ...analysis, ...patch });
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Spectrogram
+        </p>
+        <p className="font-mono text-[10px] text-accent/40">
+          STFT · {fftSize} pt
+        </p>
+      </div>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        onClick={inspect}
+        aria-label="Spectrogram"
+        className="h-64 w-full cursor-crosshair rounded-xl border border-white/[0.04] bg-[#080a14]"
+      />
+      <div className="mt-2 flex items-center gap-2 font-mono text-[10px] text-muted/70">
+        <span>−{rangeDb} dB</span>
+        <span className="h-2 flex-1 rounded-full" style={{ background: LEGEND_GRADIENT }} />
+        <span>0 dB</span>
+      </div>
+      <p className="mt-2 flex items-center justify-between font-mono text-[11px]">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Point</span>
+        <span className="text-accent">
+          {selection
+            ? `${selection.time.toFixed(2)} s · ${formatFreq(selection.frequency)} · ${selection.level.toFixed(1)} dB`
+            : "Click the spectrogram"}
+        </span>
+      </p>
+
+      <div className="mt-3 space-y-2 font-mono text-[11px] text-muted">
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">FFT</span>
+          {FFT_SIZES.map((size) => (
+            <button key={size} onClick={() => update({ fftSize: size })} className={chipClass(fftSize === size)}>
+              {size}
+            </button>
+          ))}
+          <span className="ml-auto" />
+          {(Object.keys(SCALE_LABELS) as FrequencyScale[]).map((value) => (
+            <button key={value} onClick={() => setScale(value)} className={chipClass(scale === value)}>
+              {SCALE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Window</span>
+          {WINDOW_KINDS.map((kind) => (
+            <button key={kind} onClick={() => update({ window: kind })} className={chipClass(windowKind === kind)}>
+              {WINDOW_LABELS[kind]}
+            </button>
+          ))}
+          <span className="ml-2 mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Overlap</span>
+          {OVERLAPS.map((value) => (
+            <button key={value} onClick={() => update({ overlap: value })} className={chipClass(overlap === value)}>
+              {value * 100}%
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">History</span>
+          {HISTORY_SECONDS.map((seconds) => (
+            <button key={seconds} onClick={() => setHistory(seconds)} className={chipClass(history === seconds)}>
+              {seconds}s
+            </button>
+          ))}
+          <span className="ml-2 mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Range</span>
+          {RANGES_DB.map((range) => (
+            <button key={range} onClick={() => setRangeDb(range)} className={chipClass(rangeDb === range)}>
+              {range} dB
+            </button>
+          ))}
+          <span className="ml-auto" />
+          <button onClick={() => setFrozen((value) => !value)} className={chipClass(frozen)}>
+            Freeze
+          </button>
+        </div>
+        <label className="grid grid-cols-[4.5rem_minmax(0,1fr)_3rem] items-center gap-2">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Smoothing</span>
+          <input
+            aria-label="Smoothing"
+            type="range"
+            min={0}
+            max={MAX_SMOOTHING}
+            step={0.01}
+            value={analysis.smoothing}
+            onChange={(e) => update({ smoothing: Number(e.target.value) })}
+            className="h-2 w-full"
+          />
+          <span className="text-right text-white/80">{analysis.smoothing.toFixed(2)}</span>
+        </label>
+      </div>
+    </div>
+  );
+}
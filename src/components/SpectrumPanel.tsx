@@ -0,0 +1,516 @@
+import { useEffect, useRef, useState } from "react";
+import { InputTap, closeInput, listInputDevices, openInput } from "../audio/inputAnalyser";
+import { createPlotLabeller, drawOnCanvas } from "../lib/canvas";
+import {
+  MAX_FREQ,
+  MIN_FREQ,
+  formatFreq,
+  frequencyToNoteLabel,
+  spokenNoteLabel
+} from "../lib/frequency";
+import { formatDb } from "../lib/level";
+import {
+  AVERAGE_COUNTS,
+  AVERAGING_MODES,
+  Averaging,
+  DEFAULT_FFT_SIZE,
+  DEFAULT_SMOOTHING,
+  SpectrumAverager,
+  addSpectra,
+  createAverager,
+  dominantPeak,
+  pushSpectrum,
+  resetAverager
+} from "../lib/spectrum";
+import { Tuning } from "../lib/tuning";
+
+type InputSource = "generator" | "input" | "both";
+/** Bars summarise; the trace plots every pixel so close sidebands stay apart. */
+type SpectrumView = "bars" | "trace";
+
+const SPECTRUM_BARS = 72;
+const DB_MAX = 0;
+const DB_MIN = -120;
+const DB_STEP = 20;
+/** Peaks quieter than this are treated as silence in the readout. */
+const PEAK_FLOOR_DB = -90;
+
+const SOURCE_LABELS: Record<InputSource, string> = {
+  generator: "Generator",
+  input: "Mic / Line",
+  both: "Both"
+};
+
+const VIEW_LABELS: Record<SpectrumView, string> = {
+  bars: "Bars",
+  trace: "Trace"
+};
+
+const AVERAGING_LABELS: Record<Averaging, string> = {
+  off: "Off",
+  exponential: "Exp",
+  linear: "Linear"
+};
+
+interface SpectrumPanelProps {
+  /** Read every frame so the panel follows the graph as it is rebuilt. */
+  getAnalyser: () => AnalyserNode | null;
+  /** Burst gate state at the current time, or null when bursts are off. */
+  getGate: () => boolean | null;
+  /** Per-channel analysers, read every frame when `showChannels` is set. */
+  getChannels: () => { left: AnalyserNode; right: AnalyserNode } | null;
+  showChannels: boolean;
+  isPlaying: boolean;
+  /** Main tone markers: one in mono, one per channel in stereo. */
+  toneFrequencies: number[];
+  /** Where modulation sidebands should appear. */
+  sidebandFrequencies: number[];
+  voiceFrequencies: number[];
+  /** Tuning used to name the dominant peak. */
+  tuning: Tuning;
+}
+
+function formatPeak(freq: number) {
+  return freq >= 1000 ? formatFreq(freq) : `${freq.toFixed(1)} Hz`;
+}
+
+export default function SpectrumPanel({
+  getAnalyser,
+  getGate,
+  getChannels,
+  showChannels,
+  isPlaying,
+  toneFrequencies,
+  sidebandFrequencies,
+  voiceFrequencies,
+  tuning
+}: SpectrumPanelProps) {
+  const [source, setSource] = useState<InputSource>("generator");
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [averaging, setAveraging] = useState<Averaging>("off");
+  const [averageCount, setAverageCount] = useState(8);
+  const [peakHold, setPeakHold] = useState(false);
+  const [view, setView] = useState<SpectrumView>("bars");
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const readoutRef = useRef<HTMLSpanElement | null>(null);
+  const leftReadoutRef = useRef<HTMLSpanElement | null>(null);
+  const rightReadoutRef = useRef<HTMLSpanElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const inputRef = useRef<InputTap | null>(null);
+  const averagerRef = useRef<SpectrumAverager | null>(null);
+
+  const usesInput = source !== "generator";
+
+  useEffect(() => {
+    if (!usesInput) return;
+    let cancelled = false;
+    let tap: InputTap | null = null;
+    setInputError(null);
+
+    openInput(deviceId, DEFAULT_FFT_SIZE, DEFAULT_SMOOTHING)
+      .then(async (opened) => {
+        if (cancelled) {
+          closeInput(opened);
+          return;
+        }
+        tap = opened;
+        inputRef.current = opened;
+        // Device labels are only exposed once permission has been granted.
+        setDevices(await listInputDevices());
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setInputError(err instanceof Error ? err.message : "Input unavailable");
+      });
+
+    return () => {
+      cancelled = true;
+      inputRef.current = null;
+      if (tap) closeInput(tap);
+    };
+  }, [deviceId, usesInput]);
+
+  useEffect(() => {
+    if (averagerRef.current) resetAverager(averagerRef.current);
+  }, [averageCount, averaging, peakHold, source]);
+
+  useEffect(() => {
+    const createBuffers = (analysers: AnalyserNode[]) =>
+      analysers.map((analyser) => new Float32Array(analyser.frequencyBinCount));
+    let buffers: ReturnType<typeof createBuffers> = [];
+
+    const readFrame = () => {
+      const analysers: AnalyserNode[] = [];
+      const generator = source !== "input" && isPlaying ? getAnalyser() : null;
+      if (generator) analysers.push(generator);
+      if (usesInput && inputRef.current) analysers.push(inputRef.current.analyser);
+      if (analysers.length === 0) return null;
+
+      const stale =
+        buffers.length !== analysers.length ||
+        buffers.some((buffer, i) => buffer.length !== analysers[i].frequencyBinCount);
+      if (stale) buffers = createBuffers(analysers);
+      analysers.forEach((analyser, i) => analyser.getFloatFrequencyData(buffers[i]));
+      const sampleRate = analysers[0].context.sampleRate;
+      if (analysers.length === 2) {
+        addSpectra(buffers[0], sampleRate, buffers[1], analysers[1].context.sampleRate);
+      }
+
+      let averager = averagerRef.current;
+      if (!averager || averager.output.length !== buffers[0].length) {
+        averager = createAverager(buffers[0].length);
+        averagerRef.current = averager;
+      }
+      const spectrum = pushSpectrum(averager, buffers[0], averaging, averageCount);
+      return { spectrum, peak: averager.peak, sampleRate };
+    };
+
+    const describePeak = (spectrum: Float32Array, sampleRate: number) => {
+      const peak = dominantPeak(spectrum, sampleRate, MIN_FREQ, MAX_FREQ);
+      return peak && peak.level > PEAK_FLOOR_DB
+        ? `${formatPeak(peak.frequency)} · ${frequencyToNoteLabel(peak.frequency, tuning)} · ${peak.level.toFixed(1)} dBFS`
+        : "—";
+    };
+
+    const summarize = (frame: ReturnType<typeof readFrame>) => {
+      const peak = frame && dominantPeak(frame.spectrum, frame.sampleRate, MIN_FREQ, MAX_FREQ);
+      if (!peak || peak.level <= PEAK_FLOOR_DB) return "Live spectrum, no signal";
+      const note = spokenNoteLabel(peak.frequency, tuning);
+      return `Live spectrum, peak at ${formatPeak(peak.frequency)}, ${note}, ${formatDb(peak.level)}`;
+    };
+    // The labeller owns the canvas's name; this names it until the first frame.
+    const label = createPlotLabeller();
+    canvasRef.current?.setAttribute("aria-label", "Live spectrum");
+
+    const createChannelBuffer = (size: number) => new Float32Array(size);
+    let channelBuffer: ReturnType<typeof createChannelBuffer> | null = null;
+
+    const readChannel = (analyser: AnalyserNode | undefined) => {
+      if (!analyser) return "—";
+      if (channelBuffer?.length !== analyser.frequencyBinCount) {
+        channelBuffer = createChannelBuffer(analyser.frequencyBinCount);
+      }
+      analyser.getFloatFrequencyData(channelBuffer);
+      return describePeak(channelBuffer, analyser.context.sampleRate);
+    };
+
+    const render = (now: number) => {
+      const frame = readFrame();
+
+      const readout = readoutRef.current;
+      if (readout) {
+        readout.textContent = frame ? describePeak(frame.spectrum, frame.sampleRate) : "—";
+      }
+      if (showChannels) {
+        const channels = isPlaying ? getChannels() : null;
+        if (leftReadoutRef.current) leftReadoutRef.current.textContent = readChannel(channels?.left);
+        if (rightReadoutRef.current) rightReadoutRef.current.textContent = readChannel(channels?.right);
+      }
+
+      const canvas = canvasRef.current;
+      if (canvas) {
+        label(canvas, now, () => summarize(frame));
+        drawOnCanvas(canvas, (ctx, width, height) => {
+          ctx.clearRect(0, 0, width, height);
+          ctx.fillStyle = "#080a14";
+          ctx.fillRect(0, 0, width, height);
+
+          const plotHeight = height - 4;
+          const dbToY = (db: number) =>
+            ((DB_MAX - Math.min(DB_MAX, Math.max(DB_MIN, db))) / (DB_MAX - DB_MIN)) * plotHeight;
+
+          // Level grid
+          ctx.lineWidth = 1;
+          ctx.font = "10px 'JetBrains Mono', monospace";
+          for (let db = DB_MAX - DB_STEP; db > DB_MIN; db -= DB_STEP) {
+            const y = dbToY(db);
+            ctx.strokeStyle = "rgba(0, 229, 255, 0.06)";
+            ctx.beginPath();
+            ctx.moveTo(0, y);
+            ctx.lineTo(width, y);
+            ctx.stroke();
+            ctx.fillStyle = "rgba(136, 146, 176, 0.5)";
+            ctx.fillText(`${db}`, 4, y - 3);
+          }
+
+          if (!frame) {
+            ctx.fillStyle = "rgba(0, 229, 255, 0.3)";
+            ctx.font = "500 13px 'Inter', sans-serif";
+            const message = usesInput
+              ? (inputError ?? "Waiting for input…")
+              : "Start tone to view live spectrum";
+            ctx.fillText(message, 40, height / 2);
+            return;
+          }
+
+          const { spectrum, peak, sampleRate } = frame;
+          const nyquist = sampleRate / 2;
+          const barWidth = width / SPECTRUM_BARS;
+          const freqAt = (x: number) => MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, x / width);
+          const binAt = (freq: number) => (freq / nyquist) * spectrum.length;
+
+          if (view === "trace") {
+            const trace = (data: Float32Array) => {
+              ctx.beginPath();
+              for (let x = 0; x < width; x += 1) {
+                const fromIndex = Math.max(0, Math.floor(binAt(freqAt(x))));
+                const toIndex = Math.min(
+                  spectrum.length - 1,
+                  Math.max(fromIndex, Math.floor(binAt(freqAt(x + 1))))
+                );
+                let level = DB_MIN;
+                for (let j = fromIndex; j <= toIndex; j += 1) level = Math.max(level, data[j]);
+                if (x === 0) ctx.moveTo(x, dbToY(level));
+                else ctx.lineTo(x, dbToY(level));
+              }
+            };
+
+            trace(spectrum);
+            ctx.lineTo(width, plotHeight);
+            ctx.lineTo(0, plotHeight);
+            ctx.closePath();
+            const fill = ctx.createLinearGradient(0, height, 0, 0);
+            fill.addColorStop(0, "rgba(0, 229, 255, 0.05)");
+            fill.addColorStop(1, "rgba(0, 229, 255, 0.25)");
+            ctx.fillStyle = fill;
+            ctx.fill();
+            trace(spectrum);
+            ctx.strokeStyle = "rgba(0, 229, 255, 0.9)";
+            ctx.lineWidth = 1;
+            ctx.stroke();
+
+            if (peakHold) {
+              trace(peak);
+              ctx.strokeStyle = "rgba(224, 64, 251, 0.8)";
+              ctx.stroke();
+            }
+          }
+
+          for (let i = 0; view === "bars" && i < SPECTRUM_BARS; i += 1) {
+            const fromFreq = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, i / SPECTRUM_BARS);
+            const toFreq =
+              MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, (i + 1) / SPECTRUM_BARS);
+            const fromIndex = Math.max(
+              0,
+              Math.floor((fromFreq / nyquist) * spectrum.length)
+            );
+            const toIndex = Math.min(
+              spectrum.length - 1,
+              Math.ceil((toFreq / nyquist) * spectrum.length)
+            );
+
+            let bucketMax = DB_MIN;
+            let bucketPeak = DB_MIN;
+            for (let j = fromIndex; j <= toIndex; j += 1) {
+              bucketMax = Math.max(bucketMax, spectrum[j]);
+              bucketPeak = Math.max(bucketPeak, peak[j]);
+            }
+
+            const y = dbToY(bucketMax);
+            const barHeight = plotHeight - y;
+            const normalized = barHeight / plotHeight;
+            const x = i * barWidth + 1;
+
+            // Gradient bars: cyan at bottom, magenta at top
+            const gradient = ctx.createLinearGradient(x, height, x, y);
+            gradient.addColorStop(0, "rgba(0, 229, 255, 0.9)");
+            gradient.addColorStop(0.5, "rgba(0, 229, 255, 0.6)");
+            gradient.addColorStop(1, "rgba(224, 64, 251, 0.8)");
+            ctx.fillStyle = gradient;
+            ctx.fillRect(x, y, Math.max(1, barWidth - 2), barHeight);
+
+            // Glow effect on top of bars
+            if (normalized > 0.3) {
+              ctx.shadowColor = "rgba(0, 229, 255, 0.4)";
+              ctx.shadowBlur = 8;
+              ctx.fillRect(x, y, Math.max(1, barWidth - 2), 2);
+              ctx.shadowBlur = 0;
+            }
+
+            if (peakHold && bucketPeak > DB_MIN) {
+              ctx.fillStyle = "rgba(224, 64, 251, 0.9)";
+              ctx.fillRect(x, dbToY(bucketPeak) - 1, Math.max(1, barWidth - 2), 2);
+            }
+          }
+
+          // Frequency markers: main tone or channels, then one per mixer voice
+          if (source !== "input" && isPlaying) {
+            const markers = [
+              ...toneFrequencies.map((freq) => ({ freq, color: "rgba(224, 64, 251, 0.8)" })),
+              ...voiceFrequencies.map((freq) => ({ freq, color: "rgba(118, 255, 3, 0.7)" }))
+            ];
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([4, 4]);
+            markers.forEach(({ freq, color }) => {
+              const markerX =
+                (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
+              ctx.strokeStyle = color;
+              ctx.beginPath();
+              ctx.moveTo(markerX, 0);
+              ctx.lineTo(markerX, height);
+              ctx.stroke();
+            });
+            ctx.setLineDash([]);
+
+            // Sidebands: short ticks along the top so they don't hide the trace
+            ctx.strokeStyle = "rgba(255, 183, 77, 0.8)";
+            ctx.lineWidth = 1;
+            sidebandFrequencies.forEach((freq) => {
+              const markerX =
+                (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
+              ctx.beginPath();
+              ctx.moveTo(markerX, 0);
+              ctx.lineTo(markerX, 10);
+              ctx.stroke();
+            });
+          }
+
+          // Burst gate indicator
+          const open = isPlaying ? getGate() : null;
+          if (open !== null) {
+            ctx.fillStyle = open ? "rgba(118, 255, 3, 0.15)" : "rgba(136, 146, 176, 0.12)";
+            ctx.fillRect(width - 84, 8, 76, 20);
+            ctx.fillStyle = open ? "#76ff03" : "rgba(136, 146, 176, 0.7)";
+            ctx.font = "600 10px 'JetBrains Mono', monospace";
+            ctx.fillText(open ? "GATE ON" : "GATE OFF", width - 76, 22);
+          }
+        });
+      }
+
+      frameRef.current = requestAnimationFrame(render);
+    };
+
+    frameRef.current = requestAnimationFrame(render);
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [
+    averageCount,
+    averaging,
+    getAnalyser,
+    getChannels,
+    getGate,
+    inputError,
+    isPlaying,
+    peakHold,
+    showChannels,
+    sidebandFrequencies,
+    source,
+    toneFrequencies,
+    tuning,
+    usesInput,
+    view,
+    voiceFrequencies
+  ]);
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.03] p-4 backdrop-blur-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Spectrum Analyzer
+        </p>
+        <p className="font-mono text-[10px] text-accent/40">FFT · dBFS</p>
+      </div>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        className="h-48 w-full rounded-xl border border-white/[0.04] bg-[#080a14]"
+      />
+      <p className="mt-2 flex items-center justify-between font-mono text-[11px]">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Peak</span>
+        <span ref={readoutRef} className="text-accent">
+          —
+        </span>
+      </p>
+      {showChannels && (
+        <div className="mt-1 space-y-1 font-mono text-[11px]">
+          <p className="flex items-center justify-between">
+            <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Left</span>
+            <span ref={leftReadoutRef} className="text-tone">
+              —
+            </span>
+          </p>
+          <p className="flex items-center justify-between">
+            <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">Right</span>
+            <span ref={rightReadoutRef} className="text-secondary">
+              —
+            </span>
+          </p>
+        </div>
+      )}
+
+      <div className="mt-3 space-y-2 font-mono text-[11px] text-muted">
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Source</span>
+          {(Object.keys(SOURCE_LABELS) as InputSource[]).map((value) => (
+            <button key={value} onClick={() => setSource(value)} className={chipClass(source === value)}>
+              {SOURCE_LABELS[value]}
+            </button>
+          ))}
+          {usesInput && devices.length > 0 && (
+            <select
+              aria-label="Input device"
+              value={deviceId ?? ""}
+              onChange={(e) => setDeviceId(e.target.value || null)}
+              className="ml-1 min-w-0 flex-1 rounded-lg border border-white/[0.06] bg-[#080a14] px-2 py-1 text-white/80 focus:border-accent/50 focus:outline-none"
+            >
+              <option value="">Default input</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Input ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">Average</span>
+          {AVERAGING_MODES.map((mode) => (
+            <button key={mode} onClick={() => setAveraging(mode)} className={chipClass(averaging === mode)}>
+              {AVERAGING_LABELS[mode]}
+            </button>
+          ))}
+          {averaging !== "off" &&
+            AVERAGE_COUNTS.map((count) => (
+              <button
+                key={count}
+                onClick={() => setAverageCount(count)}
+                className={chipClass(averageCount === count)}
+              >
+                ×{count}
+              </button>
+            ))}
+          <span className="ml-auto" />
+          {(Object.keys(VIEW_LABELS) as SpectrumView[]).map((value) => (
+            <button key={value} onClick={() => setView(value)} className={chipClass(view === value)}>
+              {VIEW_LABELS[value]}
+            </button>
+          ))}
+          <button onClick={() => setPeakHold((value) => !value)} className={chipClass(peakHold)}>
+            Peak hold
+          </button>
+          {peakHold && (
+            <button
+              onClick={() => averagerRef.current && resetAverager(averagerRef.current)}
+              className={chipClass(false)}
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
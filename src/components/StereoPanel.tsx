@@ -0,0 +1,206 @@
+import { ReactNode } from "react";
+import {
+  MAX_FREQ,
+  MIN_FREQ,
+  formatFreq,
+  frequencyToSlider,
+  sliderToFrequency
+} from "../lib/frequency";
+import {
+  ChannelSettings,
+  IdentStep,
+  MAX_BEAT,
+  STEREO_MODES,
+  StereoMode,
+  StereoSettings
+} from "../lib/stereo";
+import { WAVEFORMS, WAVEFORM_ICONS } from "../lib/waveforms";
+
+const MODE_LABELS: Record<StereoMode, string> = {
+  off: "Mono",
+  split: "L / R",
+  binaural: "Binaural"
+};
+
+const IDENT_LABELS: Record<IdentStep, string> = {
+  left: "Left only",
+  right: "Right only",
+  both: "Both"
+};
+
+interface StereoPanelProps {
+  stereo: StereoSettings;
+  onChange: (stereo: StereoSettings) => void;
+  isPlaying: boolean;
+  /** Step the identification sequence is on, or null when it isn't running. */
+  identStep: IdentStep | null;
+  /** Starts, or restarts, the left / right / both sequence. */
+  onIdentify: () => void;
+}
+
+export default function StereoPanel({
+  stereo,
+  onChange,
+  isPlaying,
+  identStep,
+  onIdentify
+}: StereoPanelProps) {
+  const update = (patch: Partial<StereoSettings>) => onChange({ ...stereo, ...patch });
+  const updateChannel = (side: "left" | "right", patch: Partial<ChannelSettings>) =>
+    update({ [side]: { ...stereo[side], ...patch } });
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  const sliderRow = (label: string, display: string, input: ReactNode) => (
+    <label className="grid grid-cols-[3.5rem_minmax(0,1fr)_4rem] items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      {input}
+      <span className="text-right font-mono text-[11px] text-white/80">{display}</span>
+    </label>
+  );
+
+  const channelCard = (side: "left" | "right") => {
+    const channel = stereo[side];
+    const name = side === "left" ? "Left" : "Right";
+    return (
+      <div key={side} className="space-y-2 rounded-lg border border-white/[0.04] bg-white/[0.02] p-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-mono text-xs text-tone">{name}</span>
+          <div className="flex gap-1">
+            {WAVEFORMS.map((w) => (
+              <button
+                key={w}
+                title={w}
+                onClick={() => updateChannel(side, { waveform: w })}
+                className={`rounded-md border px-2 py-0.5 font-mono text-[11px] transition-all ${
+                  channel.waveform === w
+                    ? "border-accent/50 bg-accent/10 text-accent"
+                    : "border-white/[0.06] text-muted hover:text-white/80"
+                }`}
+              >
+                {WAVEFORM_ICONS[w]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {sliderRow(
+          "Freq",
+          formatFreq(channel.frequency),
+          <input
+            aria-label={`${name} frequency`}
+            type="range"
+            min={0}
+            max={100}
+            step={0.1}
+            value={frequencyToSlider(channel.frequency)}
+            onChange={(e) =>
+              updateChannel(side, { frequency: sliderToFrequency(Number(e.target.value)) })
+            }
+            className="accent-secondary h-2 w-full"
+          />
+        )}
+        {sliderRow(
+          "Level",
+          `${Math.round(channel.level * 100)}%`,
+          <input
+            aria-label={`${name} level`}
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={channel.level}
+            onChange={(e) => updateChannel(side, { level: Number(e.target.value) })}
+            className="accent-tone thumb-inside h-2 w-full"
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Stereo
+        </span>
+        <div className="flex gap-1">
+          {STEREO_MODES.map((mode) => (
+            <button key={mode} onClick={() => update({ mode })} className={chipClass(stereo.mode === mode)}>
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stereo.mode === "off" && (
+        <p className="mt-3 text-xs text-muted/60">
+          Give each channel its own tone, or pick binaural for a beat between the ears.
+        </p>
+      )}
+
+      {stereo.mode === "split" && (
+        <div className="mt-3 space-y-3">{(["left", "right"] as const).map(channelCard)}</div>
+      )}
+
+      {stereo.mode === "binaural" && (
+        <div className="mt-3 space-y-2">
+          {sliderRow(
+            "Carrier",
+            formatFreq(stereo.carrier),
+            <input
+              aria-label="Carrier frequency"
+              type="range"
+              min={0}
+              max={100}
+              step={0.1}
+              value={frequencyToSlider(stereo.carrier)}
+              onChange={(e) => update({ carrier: sliderToFrequency(Number(e.target.value)) })}
+              className="accent-secondary h-2 w-full"
+            />
+          )}
+          {sliderRow(
+            "Beat",
+            `${stereo.beat.toFixed(1)} Hz`,
+            <input
+              aria-label="Beat frequency"
+              type="range"
+              min={0}
+              max={MAX_BEAT}
+              step={0.1}
+              value={stereo.beat}
+              onChange={(e) => update({ beat: Number(e.target.value) })}
+              className="h-2 w-full"
+            />
+          )}
+          <p className="font-mono text-[10px] text-muted/50">
+            L {formatFreq(Math.max(MIN_FREQ, stereo.carrier - stereo.beat / 2))} · R{" "}
+            {formatFreq(Math.min(MAX_FREQ, stereo.carrier + stereo.beat / 2))} · headphones only
+          </p>
+        </div>
+      )}
+
+      {stereo.mode !== "off" && (
+        <div className="mt-3 flex flex-wrap items-center gap-1">
+          <button onClick={() => update({ invert: !stereo.invert })} className={chipClass(stereo.invert)}>
+            Invert R
+          </button>
+          <button onClick={() => update({ swap: !stereo.swap })} className={chipClass(stereo.swap)}>
+            Swap L/R
+          </button>
+          <button
+            onClick={onIdentify}
+            disabled={!isPlaying}
+            className={`ml-auto ${chipClass(identStep !== null)} disabled:opacity-40`}
+          >
+            {identStep ? IDENT_LABELS[identStep] : "Identify"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import {
+  MAX_SWEEP_DURATION,
+  MIN_SWEEP_DURATION,
+  MIN_SWEEP_DWELL,
+  SWEEP_CURVES,
+  SWEEP_REPEATS,
+  SweepSettings
+} from "../lib/sweep";
+import { MAX_FREQ, MIN_FREQ } from "../lib/frequency";
+
+const REPEAT_LABELS: Record<SweepSettings["repeat"], string> = {
+  once: "Once",
+  loop: "Loop",
+  pingpong: "Ping-pong"
+};
+
+interface SweepPanelProps {
+  enabled: boolean;
+  settings: SweepSettings;
+  onEnabledChange: (enabled: boolean) => void;
+  onChange: (settings: SweepSettings) => void;
+}
+
+export default function SweepPanel({
+  enabled,
+  settings,
+  onEnabledChange,
+  onChange
+}: SweepPanelProps) {
+  const update = (patch: Partial<SweepSettings>) => onChange({ ...settings, ...patch });
+
+  const numberField = (
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onValue: (value: number) => void
+  ) => (
+    <label className="block">
+      <span className="text-[10px] uppercase tracking-[0.15em] text-muted/70">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onValue(Number(e.target.value))}
+        className="mt-1 w-full rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1.5 font-mono text-xs text-white focus:border-accent/50 focus:outline-none"
+      />
+    </label>
+  );
+
+  const choiceButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      aria-pressed={active}
+      onClick={onClick}
+      className={`rounded-lg border px-2 py-1.5 font-mono text-[11px] capitalize transition-all ${
+        active
+          ? "border-secondary/50 bg-secondary/10 text-secondary"
+          : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Sweep
+        </span>
+        <label className="flex items-center gap-2 font-mono text-[11px] text-muted">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-secondary"
+          />
+          {enabled ? "On" : "Off"}
+        </label>
+      </div>
+
+      <div className={`mt-3 space-y-3 ${enabled ? "" : "opacity-50"}`}>
+        <div className="grid grid-cols-3 gap-2">
+          {numberField("Start Hz", settings.startFreq, MIN_FREQ, MAX_FREQ, 1, (startFreq) =>
+            update({ startFreq })
+          )}
+          {numberField("End Hz", settings.endFreq, MIN_FREQ, MAX_FREQ, 1, (endFreq) =>
+            update({ endFreq })
+          )}
+          {numberField(
+            "Duration s",
+            settings.duration,
+            MIN_SWEEP_DURATION,
+            MAX_SWEEP_DURATION,
+            0.1,
+            (duration) => update({ duration })
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {SWEEP_CURVES.map((curve) =>
+            choiceButton(settings.curve === curve, curve, () => update({ curve }))
+          )}
+        </div>
+
+        {settings.curve === "stepped" &&
+          numberField("Dwell per step s", settings.dwell, MIN_SWEEP_DWELL, settings.duration, 0.01, (dwell) =>
+            update({ dwell })
+          )}
+
+        <div className="grid grid-cols-3 gap-2">
+          {SWEEP_REPEATS.map((repeat) =>
+            choiceButton(settings.repeat === repeat, REPEAT_LABELS[repeat], () =>
+              update({ repeat })
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
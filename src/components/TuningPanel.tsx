@@ -0,0 +1,190 @@
+import { ChangeEvent, FormEvent, useState } from "react";
+import Keyboard from "./Keyboard";
+import { MAX_FREQ, MIN_FREQ } from "../lib/frequency";
+import {
+  MAX_REFERENCE,
+  MIN_REFERENCE,
+  NOTE_NAMES,
+  REFERENCE_PRESETS,
+  TEMPERAMENTS,
+  Tuning,
+  nearestNote,
+  noteName,
+  noteToFrequency,
+  parseNote,
+  parseScala
+} from "../lib/tuning";
+
+const KEYBOARD_OCTAVES = 2;
+const MIN_OCTAVE = 0;
+const MAX_OCTAVE = 8;
+
+interface TuningPanelProps {
+  frequency: number;
+  tuning: Tuning;
+  onFrequencyChange: (frequency: number) => void;
+  onTuningChange: (tuning: Tuning) => void;
+}
+
+export default function TuningPanel({
+  frequency,
+  tuning,
+  onFrequencyChange,
+  onTuningChange
+}: TuningPanelProps) {
+  const [noteText, setNoteText] = useState("");
+  const [octave, setOctave] = useState(4);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<Tuning>) => onTuningChange({ ...tuning, ...patch });
+  const current = nearestNote(frequency, tuning).midi;
+
+  const setNote = (midi: number, cents = 0) => {
+    const freq = noteToFrequency(midi, cents, tuning);
+    if (freq < MIN_FREQ || freq > MAX_FREQ) {
+      setError(`${noteName(midi)} is outside ${MIN_FREQ} Hz – ${MAX_FREQ / 1000} kHz`);
+      return;
+    }
+    setError(null);
+    onFrequencyChange(freq);
+  };
+
+  const submitNote = (e: FormEvent) => {
+    e.preventDefault();
+    const note = parseNote(noteText);
+    if (!note) {
+      setError(`"${noteText}" isn't a note, try e.g. C#3 +15c`);
+      return;
+    }
+    setNote(note.midi, note.cents);
+  };
+
+  const loadScala = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      update({ temperament: "scala", scala: parseScala(await file.text()) });
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : "unreadable"}`);
+    }
+  };
+
+  const chipClass = (selected: boolean) =>
+    `rounded-lg border px-2 py-1 font-mono text-[11px] transition-all ${
+      selected
+        ? "border-accent/50 bg-accent/10 text-accent"
+        : "border-white/[0.06] bg-white/[0.02] text-muted hover:border-white/10 hover:text-white/80"
+    }`;
+
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-muted">
+          Note &amp; Tuning
+        </span>
+        <form onSubmit={submitNote} className="flex items-center gap-2">
+          <input
+            aria-label="Note"
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            placeholder="C#3 +15c"
+            className="w-28 rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-xs text-white placeholder:text-muted/40 focus:border-accent/50 focus:outline-none"
+          />
+          <button type="submit" className={chipClass(false)}>
+            Set
+          </button>
+        </form>
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          aria-label="Octave down"
+          onClick={() => setOctave(Math.max(MIN_OCTAVE, octave - 1))}
+          className={chipClass(false)}
+        >
+          ‹
+        </button>
+        <Keyboard
+          firstMidi={(octave + 1) * 12}
+          octaves={KEYBOARD_OCTAVES}
+          tuning={tuning}
+          active={[current]}
+          onPress={(midi) => setNote(midi)}
+        />
+        <button
+          aria-label="Octave up"
+          onClick={() => setOctave(Math.min(MAX_OCTAVE, octave + 1))}
+          className={chipClass(false)}
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-[10px] uppercase tracking-[0.15em] text-muted/70">A4 =</span>
+        {REFERENCE_PRESETS.map((reference) => (
+          <button
+            key={reference}
+            onClick={() => update({ reference })}
+            className={chipClass(tuning.reference === reference)}
+          >
+            {reference}
+          </button>
+        ))}
+        <input
+          aria-label="Reference pitch"
+          type="number"
+          min={MIN_REFERENCE}
+          max={MAX_REFERENCE}
+          step={0.1}
+          key={tuning.reference}
+          defaultValue={tuning.reference}
+          onBlur={(e) => {
+            const reference = Number(e.target.value);
+            if (reference >= MIN_REFERENCE && reference <= MAX_REFERENCE) update({ reference });
+            else e.target.value = `${tuning.reference}`;
+          }}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          className="w-20 rounded-lg border border-white/[0.06] bg-white/[0.02] px-2 py-1 font-mono text-xs text-white focus:border-accent/50 focus:outline-none"
+        />
+        <span className="font-mono text-[11px] text-muted/70">Hz</span>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {TEMPERAMENTS.filter(({ id }) => id !== "scala" || tuning.scala).map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => update({ temperament: id })}
+            className={chipClass(tuning.temperament === id)}
+          >
+            {label}
+          </button>
+        ))}
+        <label className={`${chipClass(false)} cursor-pointer`}>
+          Load .scl
+          <input type="file" accept=".scl,text/plain" onChange={loadScala} className="hidden" />
+        </label>
+        {tuning.temperament !== "equal" && (
+          <select
+            aria-label="Tonic"
+            value={tuning.tonic}
+            onChange={(e) => update({ tonic: Number(e.target.value) })}
+            className="ml-auto rounded-lg border border-white/[0.06] bg-[#080a14] px-2 py-1 font-mono text-[11px] text-white/80 focus:border-accent/50 focus:outline-none"
+          >
+            {NOTE_NAMES.map((name, index) => (
+              <option key={name} value={index}>
+                on {name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {tuning.temperament === "scala" && tuning.scala?.description && (
+        <p className="mt-2 truncate font-mono text-[10px] text-muted/70">{tuning.scala.description}</p>
+      )}
+      {error && <p className="mt-2 font-mono text-[10px] text-secondary/80">{error}</p>}
+    </div>
+  );
+}
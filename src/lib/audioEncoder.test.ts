@@ -0,0 +1,287 @@
+import { describe, expect, it } from "vitest";
+import { encodeFlac, encodeWav, floatToPcm } from "./audioEncoder";
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const viewOf = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/** Reference CRCs straight from the FLAC format description. */
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  bytes.forEach((byte) => {
+    crc ^= byte;
+    for (let i = 0; i < 8; i += 1) crc = ((crc << 1) ^ (crc & 0x80 ? 0x07 : 0)) & 0xff;
+  });
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  bytes.forEach((byte) => {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i += 1) crc = ((crc << 1) ^ (crc & 0x8000 ? 0x8005 : 0)) & 0xffff;
+  });
+  return crc;
+}
+
+function createReader(bytes: Uint8Array) {
+  let bit = 0;
+  const reader = {
+    get byte() {
+      return bit >> 3;
+    },
+    bits(count: number) {
+      let value = 0;
+      for (let i = 0; i < count; i += 1) {
+        value = value * 2 + ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+        bit += 1;
+      }
+      return value;
+    },
+    signed(count: number) {
+      const value = reader.bits(count);
+      return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+    },
+    unary() {
+      let zeros = 0;
+      while (reader.bits(1) === 0) zeros += 1;
+      return zeros;
+    },
+    align() {
+      bit = Math.ceil(bit / 8) * 8;
+    }
+  };
+  return reader;
+}
+
+interface DecodedFlac {
+  streamInfo: Record<string, number>;
+  channels: number[][];
+  subframeTypes: Set<string>;
+}
+
+/** A small FLAC decoder covering what the encoder writes, checking both CRCs per frame. */
+function decodeFlac(bytes: Uint8Array): DecodedFlac {
+  expect(ascii(bytes, 0, 4)).toBe("fLaC");
+  const reader = createReader(bytes.subarray(4));
+  const last = reader.bits(1);
+  const type = reader.bits(7);
+  const length = reader.bits(24);
+  const streamInfo = {
+    last,
+    type,
+    length,
+    minBlock: reader.bits(16),
+    maxBlock: reader.bits(16),
+    minFrame: reader.bits(24),
+    maxFrame: reader.bits(24),
+    sampleRate: reader.bits(20),
+    channels: reader.bits(3) + 1,
+    bitDepth: reader.bits(5) + 1,
+    totalSamples: reader.bits(36)
+  };
+  reader.bits(128);
+
+  const { bitDepth } = streamInfo;
+  const channels: number[][] = Array.from({ length: streamInfo.channels }, () => []);
+  const subframeTypes = new Set<string>();
+  const frames = bytes.subarray(4 + reader.byte);
+  const frameReader = createReader(frames);
+
+  while (frameReader.byte < frames.length) {
+    const start = frameReader.byte;
+    expect(frameReader.bits(14)).toBe(0x3ffe);
+    frameReader.bits(2);
+    const sizeCode = frameReader.bits(4);
+    frameReader.bits(4);
+    expect(frameReader.bits(4) + 1).toBe(streamInfo.channels);
+    frameReader.bits(4);
+    // Frame number, UTF-8 style.
+    const lead = frameReader.bits(8);
+    let continuation = 0;
+    while (lead & (0x80 >> continuation)) continuation += 1;
+    frameReader.bits(8 * Math.max(0, continuation - 1));
+    expect(sizeCode).toBe(0b0111);
+    const size = frameReader.bits(16) + 1;
+    const headerCrc = crc8(frames.subarray(start, frameReader.byte));
+    expect(frameReader.bits(8)).toBe(headerCrc);
+
+    channels.forEach((samples) => {
+      expect(frameReader.bits(1)).toBe(0);
+      const kind = frameReader.bits(6);
+      expect(frameReader.bits(1)).toBe(0);
+      if (kind === 0) {
+        subframeTypes.add("constant");
+        const value = frameReader.signed(bitDepth);
+        for (let i = 0; i < size; i += 1) samples.push(value);
+        return;
+      }
+      if (kind === 1) {
+        subframeTypes.add("verbatim");
+        for (let i = 0; i < size; i += 1) samples.push(frameReader.signed(bitDepth));
+        return;
+      }
+      expect(kind >= 8 && kind <= 12).toBe(true);
+      const order = kind - 8;
+      subframeTypes.add(`fixed${order}`);
+      const block: number[] = [];
+      for (let i = 0; i < order; i += 1) block.push(frameReader.signed(bitDepth));
+      const method = frameReader.bits(2);
+      const partitionOrder = frameReader.bits(4);
+      for (let p = 0; p < 2 ** partitionOrder; p += 1) {
+        const count = (size >> partitionOrder) - (p === 0 ? order : 0);
+        const parameter = frameReader.bits(method === 0 ? 4 : 5);
+        for (let i = 0; i < count; i += 1) {
+          const folded = frameReader.unary() * 2 ** parameter + frameReader.bits(parameter);
+          const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+          const s = block;
+          const n = s.length;
+          const prediction = [
+            0,
+            s[n - 1],
+            2 * s[n - 1] - s[n - 2],
+            3 * s[n - 1] - 3 * s[n - 2] + s[n - 3],
+            4 * s[n - 1] - 6 * s[n - 2] + 4 * s[n - 3] - s[n - 4]
+          ][order];
+          block.push(prediction + residual);
+        }
+      }
+      samples.push(...block);
+    });
+
+    frameReader.align();
+    const frameCrc = crc16(frames.subarray(start, frameReader.byte));
+    expect(frameReader.bits(16)).toBe(frameCrc);
+  }
+  return { streamInfo, channels, subframeTypes };
+}
+
+const toPcm = (channel: Float32Array, bits: number) =>
+  Array.from(Int32Array.from(channel, (sample) => floatToPcm(sample, bits)));
+
+function sine(length: number, freq: number, amplitude: number, rate = 48000) {
+  return Float32Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * freq * i) / rate)
+  );
+}
+
+describe("encodeWav", () => {
+  const left = Float32Array.from([0, 1, -1, 0.5]);
+  const right = Float32Array.from([-0.5, 0.25, 2, NaN]);
+
+  it("writes 16-bit PCM headers and interleaved samples", () => {
+    const bytes = encodeWav([left, right], 44100, 16);
+    const view = viewOf(bytes);
+
+    expect(ascii(bytes, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(ascii(bytes, 8, 8)).toBe("WAVEfmt ");
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(bytes, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(16);
+    expect(bytes.length).toBe(44 + 16);
+
+    const samples = Array.from({ length: 8 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, -16383, 32767, 8192, -32767, 32767, 16384, 0]);
+  });
+
+  it("packs 24-bit samples as three little-endian bytes", () => {
+    const bytes = encodeWav([left], 48000, 24);
+    const view = viewOf(bytes);
+
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint32(28, true)).toBe(48000 * 3);
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(12);
+    expect(Array.from(bytes.subarray(44))).toEqual([
+      0x00, 0x00, 0x00,
+      0xff, 0xff, 0x7f,
+      0x01, 0x00, 0x80,
+      0x00, 0x00, 0x40
+    ]);
+  });
+
+  it("writes 32-bit float with the extended fmt chunk and fact chunk", () => {
+    const bytes = encodeWav([left, right], 96000, 32);
+    const view = viewOf(bytes);
+
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getUint32(28, true)).toBe(96000 * 8);
+    expect(view.getUint16(32, true)).toBe(8);
+    expect(view.getUint16(34, true)).toBe(32);
+    expect(view.getUint16(36, true)).toBe(0);
+    expect(ascii(bytes, 38, 4)).toBe("fact");
+    expect(view.getUint32(42, true)).toBe(4);
+    expect(view.getUint32(46, true)).toBe(4);
+    expect(ascii(bytes, 50, 4)).toBe("data");
+    expect(view.getUint32(54, true)).toBe(32);
+
+    const samples = Array.from({ length: 8 }, (_, i) => view.getFloat32(58 + i * 4, true));
+    expect(samples).toEqual([0, -0.5, 1, 0.25, -1, 2, 0.5, 0]);
+  });
+
+  it("rejects channels of different lengths", () => {
+    expect(() => encodeWav([left, new Float32Array(3)], 48000, 16)).toThrow(/same length/);
+  });
+});
+
+describe("encodeFlac", () => {
+  it("matches the reference CRC check values", () => {
+    const check = new TextEncoder().encode("123456789");
+    expect(crc8(check)).toBe(0xf4);
+    expect(crc16(check)).toBe(0xfee8);
+  });
+
+  it("writes STREAMINFO for the stream", () => {
+    const channel = sine(10000, 440, 0.5);
+    const { streamInfo } = decodeFlac(encodeFlac([channel, channel], 48000, 16));
+
+    expect(streamInfo).toMatchObject({
+      last: 1,
+      type: 0,
+      length: 34,
+      minBlock: 4096,
+      maxBlock: 4096,
+      sampleRate: 48000,
+      channels: 2,
+      bitDepth: 16,
+      totalSamples: 10000
+    });
+  });
+
+  it("decodes back to the same 16-bit samples through the fixed predictors", () => {
+    const left = sine(10000, 440, 0.5);
+    const right = sine(10000, 1000, 0.25);
+    const { channels, subframeTypes } = decodeFlac(encodeFlac([left, right], 44100, 16));
+
+    expect(channels).toEqual([toPcm(left, 16), toPcm(right, 16)]);
+    expect([...subframeTypes].some((type) => type.startsWith("fixed"))).toBe(true);
+  });
+
+  it("decodes 24-bit noise, silence and odd rates", () => {
+    let seed = 1;
+    const noise = Float32Array.from({ length: 5000 }, () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      return seed / 2 ** 31 - 1;
+    });
+    const silence = new Float32Array(5000);
+    const { streamInfo, channels, subframeTypes } = decodeFlac(
+      encodeFlac([noise, silence], 37800, 24)
+    );
+
+    expect(streamInfo.sampleRate).toBe(37800);
+    expect(channels).toEqual([toPcm(noise, 24), toPcm(silence, 24)]);
+    expect(subframeTypes.has("constant")).toBe(true);
+  });
+});
@@ -0,0 +1,396 @@
+export type ExportFormat = "wav16" | "wav24" | "wav32f" | "flac16" | "flac24";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: "wav16", label: "WAV 16-bit", extension: "wav", mime: "audio/wav" },
+  { id: "wav24", label: "WAV 24-bit", extension: "wav", mime: "audio/wav" },
+  { id: "wav32f", label: "WAV 32-bit float", extension: "wav", mime: "audio/wav" },
+  { id: "flac16", label: "FLAC 16-bit", extension: "flac", mime: "audio/flac" },
+  { id: "flac24", label: "FLAC 24-bit", extension: "flac", mime: "audio/flac" }
+];
+
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_MAX_FIXED_ORDER = 4;
+
+// Frame header codes for common rates; anything else defers to STREAMINFO.
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011
+};
+
+/** Scales a float sample in [-1, 1] to a signed integer of `bits` width. */
+export function floatToPcm(sample: number, bits: number) {
+  const max = Math.pow(2, bits - 1) - 1;
+  const clamped = Math.max(-1, Math.min(1, Number.isFinite(sample) ? sample : 0));
+  return Math.round(clamped * max);
+}
+
+function assertChannels(channels: Float32Array[]) {
+  if (channels.length === 0) {
+    throw new Error("At least one channel is required");
+  }
+  const length = channels[0].length;
+  if (channels.some((channel) => channel.length !== length)) {
+    throw new Error("All channels must have the same length");
+  }
+  return length;
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i += 1) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes planar channel data as a RIFF/WAVE file. 16 and 24-bit output is
+ * integer PCM; 32-bit output is IEEE float and carries the `fact` chunk.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: 16 | 24 | 32
+) {
+  const frames = assertChannels(channels);
+  const isFloat = bitDepth === 32;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = bytesPerSample * channels.length;
+  const dataSize = frames * blockAlign;
+  const fmtSize = isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const headerSize = 12 + 8 + fmtSize + factSize + 8;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeAscii(view, 8, "WAVE");
+
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, isFloat ? 3 : 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  let offset = 36;
+  if (isFloat) {
+    view.setUint16(offset, 0, true);
+    offset += 2;
+    writeAscii(view, offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += 12;
+  }
+
+  writeAscii(view, offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  for (let i = 0; i < frames; i += 1) {
+    for (const channel of channels) {
+      const sample = channel[i];
+      if (isFloat) {
+        view.setFloat32(offset, Number.isFinite(sample) ? sample : 0, true);
+      } else if (bitDepth === 16) {
+        view.setInt16(offset, floatToPcm(sample, 16), true);
+      } else {
+        const value = floatToPcm(sample, 24);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Uint8Array(buffer);
+}
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private byteLength = 0;
+  private current = 0;
+  private currentBits = 0;
+
+  get length() {
+    return this.byteLength;
+  }
+
+  private pushByte(byte: number) {
+    if (this.byteLength === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.byteLength] = byte;
+    this.byteLength += 1;
+  }
+
+  /** Writes the low `count` bits of a non-negative `value`, MSB first. */
+  writeBits(value: number, count: number) {
+    if (count > 24) {
+      this.writeBits(Math.floor(value / 0x1000000), count - 24);
+      this.writeBits(value % 0x1000000, 24);
+      return;
+    }
+    for (let i = count - 1; i >= 0; i -= 1) {
+      this.current = (this.current << 1) | ((value >>> i) & 1);
+      this.currentBits += 1;
+      if (this.currentBits === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.currentBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, count: number) {
+    this.writeBits(value < 0 ? value + Math.pow(2, count) : value, count);
+  }
+
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i += 1) {
+      this.writeBits(0, 1);
+    }
+    this.writeBits(1, 1);
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    for (let i = 0; i < bytes.length; i += 1) {
+      this.writeBits(bytes[i], 8);
+    }
+  }
+
+  alignToByte() {
+    if (this.currentBits > 0) {
+      this.writeBits(0, 8 - this.currentBits);
+    }
+  }
+
+  slice(start: number, end = this.byteLength) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toBytes() {
+    this.alignToByte();
+    return this.bytes.slice(0, this.byteLength);
+  }
+}
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i += 1) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i += 1) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** FLAC's extended UTF-8 style coding of the frame number. */
+function utf8Number(value: number) {
+  if (value < 0x80) return [value];
+  const bytes: number[] = [];
+  let remaining = value;
+  let payloadBits = 6;
+  while (remaining >= Math.pow(2, payloadBits)) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+    payloadBits -= 1;
+  }
+  const count = bytes.length + 1;
+  const prefix = (0xff << (8 - count)) & 0xff;
+  bytes.unshift(prefix | remaining);
+  return bytes;
+}
+
+function fixedResidual(samples: Int32Array, order: number) {
+  const residual = new Float64Array(samples.length - order);
+  for (let i = order; i < samples.length; i += 1) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1:
+        prediction = s[i - 1];
+        break;
+      case 2:
+        prediction = 2 * s[i - 1] - s[i - 2];
+        break;
+      case 3:
+        prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+        break;
+      case 4:
+        prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+        break;
+    }
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+}
+
+function foldResidual(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function riceBits(residual: Float64Array, parameter: number) {
+  let bits = 0;
+  const divisor = Math.pow(2, parameter);
+  for (const value of residual) {
+    bits += Math.floor(foldResidual(value) / divisor) + 1 + parameter;
+  }
+  return bits;
+}
+
+function bestRiceParameter(residual: Float64Array) {
+  let best = { parameter: 0, bits: riceBits(residual, 0) };
+  for (let parameter = 1; parameter <= 30; parameter += 1) {
+    const bits = riceBits(residual, parameter);
+    if (bits >= best.bits) break;
+    best = { parameter, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number) {
+  if (samples.every((sample) => sample === samples[0])) {
+    writer.writeBits(0, 8);
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let best: { order: number; residual: Float64Array; parameter: number; bits: number } | null =
+    null;
+  const maxOrder = Math.min(FLAC_MAX_FIXED_ORDER, samples.length - 1);
+  for (let order = 0; order <= maxOrder; order += 1) {
+    const residual = fixedResidual(samples, order);
+    const { parameter, bits } = bestRiceParameter(residual);
+    const total = bits + order * bitDepth;
+    if (!best || total < best.bits) {
+      best = { order, residual, parameter, bits: total };
+    }
+  }
+
+  if (!best || best.bits >= samples.length * bitDepth) {
+    writer.writeBits(0b00000010, 8);
+    samples.forEach((sample) => writer.writeSigned(sample, bitDepth));
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (best.order << 1), 8);
+  for (let i = 0; i < best.order; i += 1) {
+    writer.writeSigned(samples[i], bitDepth);
+  }
+
+  // Single partition; the 5-bit parameter variant is only needed above 14.
+  const wideParameter = best.parameter > 14;
+  writer.writeBits(wideParameter ? 1 : 0, 2);
+  writer.writeBits(0, 4);
+  writer.writeBits(best.parameter, wideParameter ? 5 : 4);
+  const divisor = Math.pow(2, best.parameter);
+  for (const value of best.residual) {
+    const folded = foldResidual(value);
+    writer.writeUnary(Math.floor(folded / divisor));
+    writer.writeBits(folded % divisor, best.parameter);
+  }
+}
+
+/**
+ * Encodes planar channel data as a FLAC stream using fixed linear predictors
+ * and Rice-coded residuals. Channels are stored independently and the MD5
+ * signature in STREAMINFO is left blank, which decoders treat as unknown.
+ */
+export function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: 16 | 24
+) {
+  const frames = assertChannels(channels);
+  if (channels.length > 8) {
+    throw new Error("FLAC supports at most 8 channels");
+  }
+
+  const writer = new BitWriter();
+  writer.writeBytes([0x66, 0x4c, 0x61, 0x43]);
+
+  // STREAMINFO, flagged as the last metadata block.
+  const blockSize = Math.max(16, Math.min(FLAC_BLOCK_SIZE, frames));
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(0, 24);
+  writer.writeBits(0, 24);
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(channels.length - 1, 3);
+  writer.writeBits(bitDepth - 1, 5);
+  writer.writeBits(frames, 36);
+  writer.writeBytes(new Uint8Array(16));
+
+  const pcm = channels.map((channel) => Int32Array.from(channel, (s) => floatToPcm(s, bitDepth)));
+
+  for (let frame = 0, start = 0; start < frames; frame += 1, start += FLAC_BLOCK_SIZE) {
+    const size = Math.min(FLAC_BLOCK_SIZE, frames - start);
+    const frameStart = writer.length;
+
+    writer.writeBits(0xfff8, 16);
+    writer.writeBits(0b0111, 4);
+    writer.writeBits(FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4);
+    writer.writeBits(channels.length - 1, 4);
+    writer.writeBits(bitDepth === 16 ? 0b100 : 0b110, 3);
+    writer.writeBits(0, 1);
+    writer.writeBytes(utf8Number(frame));
+    writer.writeBits(size - 1, 16);
+    writer.writeBits(crc8(writer.slice(frameStart)), 8);
+
+    pcm.forEach((samples) => writeSubframe(writer, samples.subarray(start, start + size), bitDepth));
+
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.slice(frameStart)), 16);
+  }
+
+  return writer.toBytes();
+}
+
+export function encodeAudio(
+  channels: Float32Array[],
+  sampleRate: number,
+  format: ExportFormat
+) {
+  switch (format) {
+    case "wav16":
+      return encodeWav(channels, sampleRate, 16);
+    case "wav24":
+      return encodeWav(channels, sampleRate, 24);
+    case "wav32f":
+      return encodeWav(channels, sampleRate, 32);
+    case "flac16":
+      return encodeFlac(channels, sampleRate, 16);
+    case "flac24":
+      return encodeFlac(channels, sampleRate, 24);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Sizes `canvas` to its CSS box at the device pixel ratio, then calls `draw`
+ * with a context scaled to CSS pixels. Skips canvases that aren't laid out.
+ */
+export function drawOnCanvas(
+  canvas: HTMLCanvasElement,
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void
+) {
+  const rect = canvas.getBoundingClientRect();
+  if (!rect.width || !rect.height) return;
+
+  const dpr = window.devicePixelRatio || 1;
+  const displayWidth = Math.floor(rect.width * dpr);
+  const displayHeight = Math.floor(rect.height * dpr);
+
+  if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
+    canvas.width = displayWidth;
+    canvas.height = displayHeight;
+  }
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  draw(ctx, rect.width, rect.height);
+}
+
+/** How often a live plot's text description can change. */
+const LABEL_INTERVAL_MS = 1000;
+
+/**
+ * Returns a per-frame hook that keeps a live plot's accessible name in step
+ * with what it shows. `describe` only runs when the name is due to refresh.
+ */
+export function createPlotLabeller() {
+  let labelledAt = -Infinity;
+  return (canvas: HTMLCanvasElement, now: number, describe: () => string) => {
+    if (now - labelledAt < LABEL_INTERVAL_MS) return;
+    labelledAt = now;
+    const label = describe();
+    if (canvas.getAttribute("aria-label") !== label) canvas.setAttribute("aria-label", label);
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ANALYSIS_SIZE,
+  MIN_ANALYSIS_SIZE,
+  analysisSize,
+  analyzeDistortion,
+  ratioToDb
+} from "./distortion";
+
+const RATE = 48000;
+
+/** Sum of sines, each given as [frequency, amplitude]. */
+function tones(length: number, parts: [number, number][]) {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i += 1) {
+    samples[i] = parts.reduce(
+      (sum, [freq, amplitude]) => sum + amplitude * Math.sin((2 * Math.PI * freq * i) / RATE),
+      0
+    );
+  }
+  return samples;
+}
+
+/** Seeded uniform white noise in ±`peak`, so results don't vary between runs. */
+function addNoise(samples: Float32Array, peak: number) {
+  let seed = 12345;
+  for (let i = 0; i < samples.length; i += 1) {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    samples[i] += (seed / 2 ** 32 - 0.5) * 2 * peak;
+  }
+  return samples;
+}
+
+describe("analyzeDistortion", () => {
+  it("reports a known third harmonic as THD", () => {
+    const result = analyzeDistortion(tones(MAX_ANALYSIS_SIZE, [[1000, 0.5], [3000, 0.005]]), RATE);
+
+    expect(result.fundamental.frequency).toBeCloseTo(1000, 0);
+    expect(result.fundamental.dbfs).toBeCloseTo(ratioToDb(0.5), 1);
+    expect(result.thd).toBeCloseTo(0.01, 4);
+    expect(result.harmonics[1]).toMatchObject({ order: 3 });
+    expect(result.harmonics[1].dbc).toBeCloseTo(-40, 1);
+    expect(result.harmonics[0].dbc).toBeLessThan(-120);
+  });
+
+  it("measures white noise against the fundamental", () => {
+    const amplitude = 0.5;
+    const peak = 0.01;
+    const samples = addNoise(tones(MAX_ANALYSIS_SIZE, [[1000, amplitude]]), peak);
+    const result = analyzeDistortion(samples, RATE);
+
+    // Uniform noise has a mean square of peak² / 3, spread evenly up to Nyquist.
+    const noisePower = ((peak * peak) / 3) * ((20000 - 20) / (RATE / 2));
+    const expectedSnr = 10 * Math.log10((amplitude * amplitude) / 2 / noisePower);
+    expect(result.snr).toBeCloseTo(expectedSnr, 0);
+    expect(result.thd).toBeLessThan(result.thdN);
+    expect(ratioToDb(result.thdN)).toBeCloseTo(-expectedSnr, 0);
+  });
+
+  it("uses the fundamental hint over the loudest tone", () => {
+    const samples = tones(MAX_ANALYSIS_SIZE, [[200, 0.5], [3000, 0.05]]);
+
+    expect(analyzeDistortion(samples, RATE).fundamental.frequency).toBeCloseTo(200, 0);
+    const hinted = analyzeDistortion(samples, RATE, { fundamental: 3001 });
+    expect(hinted.fundamental.frequency).toBeCloseTo(3000, 0);
+    expect(hinted.fundamental.dbfs).toBeCloseTo(ratioToDb(0.05), 1);
+  });
+
+  it("analyses the largest power of two that fits a short input", () => {
+    expect(analysisSize(10000)).toBe(8192);
+    expect(analysisSize(MAX_ANALYSIS_SIZE * 3)).toBe(MAX_ANALYSIS_SIZE);
+
+    const result = analyzeDistortion(tones(10000, [[1000, 0.5], [2000, 0.05]]), RATE);
+    expect(result.fundamental.frequency).toBeCloseTo(1000, 0);
+    expect(result.thd).toBeCloseTo(0.1, 3);
+  });
+
+  it("rejects input shorter than the smallest analysis", () => {
+    expect(analysisSize(MIN_ANALYSIS_SIZE - 1)).toBe(0);
+    expect(() => analyzeDistortion(new Float32Array(MIN_ANALYSIS_SIZE - 1), RATE)).toThrow(
+      /at least/
+    );
+  });
+});
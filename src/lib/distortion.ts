@@ -0,0 +1,156 @@
+import { blackmanHarris, fft } from "./fft";
+
+export const MAX_HARMONIC = 10;
+export const MAX_ANALYSIS_SIZE = 65536;
+export const MIN_ANALYSIS_SIZE = 4096;
+
+/** Bins either side of a tone that belong to the window's main lobe. */
+const LOBE_BINS = 5;
+const DEFAULT_BAND: [number, number] = [20, 20000];
+
+export interface HarmonicLevel {
+  order: number;
+  frequency: number;
+  /** Level relative to full scale. */
+  dbfs: number;
+  /** Level relative to the fundamental. */
+  dbc: number;
+}
+
+export interface DistortionResult {
+  fundamental: { frequency: number; dbfs: number };
+  harmonics: HarmonicLevel[];
+  /** Ratios relative to the fundamental; use ratioToDb / percent to display. */
+  thd: number;
+  thdN: number;
+  /** Fundamental over residual noise with the harmonics removed, in dB. */
+  snr: number;
+  noiseDbfs: number;
+}
+
+export interface DistortionOptions {
+  /** Expected fundamental; found as the loudest bin when omitted. */
+  fundamental?: number;
+  /** Measurement bandwidth in Hz. */
+  band?: [number, number];
+}
+
+export function ratioToDb(ratio: number) {
+  return 20 * Math.log10(Math.max(ratio, 1e-12));
+}
+
+function powerToDbfs(power: number) {
+  // A full-scale sine has a mean square of 1/2.
+  return 10 * Math.log10(Math.max(power * 2, 1e-24));
+}
+
+/** Largest power of two that fits in `length`, capped at MAX_ANALYSIS_SIZE. */
+export function analysisSize(length: number) {
+  let size = MIN_ANALYSIS_SIZE;
+  while (size * 2 <= Math.min(length, MAX_ANALYSIS_SIZE)) size *= 2;
+  return length >= MIN_ANALYSIS_SIZE ? size : 0;
+}
+
+/**
+ * Measures harmonic distortion and noise of a sine in `samples`. The power
+ * of each tone is summed over its window main lobe; everything else inside
+ * the band counts as noise. Harmonics above the band or Nyquist are skipped.
+ */
+export function analyzeDistortion(
+  samples: Float32Array,
+  sampleRate: number,
+  options: DistortionOptions = {}
+): DistortionResult {
+  const size = analysisSize(samples.length);
+  if (!size) {
+    throw new Error(`Need at least ${MIN_ANALYSIS_SIZE} samples to analyse`);
+  }
+
+  const window = blackmanHarris(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let windowPower = 0;
+  for (let i = 0; i < size; i += 1) {
+    re[i] = samples[i] * window[i];
+    windowPower += window[i] * window[i];
+  }
+  fft(re, im);
+
+  // One-sided power per bin, scaled so a band sum is the tone's mean square.
+  const half = size / 2;
+  const power = new Float64Array(half);
+  for (let k = 1; k < half; k += 1) {
+    power[k] = (2 * (re[k] * re[k] + im[k] * im[k])) / (size * windowPower);
+  }
+
+  const binWidth = sampleRate / size;
+  const [low, high] = options.band ?? DEFAULT_BAND;
+  const firstBin = Math.max(1, Math.ceil(low / binWidth));
+  const lastBin = Math.min(half - 1, Math.floor(high / binWidth));
+
+  let peakBin = firstBin;
+  if (options.fundamental) {
+    const expected = Math.round(options.fundamental / binWidth);
+    const from = Math.max(firstBin, expected - LOBE_BINS);
+    const to = Math.min(lastBin, expected + LOBE_BINS);
+    peakBin = from;
+    for (let k = from; k <= to; k += 1) if (power[k] > power[peakBin]) peakBin = k;
+  } else {
+    for (let k = firstBin; k <= lastBin; k += 1) if (power[k] > power[peakBin]) peakBin = k;
+  }
+
+  // Power-weighted centroid of the main lobe gives a sub-bin frequency.
+  let weighted = 0;
+  let lobePower = 0;
+  for (let k = Math.max(1, peakBin - 2); k <= Math.min(half - 1, peakBin + 2); k += 1) {
+    weighted += k * power[k];
+    lobePower += power[k];
+  }
+  const fundamentalFreq = lobePower > 0 ? (weighted / lobePower) * binWidth : peakBin * binWidth;
+
+  const claimed = new Uint8Array(half);
+  const bandPower = (freq: number) => {
+    const centre = Math.round(freq / binWidth);
+    let sum = 0;
+    for (let k = centre - LOBE_BINS; k <= centre + LOBE_BINS; k += 1) {
+      if (k < firstBin || k > lastBin || claimed[k]) continue;
+      sum += power[k];
+      claimed[k] = 1;
+    }
+    return sum;
+  };
+
+  const fundamentalPower = bandPower(fundamentalFreq);
+  if (fundamentalPower <= 0) {
+    throw new Error("No fundamental found in the measurement band");
+  }
+
+  const harmonics: HarmonicLevel[] = [];
+  let harmonicPower = 0;
+  for (let order = 2; order <= MAX_HARMONIC; order += 1) {
+    const frequency = fundamentalFreq * order;
+    if (frequency > high || frequency >= sampleRate / 2) break;
+    const level = bandPower(frequency);
+    harmonicPower += level;
+    harmonics.push({
+      order,
+      frequency,
+      dbfs: powerToDbfs(level),
+      dbc: 10 * Math.log10(Math.max(level / fundamentalPower, 1e-24))
+    });
+  }
+
+  let noisePower = 0;
+  for (let k = firstBin; k <= lastBin; k += 1) {
+    if (!claimed[k]) noisePower += power[k];
+  }
+
+  return {
+    fundamental: { frequency: fundamentalFreq, dbfs: powerToDbfs(fundamentalPower) },
+    harmonics,
+    thd: Math.sqrt(harmonicPower / fundamentalPower),
+    thdN: Math.sqrt((harmonicPower + noisePower) / fundamentalPower),
+    snr: 10 * Math.log10(fundamentalPower / Math.max(noisePower, 1e-24)),
+    noiseDbfs: powerToDbfs(noisePower)
+  };
+}
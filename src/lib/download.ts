@@ -0,0 +1,9 @@
+/** Saves `bytes` through a temporary object URL and link click. */
+export function downloadBytes(bytes: BlobPart, mime: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([bytes], { type: mime }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
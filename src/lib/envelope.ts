@@ -0,0 +1,182 @@
+export interface EnvelopeSettings {
+  /** Seconds from silence to peak. */
+  attack: number;
+  /** Seconds from peak down to the sustain level. */
+  decay: number;
+  /** Sustain level as a fraction of peak, 0–1. */
+  sustain: number;
+  /** Seconds from the sustain level to silence after gate-off. */
+  release: number;
+}
+
+export type BurstMode = "off" | "gated" | "cycles";
+
+export interface BurstSettings {
+  mode: BurstMode;
+  onMs: number;
+  offMs: number;
+  /** Whole oscillator periods per burst in "cycles" mode. */
+  cycles: number;
+}
+
+export const BURST_MODES: BurstMode[] = ["off", "gated", "cycles"];
+
+export const DEFAULT_ENVELOPE: EnvelopeSettings = {
+  attack: 0.01,
+  decay: 0,
+  sustain: 1,
+  release: 0.02
+};
+
+export const DEFAULT_BURST: BurstSettings = {
+  mode: "off",
+  onMs: 100,
+  offMs: 400,
+  cycles: 10
+};
+
+const MIN_BURST_SECONDS = 0.001;
+
+/** Envelope level `elapsed` seconds after gate-on, before any release. */
+export function envelopeValueAt(envelope: EnvelopeSettings, peak: number, elapsed: number) {
+  if (elapsed < envelope.attack) {
+    return peak * (elapsed / envelope.attack);
+  }
+  const sustainLevel = peak * envelope.sustain;
+  const intoDecay = elapsed - envelope.attack;
+  if (intoDecay < envelope.decay) {
+    return peak + (sustainLevel - peak) * (intoDecay / envelope.decay);
+  }
+  return sustainLevel;
+}
+
+/**
+ * Writes one attack/decay/sustain/release note onto `param`. A gate-off that
+ * lands mid-attack or mid-decay ramps to the exact level the envelope had
+ * reached, so short bursts stay sample-accurate. Pass `offTime` null to hold
+ * the sustain level indefinitely.
+ */
+export function scheduleNote(
+  param: AudioParam,
+  envelope: EnvelopeSettings,
+  peak: number,
+  onTime: number,
+  offTime: number | null
+) {
+  const end = offTime ?? Infinity;
+  const attackEnd = onTime + envelope.attack;
+  const decayEnd = attackEnd + envelope.decay;
+  const levelAt = (time: number) => envelopeValueAt(envelope, peak, time - onTime);
+
+  if (envelope.attack > 0) {
+    param.setValueAtTime(0, onTime);
+    const segmentEnd = Math.min(attackEnd, end);
+    param.linearRampToValueAtTime(levelAt(segmentEnd), segmentEnd);
+  } else {
+    param.setValueAtTime(peak, onTime);
+  }
+
+  if (end > attackEnd) {
+    if (envelope.decay > 0) {
+      const segmentEnd = Math.min(decayEnd, end);
+      param.linearRampToValueAtTime(levelAt(segmentEnd), segmentEnd);
+    } else {
+      param.setValueAtTime(peak * envelope.sustain, attackEnd);
+    }
+  }
+
+  if (offTime === null) return;
+  param.setValueAtTime(levelAt(offTime), offTime);
+  if (envelope.release > 0) {
+    param.linearRampToValueAtTime(0, offTime + envelope.release);
+  } else {
+    param.setValueAtTime(0, offTime);
+  }
+}
+
+/**
+ * Freezes `param` at its current level from `time` on, discarding anything
+ * scheduled later. Falls back to reading `value` where cancelAndHoldAtTime
+ * is missing (Firefox).
+ */
+export function holdParam(param: AudioParam, time: number) {
+  if (typeof param.cancelAndHoldAtTime === "function") {
+    param.cancelAndHoldAtTime(time);
+    return;
+  }
+  const value = param.value;
+  param.cancelScheduledValues(time);
+  param.setValueAtTime(value, time);
+}
+
+/** Holds `param` where it is and ramps it out. Returns when silence is reached. */
+export function releaseNote(param: AudioParam, envelope: EnvelopeSettings, time: number) {
+  holdParam(param, time);
+  if (envelope.release > 0) {
+    param.linearRampToValueAtTime(0, time + envelope.release);
+  } else {
+    param.setValueAtTime(0, time);
+  }
+  return time + envelope.release;
+}
+
+/** Gate-on length of one burst in seconds. */
+export function burstOnDuration(burst: BurstSettings, frequency: number) {
+  if (burst.mode === "cycles") {
+    return Math.max(1, Math.round(burst.cycles)) / frequency;
+  }
+  return Math.max(MIN_BURST_SECONDS, burst.onMs / 1000);
+}
+
+/**
+ * Gate-off length of one burst. Cycle bursts round it to whole periods so
+ * every burst starts on the same oscillator phase.
+ */
+export function burstOffDuration(burst: BurstSettings, frequency: number) {
+  const off = Math.max(0, burst.offMs / 1000);
+  if (burst.mode === "cycles") {
+    return Math.round(off * frequency) / frequency;
+  }
+  return off;
+}
+
+/** First time at or after `time` where an oscillator started at `origin` is at phase 0. */
+export function alignToPeriod(time: number, origin: number, frequency: number) {
+  const periods = Math.ceil((time - origin) * frequency - 1e-9);
+  return origin + Math.max(0, periods) / frequency;
+}
+
+/**
+ * Schedules bursts from `cursor` until `untilTime` is covered and returns the
+ * start of the next unscheduled burst. Release is clipped to the gap so one
+ * burst's tail never overlaps the next attack.
+ */
+export function scheduleBursts(
+  param: AudioParam,
+  burst: BurstSettings,
+  envelope: EnvelopeSettings,
+  peak: number,
+  frequency: number,
+  cursor: number,
+  untilTime: number
+) {
+  const on = burstOnDuration(burst, frequency);
+  const off = burstOffDuration(burst, frequency);
+  const clipped = { ...envelope, release: Math.min(envelope.release, off) };
+
+  let time = cursor;
+  while (time < untilTime) {
+    scheduleNote(param, clipped, peak, time, time + on);
+    time += on + off;
+  }
+  return time;
+}
+
+/** Whether the burst gate is open `elapsed` seconds after bursts began. */
+export function burstGateAt(burst: BurstSettings, frequency: number, elapsed: number) {
+  if (burst.mode === "off") return true;
+  const on = burstOnDuration(burst, frequency);
+  const period = on + burstOffDuration(burst, frequency);
+  if (elapsed < 0) return false;
+  return elapsed % period < on;
+}
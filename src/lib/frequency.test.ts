@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_FREQ,
+  MIN_FREQ,
+  formatFreq,
+  frequencyToNoteLabel,
+  frequencyToSlider,
+  sliderToFrequency
+} from "./frequency";
+import { DEFAULT_TUNING } from "./tuning";
+
+describe("sliderToFrequency", () => {
+  it("spans the range logarithmically", () => {
+    expect(sliderToFrequency(0)).toBeCloseTo(MIN_FREQ);
+    expect(sliderToFrequency(100)).toBeCloseTo(MAX_FREQ);
+    expect(sliderToFrequency(50)).toBeCloseTo(Math.sqrt(MIN_FREQ * MAX_FREQ));
+  });
+
+  it("is undone by frequencyToSlider", () => {
+    [MIN_FREQ, 440, 1000, 12345, MAX_FREQ].forEach((freq) => {
+      expect(sliderToFrequency(frequencyToSlider(freq))).toBeCloseTo(freq, 6);
+    });
+  });
+});
+
+describe("frequencyToNoteLabel", () => {
+  it("names exact notes", () => {
+    expect(frequencyToNoteLabel(440)).toBe("A4 (0c)");
+    expect(frequencyToNoteLabel(261.6256)).toBe("C4 (0c)");
+  });
+
+  it("shows the offset from the nearest note in cents", () => {
+    expect(frequencyToNoteLabel(440 * Math.pow(2, 12 / 1200))).toBe("A4 (+12c)");
+    expect(frequencyToNoteLabel(440 * Math.pow(2, -30 / 1200))).toBe("A4 (-30c)");
+  });
+
+  it("uses the tuning reference", () => {
+    expect(frequencyToNoteLabel(432, { ...DEFAULT_TUNING, reference: 432 })).toBe("A4 (0c)");
+  });
+});
+
+describe("formatFreq", () => {
+  it("shows whole hertz below 1 kHz", () => {
+    expect(formatFreq(440)).toBe("440 Hz");
+    expect(formatFreq(999.4)).toBe("999 Hz");
+  });
+
+  it("switches to kilohertz from 1 kHz", () => {
+    expect(formatFreq(1000)).toBe("1.00 kHz");
+    expect(formatFreq(12345)).toBe("12.35 kHz");
+  });
+});
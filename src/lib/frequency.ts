@@ -0,0 +1,76 @@
+import { DEFAULT_TUNING, Tuning, nearestNote, noteName } from "./tuning";
+
+export const MIN_FREQ = 10;
+export const MAX_FREQ = 25000;
+
+export function clampFrequency(freq: number) {
+  if (!Number.isFinite(freq)) return MIN_FREQ;
+  return Math.min(MAX_FREQ, Math.max(MIN_FREQ, freq));
+}
+
+export function sliderToFrequency(value: number) {
+  const ratio = value / 100;
+  return MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, ratio);
+}
+
+export function frequencyToSlider(freq: number) {
+  return (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * 100;
+}
+
+export function frequencyToNoteLabel(freq: number, tuning: Tuning = DEFAULT_TUNING) {
+  const { midi, cents } = nearestNote(freq, tuning);
+  const rounded = Math.round(cents);
+  const centsSign = rounded > 0 ? `+${rounded}` : `${rounded}`;
+  return `${noteName(midi)} (${centsSign}c)`;
+}
+
+/** The note label worded for screen readers, e.g. "A4, 12 cents sharp". */
+export function spokenNoteLabel(freq: number, tuning: Tuning = DEFAULT_TUNING) {
+  const { midi, cents } = nearestNote(freq, tuning);
+  const rounded = Math.round(cents);
+  if (rounded === 0) return noteName(midi);
+  const size = Math.abs(rounded);
+  return `${noteName(midi)}, ${size} ${size === 1 ? "cent" : "cents"} ${rounded > 0 ? "sharp" : "flat"}`;
+}
+
+export function formatFreq(freq: number) {
+  return freq >= 1000
+    ? `${(freq / 1000).toFixed(2)} kHz`
+    : `${Math.round(freq)} Hz`;
+}
+
+export type NudgeStep = "hz" | "cent" | "semitone" | "octave";
+
+const NUDGE_CENTS: Record<Exclude<NudgeStep, "hz">, number> = {
+  cent: 1,
+  semitone: 100,
+  octave: 1200
+};
+
+export function nudgeFrequency(freq: number, step: NudgeStep, direction: 1 | -1) {
+  if (step === "hz") return freq + direction;
+  return freq * Math.pow(2, (direction * NUDGE_CENTS[step]) / 1200);
+}
+
+/**
+ * Reads "997", "1k", "1.5 kHz", "440hz" or "2e3 Hz". Returns null when the
+ * text isn't a frequency; range checks are left to frequencyError.
+ */
+export function parseFrequency(text: string) {
+  const match = text
+    .trim()
+    .replace(/,/g, "")
+    .match(/^(\d+(?:\.\d*)?|\.\d+)(e[+-]?\d+)?\s*(k|khz|hz)?$/i);
+  if (!match) return null;
+  const value = Number(`${match[1]}${match[2] ?? ""}`);
+  const unit = match[3]?.toLowerCase();
+  return unit === "k" || unit === "khz" ? value * 1000 : value;
+}
+
+export function frequencyError(freq: number) {
+  if (!Number.isFinite(freq)) return "Not a number";
+  if (freq < MIN_FREQ || freq > MAX_FREQ) {
+    return `Must be between ${MIN_FREQ} Hz and ${MAX_FREQ / 1000} kHz`;
+  }
+  return null;
+}
@@ -0,0 +1,156 @@
+import { ClassicWaveform } from "./waveforms";
+
+/**
+ * Harmonic description of a custom waveform. Index 0 is the fundamental;
+ * amplitudes are 0–1 and phases are in degrees relative to a sine.
+ */
+export interface HarmonicSpectrum {
+  amplitudes: number[];
+  phases: number[];
+}
+
+export type HarmonicPreset = "sine" | "sawtooth" | "odd" | "inverse-square" | "pulse";
+
+export const HARMONIC_COUNTS = [32, 64];
+
+export const HARMONIC_PRESETS: { id: HarmonicPreset; label: string }[] = [
+  { id: "sine", label: "Sine" },
+  { id: "sawtooth", label: "1/n" },
+  { id: "odd", label: "Odd only" },
+  { id: "inverse-square", label: "1/n²" },
+  { id: "pulse", label: "Pulse" }
+];
+
+const STORAGE_KEY = "audio-generator.custom-waves";
+
+/**
+ * Builds a spectrum from a preset. `duty` (0–1) only applies to the pulse,
+ * whose cosine series is stored as ±90° phases.
+ */
+export function presetSpectrum(preset: HarmonicPreset, count: number, duty = 0.25): HarmonicSpectrum {
+  const coefficients = Array.from({ length: count }, (_, i) => {
+    const n = i + 1;
+    switch (preset) {
+      case "sine":
+        return n === 1 ? 1 : 0;
+      case "sawtooth":
+        return 1 / n;
+      case "odd":
+        return n % 2 === 1 ? 1 / n : 0;
+      case "inverse-square":
+        return 1 / (n * n);
+      case "pulse":
+        return Math.sin(n * Math.PI * duty) / n;
+    }
+  });
+
+  const peak = Math.max(...coefficients.map(Math.abs)) || 1;
+  return {
+    amplitudes: coefficients.map((c) => Math.abs(c) / peak),
+    phases: coefficients.map((c) => (preset === "pulse" ? (c < 0 ? -90 : 90) : 0))
+  };
+}
+
+/**
+ * Fourier series of the browser's square, triangle and sawtooth shapes cut
+ * off after `count` harmonics. Odd-harmonic signs of the triangle and even
+ * ones of the sawtooth become 180° phases.
+ */
+export function classicSpectrum(waveform: ClassicWaveform, count: number): HarmonicSpectrum {
+  const terms = Array.from({ length: count }, (_, i) => {
+    const n = i + 1;
+    switch (waveform) {
+      case "square":
+        return n % 2 === 1 ? 1 / n : 0;
+      case "triangle":
+        return n % 2 === 1 ? (n % 4 === 1 ? 1 : -1) / (n * n) : 0;
+      case "sawtooth":
+        return (n % 2 === 1 ? 1 : -1) / n;
+    }
+  });
+  return {
+    amplitudes: terms.map(Math.abs),
+    phases: terms.map((term) => (term < 0 ? 180 : 0))
+  };
+}
+
+/** Grows or truncates a spectrum to `count` harmonics. */
+export function resizeSpectrum(spectrum: HarmonicSpectrum, count: number): HarmonicSpectrum {
+  return {
+    amplitudes: Array.from({ length: count }, (_, i) => spectrum.amplitudes[i] ?? 0),
+    phases: Array.from({ length: count }, (_, i) => spectrum.phases[i] ?? 0)
+  };
+}
+
+/**
+ * Converts to the cosine (`real`) and sine (`imag`) terms expected by
+ * `createPeriodicWave`, with index 0 as the DC term.
+ */
+export function periodicCoefficients(spectrum: HarmonicSpectrum) {
+  const length = spectrum.amplitudes.length + 1;
+  const real = new Float32Array(length);
+  const imag = new Float32Array(length);
+  spectrum.amplitudes.forEach((amplitude, i) => {
+    const phase = ((spectrum.phases[i] ?? 0) * Math.PI) / 180;
+    real[i + 1] = amplitude * Math.sin(phase);
+    imag[i + 1] = amplitude * Math.cos(phase);
+  });
+  return { real, imag };
+}
+
+/**
+ * Samples one period of the waveform, normalised to a peak of 1 the same way
+ * the browser normalises a PeriodicWave.
+ */
+export function renderPeriod(spectrum: HarmonicSpectrum, points: number) {
+  const { real, imag } = periodicCoefficients(spectrum);
+  const samples = new Float32Array(points);
+  let peak = 0;
+  for (let i = 0; i < points; i += 1) {
+    const angle = (2 * Math.PI * i) / points;
+    let value = 0;
+    for (let n = 1; n < real.length; n += 1) {
+      value += real[n] * Math.cos(n * angle) + imag[n] * Math.sin(n * angle);
+    }
+    samples[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < points; i += 1) samples[i] /= peak;
+  }
+  return samples;
+}
+
+export function createPeriodicWave(context: BaseAudioContext, spectrum: HarmonicSpectrum) {
+  const { real, imag } = periodicCoefficients(spectrum);
+  return context.createPeriodicWave(real, imag);
+}
+
+function isSpectrum(value: unknown): value is HarmonicSpectrum {
+  if (!value || typeof value !== "object") return false;
+  const { amplitudes, phases } = value as Partial<HarmonicSpectrum>;
+  return (
+    Array.isArray(amplitudes) &&
+    Array.isArray(phases) &&
+    amplitudes.every((a) => typeof a === "number") &&
+    phases.every((p) => typeof p === "number")
+  );
+}
+
+export function loadSavedSpectra(): Record<string, HarmonicSpectrum> {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    if (!parsed || typeof parsed !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, HarmonicSpectrum] =>
+        isSpectrum(entry[1])
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function storeSavedSpectra(spectra: Record<string, HarmonicSpectrum>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(spectra));
+}
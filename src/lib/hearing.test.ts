@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TEST_DB, Staircase, createStaircase, respondStaircase } from "./hearing";
+
+function run(listener: (state: Staircase) => boolean) {
+  let state = createStaircase();
+  while (!state.done) state = respondStaircase(state, listener(state));
+  return state;
+}
+
+describe("respondStaircase", () => {
+  it("finds the level heard twice on the way up", () => {
+    const state = run(({ level }) => level >= -62);
+
+    expect(state.threshold).toBe(-60);
+    expect(state.noResponse).toBe(false);
+  });
+
+  it("reports no response after two misses at the cap", () => {
+    const state = run(() => false);
+
+    expect(state.threshold).toBeNull();
+    expect(state.noResponse).toBe(true);
+    expect(state.level).toBe(MAX_TEST_DB);
+  });
+
+  it("gives no threshold when the trials run out first", () => {
+    // Hears every descending step but never the same level twice on the way up.
+    const state = run(({ ascending, hits, level }) => !ascending || !(level in hits));
+
+    expect(state.trials).toBe(24);
+    expect(state.threshold).toBeNull();
+    expect(state.noResponse).toBe(false);
+  });
+});
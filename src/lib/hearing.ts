@@ -0,0 +1,276 @@
+export type Ear = "left" | "right";
+export type HearingMode = "audiogram" | "cutoff";
+
+/** Standard audiometric frequencies, starting at 1 kHz as audiometers do. */
+export const AUDIOMETRIC_FREQUENCIES = [1000, 2000, 3000, 4000, 6000, 8000, 500, 250];
+export const EARS: Ear[] = ["left", "right"];
+
+/**
+ * Hard cap on test levels. Thresholds are in dBFS, relative to the sound
+ * card's full scale, not dB HL; this only stays safe if the system volume is
+ * set low before starting.
+ */
+export const MAX_TEST_DB = -20;
+export const MIN_TEST_DB = -100;
+const START_DB = -50;
+const STEP_DOWN_DB = 10;
+const STEP_UP_DB = 5;
+/** Hughson–Westlake: a threshold is the lowest level heard twice on the way up. */
+const ASCENDING_HITS = 2;
+const MAX_TRIALS = 24;
+
+/** Fixed level for the upper cutoff search. */
+export const CUTOFF_LEVEL_DB = -30;
+const CUTOFF_START_FREQ = 8000;
+const CUTOFF_MIN_FREQ = 1000;
+/** First step in octaves, halved at every reversal. */
+const CUTOFF_START_STEP = 1;
+const CUTOFF_MIN_STEP = 1 / 24;
+
+export interface Staircase {
+  level: number;
+  /** Whether `level` was reached by stepping up after a miss. */
+  ascending: boolean;
+  /** Ascending hits per level. */
+  hits: Record<number, number>;
+  /** Misses at the level cap; two of them end the search with no response. */
+  missesAtCap: number;
+  trials: number;
+  done: boolean;
+  /** Null until a level is heard twice on the way up, and when the search ends without one. */
+  threshold: number | null;
+  /** The search ended on misses at the cap rather than running out of trials. */
+  noResponse: boolean;
+}
+
+export interface CutoffSearch {
+  frequency: number;
+  /** Step in octaves. */
+  step: number;
+  lastHeard: boolean | null;
+  highestHeard: number | null;
+  maxFrequency: number;
+  done: boolean;
+}
+
+export interface Threshold {
+  ear: Ear;
+  frequency: number;
+  /** dBFS, or null when no threshold was found. */
+  level: number | null;
+  /** Nothing was heard at the cap; a null level without this is inconclusive. */
+  noResponse?: boolean;
+}
+
+export interface Cutoff {
+  ear: Ear;
+  /** Highest frequency heard, or null if not even the lowest was. */
+  frequency: number | null;
+}
+
+export interface HearingResult {
+  id: string;
+  createdAt: number;
+  mode: HearingMode;
+  thresholds: Threshold[];
+  cutoffs: Cutoff[];
+}
+
+export interface HearingSession {
+  mode: HearingMode;
+  ears: Ear[];
+  earIndex: number;
+  frequencyIndex: number;
+  staircase: Staircase;
+  cutoff: CutoffSearch;
+  thresholds: Threshold[];
+  cutoffs: Cutoff[];
+}
+
+/** What to play next. */
+export interface Trial {
+  ear: Ear;
+  frequency: number;
+  level: number;
+}
+
+const STORAGE_KEY = "audio-generator.hearing-results";
+
+function clampLevel(level: number) {
+  return Math.min(MAX_TEST_DB, Math.max(MIN_TEST_DB, level));
+}
+
+export function createStaircase(): Staircase {
+  return {
+    level: START_DB,
+    ascending: false,
+    hits: {},
+    missesAtCap: 0,
+    trials: 0,
+    done: false,
+    threshold: null,
+    noResponse: false
+  };
+}
+
+/** Down 10 dB after a hit, up 5 dB after a miss. */
+export function respondStaircase(state: Staircase, heard: boolean): Staircase {
+  const trials = state.trials + 1;
+  if (heard) {
+    const hits = { ...state.hits };
+    if (state.ascending) hits[state.level] = (hits[state.level] ?? 0) + 1;
+    if ((hits[state.level] ?? 0) >= ASCENDING_HITS) {
+      return { ...state, hits, trials, done: true, threshold: state.level };
+    }
+    // At the floor there is nowhere lower to go, so count the hit as ascending.
+    const atFloor = state.level <= MIN_TEST_DB;
+    return {
+      ...state,
+      hits,
+      trials,
+      level: clampLevel(state.level - STEP_DOWN_DB),
+      ascending: atFloor,
+      // Running out of trials without meeting the criterion leaves no threshold.
+      done: trials >= MAX_TRIALS
+    };
+  }
+
+  const missesAtCap = state.missesAtCap + (state.level >= MAX_TEST_DB ? 1 : 0);
+  const noResponse = missesAtCap >= 2;
+  return {
+    ...state,
+    trials,
+    missesAtCap,
+    level: clampLevel(state.level + STEP_UP_DB),
+    ascending: true,
+    done: noResponse || trials >= MAX_TRIALS,
+    noResponse
+  };
+}
+
+export function createCutoffSearch(maxFrequency: number): CutoffSearch {
+  return {
+    frequency: Math.min(CUTOFF_START_FREQ, maxFrequency),
+    step: CUTOFF_START_STEP,
+    lastHeard: null,
+    highestHeard: null,
+    maxFrequency,
+    done: false
+  };
+}
+
+/** Up after a hit, down after a miss; the step halves whenever the answer flips. */
+export function respondCutoff(state: CutoffSearch, heard: boolean): CutoffSearch {
+  const reversed = state.lastHeard !== null && state.lastHeard !== heard;
+  const step = reversed ? state.step / 2 : state.step;
+  const highestHeard = heard
+    ? Math.max(state.highestHeard ?? 0, state.frequency)
+    : state.highestHeard;
+  const next = state.frequency * Math.pow(2, heard ? step : -step);
+  const frequency = Math.min(state.maxFrequency, Math.max(CUTOFF_MIN_FREQ, next));
+
+  const pinned = frequency === state.frequency;
+  return {
+    ...state,
+    frequency,
+    step,
+    lastHeard: heard,
+    highestHeard,
+    done: step < CUTOFF_MIN_STEP || pinned
+  };
+}
+
+export function createSession(mode: HearingMode, ears: Ear[], maxFrequency: number): HearingSession {
+  return {
+    mode,
+    ears,
+    earIndex: 0,
+    frequencyIndex: 0,
+    staircase: createStaircase(),
+    cutoff: createCutoffSearch(maxFrequency),
+    thresholds: [],
+    cutoffs: []
+  };
+}
+
+export function currentTrial(session: HearingSession): Trial | null {
+  const ear = session.ears[session.earIndex];
+  if (!ear) return null;
+  if (session.mode === "cutoff") {
+    return { ear, frequency: session.cutoff.frequency, level: CUTOFF_LEVEL_DB };
+  }
+  return {
+    ear,
+    frequency: AUDIOMETRIC_FREQUENCIES[session.frequencyIndex],
+    level: session.staircase.level
+  };
+}
+
+/** Applies a response and moves on to the next frequency or ear when a search finishes. */
+export function respondSession(session: HearingSession, heard: boolean): HearingSession {
+  const ear = session.ears[session.earIndex];
+  if (!ear) return session;
+
+  if (session.mode === "cutoff") {
+    const cutoff = respondCutoff(session.cutoff, heard);
+    if (!cutoff.done) return { ...session, cutoff };
+    return {
+      ...session,
+      earIndex: session.earIndex + 1,
+      cutoff: createCutoffSearch(cutoff.maxFrequency),
+      cutoffs: [...session.cutoffs, { ear, frequency: cutoff.highestHeard }]
+    };
+  }
+
+  const staircase = respondStaircase(session.staircase, heard);
+  if (!staircase.done) return { ...session, staircase };
+
+  const thresholds = [
+    ...session.thresholds,
+    {
+      ear,
+      frequency: AUDIOMETRIC_FREQUENCIES[session.frequencyIndex],
+      level: staircase.threshold,
+      noResponse: staircase.noResponse
+    }
+  ];
+  const lastFrequency = session.frequencyIndex >= AUDIOMETRIC_FREQUENCIES.length - 1;
+  return {
+    ...session,
+    earIndex: lastFrequency ? session.earIndex + 1 : session.earIndex,
+    frequencyIndex: lastFrequency ? 0 : session.frequencyIndex + 1,
+    staircase: createStaircase(),
+    thresholds
+  };
+}
+
+/** Searches finished so far out of the session total. */
+export function sessionProgress(session: HearingSession) {
+  const perEar = session.mode === "cutoff" ? 1 : AUDIOMETRIC_FREQUENCIES.length;
+  const done = session.mode === "cutoff" ? session.cutoffs.length : session.thresholds.length;
+  return { done, total: perEar * session.ears.length };
+}
+
+function isResult(value: unknown): value is HearingResult {
+  if (!value || typeof value !== "object") return false;
+  const result = value as Partial<HearingResult>;
+  return (
+    typeof result.id === "string" &&
+    typeof result.createdAt === "number" &&
+    Array.isArray(result.thresholds) &&
+    Array.isArray(result.cutoffs)
+  );
+}
+
+export function loadResults(): HearingResult[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isResult) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeResults(results: HearingResult[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(results));
+}
@@ -0,0 +1,86 @@
+import { ratioToDb } from "./distortion";
+
+/** Bottom of the output level control. */
+export const MIN_LEVEL_DB = -60;
+export const MIN_CEILING_DB = -40;
+/** Matches the old fixed 0.2 volume cap, so a fresh start is no louder than before. */
+export const DEFAULT_CEILING_DB = -14;
+/** Readings below this show as silence. */
+export const METER_FLOOR_DB = -100;
+/** Time constant for level changes, short enough to feel immediate without clicking. */
+export const LEVEL_TIME_CONSTANT = 0.015;
+
+/** Tone played while calibrating: a 1 kHz sine at −20 dBFS. */
+export const REFERENCE_FREQUENCY = 1000;
+export const REFERENCE_LEVEL_DB = -20;
+
+export interface LevelReading {
+  /** Largest absolute sample, in dBFS. */
+  peak: number;
+  /** RMS in dBFS, where a full-scale sine reads −3. */
+  rms: number;
+}
+
+/** Links a measured RMS level to the SPL a meter read at the listening position. */
+export interface Calibration {
+  rms: number;
+  spl: number;
+  calibratedAt: number;
+}
+
+const STORAGE_KEY = "audio-generator.spl-calibration";
+const CEILING_KEY = "audio-generator.ceiling";
+
+export function dbToGain(db: number) {
+  return Math.pow(10, db / 20);
+}
+
+export function formatDb(db: number, unit = "dBFS") {
+  if (db <= METER_FLOOR_DB) return `−∞ ${unit}`;
+  return `${db.toFixed(1).replace("-", "−")} ${unit}`;
+}
+
+export function measureLevel(samples: Float32Array): LevelReading {
+  let peak = 0;
+  let power = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    power += value * value;
+  }
+  return {
+    peak: Math.max(METER_FLOOR_DB, ratioToDb(peak)),
+    rms: Math.max(METER_FLOOR_DB, ratioToDb(Math.sqrt(power / Math.max(1, samples.length))))
+  };
+}
+
+/** SPL implied by an RMS reading; only meaningful while the playback chain is unchanged. */
+export function estimateSpl(rms: number, calibration: Calibration) {
+  return rms + (calibration.spl - calibration.rms);
+}
+
+export function loadCalibration(): Calibration | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return parsed && Number.isFinite(parsed.rms) && Number.isFinite(parsed.spl) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeCalibration(calibration: Calibration | null) {
+  if (calibration) localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+/** The saved limiter ceiling in dB, so a lowered ceiling survives a reload. */
+export function loadCeiling() {
+  const stored = Number(localStorage.getItem(CEILING_KEY) ?? Number.NaN);
+  return Number.isFinite(stored) && stored >= MIN_CEILING_DB && stored <= 0
+    ? stored
+    : DEFAULT_CEILING_DB;
+}
+
+export function storeCeiling(db: number) {
+  localStorage.setItem(CEILING_KEY, String(db));
+}
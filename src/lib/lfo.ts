@@ -0,0 +1,93 @@
+export type LfoTarget = "off" | "frequency" | "amplitude" | "ring";
+export type LfoShape = "sine" | "triangle" | "square" | "hold";
+export type DepthUnit = "cents" | "hz";
+
+export interface LfoSettings {
+  target: LfoTarget;
+  shape: LfoShape;
+  /** Modulation rate in Hz. */
+  rate: number;
+  /** Frequency deviation, in `unit`, for the frequency target. */
+  deviation: number;
+  unit: DepthUnit;
+  /** Tremolo depth for the amplitude target, 0–1. */
+  depth: number;
+}
+
+export const LFO_TARGETS: LfoTarget[] = ["off", "frequency", "amplitude", "ring"];
+export const LFO_SHAPES: LfoShape[] = ["sine", "triangle", "square", "hold"];
+export const DEPTH_UNITS: DepthUnit[] = ["cents", "hz"];
+
+export const MIN_LFO_RATE = 0.01;
+export const MAX_LFO_RATE = 5000;
+export const MAX_DEVIATION: Record<DepthUnit, number> = { cents: 2400, hz: 5000 };
+
+/** Below this rate sidebands sit too close to the carrier to resolve. */
+const MIN_SIDEBAND_RATE = 10;
+const MAX_SIDEBANDS = 8;
+
+export const DEFAULT_LFO: LfoSettings = {
+  target: "off",
+  shape: "sine",
+  rate: 5,
+  deviation: 50,
+  unit: "cents",
+  depth: 0.5
+};
+
+/** Maps a 0–100 slider position onto the LFO rate range, logarithmically. */
+export function sliderToRate(value: number) {
+  return MIN_LFO_RATE * Math.pow(MAX_LFO_RATE / MIN_LFO_RATE, value / 100);
+}
+
+export function rateToSlider(rate: number) {
+  return (Math.log(rate / MIN_LFO_RATE) / Math.log(MAX_LFO_RATE / MIN_LFO_RATE)) * 100;
+}
+
+/**
+ * Resting gain of the modulation stage. Tremolo swings between 1 − depth and
+ * 1, so it rests halfway; ring modulation rests at zero so only the product
+ * of carrier and LFO is heard.
+ */
+export function modulatorLevel(lfo: LfoSettings) {
+  if (lfo.target === "amplitude") return 1 - lfo.depth / 2;
+  if (lfo.target === "ring") return 0;
+  return 1;
+}
+
+/** Peak value the LFO adds to its target parameter. */
+export function lfoAmount(lfo: LfoSettings) {
+  if (lfo.target === "frequency") return lfo.deviation;
+  if (lfo.target === "amplitude") return lfo.depth / 2;
+  if (lfo.target === "ring") return 1;
+  return 0;
+}
+
+/** Peak frequency deviation in Hz for a carrier at `carrier`. */
+export function deviationHz(lfo: LfoSettings, carrier: number) {
+  return lfo.unit === "hz" ? lfo.deviation : carrier * (Math.pow(2, lfo.deviation / 1200) - 1);
+}
+
+/**
+ * Frequencies of the sidebands a sine LFO produces around `carrier`. AM and
+ * ring modulation give one pair; FM gives pairs out to Carson's bandwidth,
+ * β + 1 of them. Empty when the rate is too low for the sidebands to resolve.
+ */
+export function sidebandFrequencies(carrier: number, lfo: LfoSettings, maxFreq: number) {
+  if (lfo.target === "off" || lfo.rate < MIN_SIDEBAND_RATE) return [];
+
+  let pairs = 1;
+  if (lfo.target === "frequency") {
+    const index = deviationHz(lfo, carrier) / lfo.rate;
+    pairs = Math.min(MAX_SIDEBANDS, Math.ceil(index) + 1);
+  }
+
+  const frequencies: number[] = [];
+  for (let n = 1; n <= pairs; n += 1) {
+    const lower = Math.abs(carrier - n * lfo.rate);
+    const upper = carrier + n * lfo.rate;
+    if (lower > 0) frequencies.push(lower);
+    if (upper <= maxFreq) frequencies.push(upper);
+  }
+  return frequencies;
+}
@@ -0,0 +1,190 @@
+import { fft, nextPowerOfTwo, realToComplex } from "./fft";
+import { MAX_FREQ, MIN_FREQ } from "./frequency";
+import { fillNoise } from "./noise";
+
+export type Stimulus = "sweep" | "pink";
+
+export interface ResponseTrace {
+  id: string;
+  name: string;
+  createdAt: number;
+  stimulus: Stimulus;
+  frequencies: number[];
+  /** Magnitude in dB, normalised to 0 dB across 200 Hz–2 kHz. */
+  magnitudes: number[];
+  /** Phase in degrees relative to the impulse peak, wrapped to ±180. */
+  phases: number[];
+}
+
+export const RESPONSE_POINTS = 240;
+
+const SWEEP_START = 20;
+const SWEEP_END = 20000;
+const EDGE_FADE_SECONDS = 0.01;
+const REGULARISATION = 1e-5;
+const IR_PRE_SECONDS = 0.002;
+const IR_WINDOW_SECONDS = 0.17;
+const SMOOTHING_OCTAVES = 1 / 12;
+const NORMALISE_BAND: [number, number] = [200, 2000];
+const STORAGE_KEY = "audio-generator.response-traces";
+
+function applyEdgeFades(samples: Float32Array, sampleRate: number) {
+  const fade = Math.min(samples.length / 2, Math.round(EDGE_FADE_SECONDS * sampleRate));
+  for (let i = 0; i < fade; i += 1) {
+    const gain = 0.5 - 0.5 * Math.cos((Math.PI * i) / fade);
+    samples[i] *= gain;
+    samples[samples.length - 1 - i] *= gain;
+  }
+}
+
+/**
+ * Builds the test signal at peak `level`: an exponential sine sweep from
+ * 20 Hz to 20 kHz (or to Nyquist), or pink noise.
+ */
+export function createStimulus(
+  stimulus: Stimulus,
+  sampleRate: number,
+  duration: number,
+  level: number
+) {
+  const length = Math.max(1, Math.round(duration * sampleRate));
+  const samples = new Float32Array(length);
+
+  if (stimulus === "sweep") {
+    const end = Math.min(SWEEP_END, sampleRate / 2 - 1);
+    const rate = Math.log(end / SWEEP_START);
+    for (let i = 0; i < length; i += 1) {
+      const t = i / sampleRate;
+      const phase = ((2 * Math.PI * SWEEP_START * duration) / rate) * (Math.exp((t * rate) / duration) - 1);
+      samples[i] = Math.sin(phase);
+    }
+  } else {
+    fillNoise(samples, "pink");
+  }
+
+  applyEdgeFades(samples, sampleRate);
+  for (let i = 0; i < length; i += 1) samples[i] *= level;
+  return samples;
+}
+
+/**
+ * Deconvolves the recording by the stimulus with a regularised spectral
+ * division, giving the impulse response of the playback/capture chain.
+ */
+export function impulseResponse(stimulus: Float32Array, recording: Float32Array) {
+  const size = nextPowerOfTwo(stimulus.length + recording.length);
+  const s = realToComplex(stimulus, size);
+  const r = realToComplex(recording, size);
+  fft(s.re, s.im);
+  fft(r.re, r.im);
+
+  let maxPower = 0;
+  for (let i = 0; i < size; i += 1) {
+    maxPower = Math.max(maxPower, s.re[i] * s.re[i] + s.im[i] * s.im[i]);
+  }
+  const epsilon = maxPower * REGULARISATION;
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i += 1) {
+    const power = s.re[i] * s.re[i] + s.im[i] * s.im[i] + epsilon;
+    re[i] = (r.re[i] * s.re[i] + r.im[i] * s.im[i]) / power;
+    im[i] = (r.im[i] * s.re[i] - r.re[i] * s.im[i]) / power;
+  }
+  fft(re, im, true);
+  return re;
+}
+
+function wrapDegrees(degrees: number) {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Windows the impulse response around its main peak, which strips the
+ * playback latency, and reduces its spectrum to fractional-octave smoothed
+ * points on the log frequency axis.
+ */
+export function responseFromImpulse(ir: Float64Array, sampleRate: number, points = RESPONSE_POINTS) {
+  let peakIndex = 0;
+  for (let i = 1; i < ir.length; i += 1) {
+    if (Math.abs(ir[i]) > Math.abs(ir[peakIndex])) peakIndex = i;
+  }
+
+  const pre = Math.round(IR_PRE_SECONDS * sampleRate);
+  const size = nextPowerOfTwo(IR_WINDOW_SECONDS * sampleRate);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const fadeOut = Math.round(size * 0.25);
+  for (let i = 0; i < size; i += 1) {
+    const source = peakIndex - pre + i;
+    if (source < 0 || source >= ir.length) continue;
+    let gain = 1;
+    if (i < pre) gain = 0.5 - 0.5 * Math.cos((Math.PI * i) / pre);
+    if (i >= size - fadeOut) gain = 0.5 + 0.5 * Math.cos((Math.PI * (i - (size - fadeOut))) / fadeOut);
+    re[i] = ir[source] * gain;
+  }
+  fft(re, im);
+
+  const binWidth = sampleRate / size;
+  const top = Math.min(MAX_FREQ, sampleRate / 2);
+  const frequencies: number[] = [];
+  const magnitudes: number[] = [];
+  const phases: number[] = [];
+  const halfBand = Math.pow(2, SMOOTHING_OCTAVES / 2);
+
+  for (let p = 0; p < points; p += 1) {
+    const freq = MIN_FREQ * Math.pow(top / MIN_FREQ, p / (points - 1));
+    const from = Math.max(1, Math.floor(freq / halfBand / binWidth));
+    const to = Math.min(size / 2, Math.max(from, Math.ceil((freq * halfBand) / binWidth)));
+
+    let power = 0;
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let k = from; k <= to; k += 1) {
+      power += re[k] * re[k] + im[k] * im[k];
+      // Undo the pre-roll delay per bin so the phases add coherently.
+      const shift = (2 * Math.PI * k * pre) / size;
+      sumRe += re[k] * Math.cos(shift) - im[k] * Math.sin(shift);
+      sumIm += re[k] * Math.sin(shift) + im[k] * Math.cos(shift);
+    }
+    const count = to - from + 1;
+    frequencies.push(freq);
+    magnitudes.push(10 * Math.log10(power / count + 1e-20));
+    phases.push(wrapDegrees((Math.atan2(sumIm, sumRe) * 180) / Math.PI));
+  }
+
+  const inBand = magnitudes.filter(
+    (_, i) => frequencies[i] >= NORMALISE_BAND[0] && frequencies[i] <= NORMALISE_BAND[1]
+  );
+  const reference = inBand.length ? inBand.reduce((a, b) => a + b, 0) / inBand.length : 0;
+  return {
+    frequencies,
+    magnitudes: magnitudes.map((db) => db - reference),
+    phases
+  };
+}
+
+function isTrace(value: unknown): value is ResponseTrace {
+  if (!value || typeof value !== "object") return false;
+  const trace = value as Partial<ResponseTrace>;
+  return (
+    typeof trace.id === "string" &&
+    typeof trace.name === "string" &&
+    Array.isArray(trace.frequencies) &&
+    Array.isArray(trace.magnitudes) &&
+    Array.isArray(trace.phases)
+  );
+}
+
+export function loadTraces(): ResponseTrace[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isTrace) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeTraces(traces: ResponseTrace[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(traces));
+}
@@ -0,0 +1,139 @@
+import { Tuning, noteFrequency } from "./tuning";
+import { WAVEFORMS } from "./waveforms";
+
+export type MidiTarget = "volume" | "waveform" | "fineTune";
+
+/** Pitch bend runs from -1 to 1, centred at 0. */
+export type MidiMessage =
+  | { type: "noteOn"; note: number; velocity: number }
+  | { type: "noteOff"; note: number }
+  | { type: "pitchBend"; bend: number }
+  | { type: "controlChange"; controller: number; value: number };
+
+export interface MidiSettings {
+  /** Semitones at full pitch bend. */
+  bendRange: number;
+  /** Controller number driving each target, or null when unmapped. */
+  mapping: Record<MidiTarget, number | null>;
+}
+
+export const MIDI_TARGETS: { id: MidiTarget; label: string }[] = [
+  { id: "volume", label: "Volume" },
+  { id: "waveform", label: "Waveform" },
+  { id: "fineTune", label: "Fine tune" }
+];
+
+export const BEND_RANGES = [1, 2, 7, 12, 24];
+/** Cents either side of centre for the fine tune controller and knob. */
+export const FINE_TUNE_CENTS = 50;
+
+export const DEFAULT_MIDI_SETTINGS: MidiSettings = {
+  bendRange: 2,
+  // CC 7 is the standard channel volume.
+  mapping: { volume: 7, waveform: null, fineTune: null }
+};
+
+const STORAGE_KEY = "audio-generator.midi";
+
+/** Reads a channel voice message, on any channel. Returns null for everything else. */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  if (status === 0x90 && data[2] > 0) return { type: "noteOn", note: data[1], velocity: data[2] };
+  // Many devices send note off as a note on with zero velocity.
+  if (status === 0x80 || status === 0x90) return { type: "noteOff", note: data[1] };
+  if (status === 0xb0) return { type: "controlChange", controller: data[1], value: data[2] };
+  if (status === 0xe0) {
+    const value = (data[2] << 7) + data[1] - 8192;
+    return { type: "pitchBend", bend: value / (value < 0 ? 8192 : 8191) };
+  }
+  return null;
+}
+
+/** Squared, so the velocity range covers about 40 dB as on most synths. */
+export function velocityToGain(velocity: number) {
+  return Math.pow(Math.min(127, Math.max(0, velocity)) / 127, 2);
+}
+
+export function controllerFraction(value: number) {
+  return Math.min(127, Math.max(0, value)) / 127;
+}
+
+export function controllerWaveform(value: number) {
+  return WAVEFORMS[Math.min(WAVEFORMS.length - 1, Math.floor((value / 128) * WAVEFORMS.length))];
+}
+
+/** Controller value 64 is centre; the ends reach ±FINE_TUNE_CENTS. */
+export function controllerFineTune(value: number) {
+  return Math.max(-1, (value - 64) / 63) * FINE_TUNE_CENTS;
+}
+
+/** Frequency of a held note in the current tuning, bent and fine tuned. */
+export function midiNoteFrequency(
+  note: number,
+  tuning: Tuning,
+  bend: number,
+  bendRange: number,
+  fineCents: number
+) {
+  const cents = bend * bendRange * 100 + fineCents;
+  return noteFrequency(note, tuning) * Math.pow(2, cents / 1200);
+}
+
+/**
+ * Listens to every connected MIDI input, reporting input names whenever
+ * devices come and go. Resolves to a function that stops listening.
+ */
+export async function listenToMidi(
+  onMessage: (message: MidiMessage) => void,
+  onInputs: (names: string[]) => void
+) {
+  if (!("requestMIDIAccess" in navigator)) {
+    throw new Error("Web MIDI isn't available in this browser");
+  }
+  const access = await navigator.requestMIDIAccess();
+  const handle = (event: MIDIMessageEvent) => {
+    const message = event.data ? parseMidiMessage(event.data) : null;
+    if (message) onMessage(message);
+  };
+  const attach = () => {
+    const names: string[] = [];
+    access.inputs.forEach((input) => {
+      // Some browsers keep unplugged ports in the map.
+      if (input.state === "disconnected") return;
+      input.onmidimessage = handle;
+      names.push(input.name ?? "MIDI input");
+    });
+    onInputs(names);
+  };
+  attach();
+  access.onstatechange = attach;
+
+  return () => {
+    access.onstatechange = null;
+    access.inputs.forEach((input) => {
+      input.onmidimessage = null;
+    });
+  };
+}
+
+function isController(value: unknown) {
+  return value === null || (Number.isInteger(value) && (value as number) >= 0 && (value as number) < 128);
+}
+
+export function loadMidiSettings(): MidiSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!parsed || !BEND_RANGES.includes(parsed.bendRange)) return DEFAULT_MIDI_SETTINGS;
+    const mapping = { ...DEFAULT_MIDI_SETTINGS.mapping, ...parsed.mapping };
+    return MIDI_TARGETS.every(({ id }) => isController(mapping[id]))
+      ? { bendRange: parsed.bendRange, mapping }
+      : DEFAULT_MIDI_SETTINGS;
+  } catch {
+    return DEFAULT_MIDI_SETTINGS;
+  }
+}
+
+export function storeMidiSettings(settings: MidiSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,62 @@
+export type NoiseType = "white" | "pink" | "brown" | "bandpass";
+export type NoiseColor = Exclude<NoiseType, "bandpass">;
+
+export const NOISE_TYPES: NoiseType[] = ["white", "pink", "brown", "bandpass"];
+
+export const MIN_BANDWIDTH = 1 / 12;
+export const MAX_BANDWIDTH = 4;
+
+/**
+ * Fills `data` with noise of the given color, normalised to a peak of 1.
+ * Pink uses Paul Kellet's refined filter (-3 dB/oct); brown is leaky
+ * integrated white noise (-6 dB/oct).
+ */
+export function fillNoise(data: Float32Array, color: NoiseColor, random = Math.random) {
+  let b0 = 0;
+  let b1 = 0;
+  let b2 = 0;
+  let b3 = 0;
+  let b4 = 0;
+  let b5 = 0;
+  let b6 = 0;
+  let brown = 0;
+
+  for (let i = 0; i < data.length; i += 1) {
+    const white = random() * 2 - 1;
+    switch (color) {
+      case "white":
+        data[i] = white;
+        break;
+      case "pink":
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.969 * b2 + white * 0.153852;
+        b3 = 0.8665 * b3 + white * 0.3104856;
+        b4 = 0.55 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.016898;
+        data[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+        b6 = white * 0.115926;
+        break;
+      case "brown":
+        brown = (brown + 0.02 * white) / 1.02;
+        data[i] = brown;
+        break;
+    }
+  }
+
+  let peak = 0;
+  for (let i = 0; i < data.length; i += 1) {
+    peak = Math.max(peak, Math.abs(data[i]));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < data.length; i += 1) {
+      data[i] /= peak;
+    }
+  }
+}
+
+/** Biquad Q that gives a band-pass of `octaves` width between -3 dB points. */
+export function bandwidthToQ(octaves: number) {
+  const ratio = Math.pow(2, octaves);
+  return Math.sqrt(ratio) / (ratio - 1);
+}
@@ -0,0 +1,118 @@
+/** How the generator's audio context is opened. */
+export interface OutputSettings {
+  /** Output device, or "" for the system default. */
+  deviceId: string;
+  /** Requested rate in Hz, or null to let the browser pick. */
+  sampleRate: number | null;
+  latencyHint: AudioContextLatencyCategory;
+}
+
+export const OUTPUT_SAMPLE_RATES = [44100, 48000, 88200, 96000, 192000];
+
+export const LATENCY_HINTS: { id: AudioContextLatencyCategory; label: string }[] = [
+  { id: "interactive", label: "Interactive" },
+  { id: "balanced", label: "Balanced" },
+  { id: "playback", label: "Playback" }
+];
+
+export const DEFAULT_OUTPUT: OutputSettings = {
+  deviceId: "",
+  sampleRate: null,
+  latencyHint: "interactive"
+};
+
+const STORAGE_KEY = "audio-generator.output";
+
+/** Audio clock falling this much further behind the wall clock counts as a glitch. */
+const GLITCH_SECONDS = 0.02;
+/** Readings further apart than this (a background tab) restart tracking. */
+const MAX_GAP_SECONDS = 1;
+/** The baseline follows slow drift between the audio and system clocks. */
+const REBASE_SECONDS = 10;
+
+/**
+ * Watches the audio clock against the wall clock. The context clock only
+ * advances as buffers are rendered, so a stall leaves it permanently further
+ * behind, while normal buffering only makes it jitter.
+ */
+export interface GlitchDetector {
+  /** Smallest wall-minus-audio offset seen recently, or null before the first reading. */
+  baseline: number | null;
+  windowMin: number;
+  windowStart: number;
+  lastWall: number;
+  glitches: number;
+  /** Total audio time lost, in seconds. */
+  lost: number;
+}
+
+export function createGlitchDetector(): GlitchDetector {
+  return { baseline: null, windowMin: 0, windowStart: 0, lastWall: 0, glitches: 0, lost: 0 };
+}
+
+/**
+ * Feeds one reading of the context clock and `performance.now()`, both in
+ * seconds. `bufferSeconds` is how coarsely the context clock ticks.
+ */
+export function trackClock(
+  detector: GlitchDetector,
+  contextTime: number,
+  wallTime: number,
+  bufferSeconds: number
+) {
+  const offset = wallTime - contextTime;
+  const gap = wallTime - detector.lastWall;
+  detector.lastWall = wallTime;
+  const rebase = () => {
+    detector.baseline = offset;
+    detector.windowMin = offset;
+    detector.windowStart = wallTime;
+  };
+  if (detector.baseline === null || gap > MAX_GAP_SECONDS) {
+    rebase();
+    return;
+  }
+
+  const lag = offset - detector.baseline;
+  if (lag > GLITCH_SECONDS + bufferSeconds) {
+    detector.glitches += 1;
+    detector.lost += lag;
+    rebase();
+    return;
+  }
+  detector.windowMin = Math.min(detector.windowMin, offset);
+  if (wallTime - detector.windowStart > REBASE_SECONDS) {
+    detector.baseline = detector.windowMin;
+    detector.windowMin = offset;
+    detector.windowStart = wallTime;
+  }
+}
+
+/** Frequencies at or above Nyquist alias back down instead of playing. */
+export function aboveNyquist(frequencies: number[], sampleRate: number) {
+  return frequencies.filter((freq) => freq >= sampleRate / 2);
+}
+
+export function formatLatency(seconds: number | undefined) {
+  return seconds === undefined || !Number.isFinite(seconds) ? "n/a" : `${(seconds * 1000).toFixed(1)} ms`;
+}
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!parsed || typeof parsed.deviceId !== "string") return DEFAULT_OUTPUT;
+    return {
+      deviceId: parsed.deviceId,
+      sampleRate: OUTPUT_SAMPLE_RATES.includes(parsed.sampleRate) ? parsed.sampleRate : null,
+      latencyHint: LATENCY_HINTS.some(({ id }) => id === parsed.latencyHint)
+        ? parsed.latencyHint
+        : DEFAULT_OUTPUT.latencyHint
+    };
+  } catch {
+    return DEFAULT_OUTPUT;
+  }
+}
+
+export function storeOutputSettings(output: OutputSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(output));
+}
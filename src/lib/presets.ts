@@ -0,0 +1,385 @@
+import { MAX_VOICES, MAX_VOLUME, Voice } from "../audio/toneGraph";
+import {
+  BURST_MODES,
+  BurstSettings,
+  DEFAULT_BURST,
+  DEFAULT_ENVELOPE,
+  EnvelopeSettings
+} from "./envelope";
+import { MAX_FREQ, MIN_FREQ } from "./frequency";
+import { HarmonicSpectrum, presetSpectrum } from "./harmonics";
+import {
+  DEFAULT_LFO,
+  DEPTH_UNITS,
+  LFO_SHAPES,
+  LFO_TARGETS,
+  LfoSettings,
+  MAX_DEVIATION,
+  MAX_LFO_RATE,
+  MIN_LFO_RATE
+} from "./lfo";
+import { MAX_BANDWIDTH, MIN_BANDWIDTH, NOISE_TYPES } from "./noise";
+import {
+  ChannelSettings,
+  DEFAULT_STEREO,
+  MAX_BEAT,
+  STEREO_MODES,
+  StereoSettings
+} from "./stereo";
+import {
+  DEFAULT_SWEEP,
+  MAX_SWEEP_DURATION,
+  MIN_SWEEP_DURATION,
+  MIN_SWEEP_DWELL,
+  SWEEP_CURVES,
+  SWEEP_REPEATS,
+  SweepSettings
+} from "./sweep";
+import {
+  DEFAULT_TUNING,
+  MAX_REFERENCE,
+  MIN_REFERENCE,
+  ScalaScale,
+  TEMPERAMENTS,
+  Tuning
+} from "./tuning";
+import { WAVEFORMS, Waveform } from "./waveforms";
+
+/** Everything needed to reproduce what the generator plays. */
+export interface GeneratorSettings {
+  frequency: number;
+  volume: number;
+  waveform: Waveform;
+  bandwidth: number;
+  customWave: HarmonicSpectrum;
+  bandLimited: boolean;
+  voices: Voice[];
+  envelope: EnvelopeSettings;
+  burst: BurstSettings;
+  sweepEnabled: boolean;
+  sweep: SweepSettings;
+  tuning: Tuning;
+  stereo: StereoSettings;
+  lfo: LfoSettings;
+}
+
+export interface Preset {
+  name: string;
+  savedAt: number;
+  settings: GeneratorSettings;
+}
+
+/** Bumped whenever GeneratorSettings changes shape. */
+export const PRESET_SCHEMA_VERSION = 4;
+
+export const DEFAULT_SETTINGS: GeneratorSettings = {
+  frequency: 440,
+  volume: 0.08,
+  waveform: "sine",
+  bandwidth: 1 / 3,
+  customWave: presetSpectrum("odd", 32),
+  bandLimited: false,
+  voices: [],
+  envelope: DEFAULT_ENVELOPE,
+  burst: DEFAULT_BURST,
+  sweepEnabled: false,
+  sweep: DEFAULT_SWEEP,
+  tuning: DEFAULT_TUNING,
+  stereo: DEFAULT_STEREO,
+  lfo: DEFAULT_LFO
+};
+
+const STORAGE_KEY = "audio-generator.presets";
+const ALL_WAVEFORMS: Waveform[] = [...WAVEFORMS, "custom", ...NOISE_TYPES];
+const MAX_HARMONICS = 256;
+
+type Fields = Record<string, unknown>;
+
+function fail(path: string, expected: string): never {
+  throw new Error(`${path}: expected ${expected}`);
+}
+
+function record(value: unknown, path: string): Fields {
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "an object");
+  return value as Fields;
+}
+
+function numberIn(value: unknown, path: string, min: number, max: number) {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "a number");
+  if (value < min || value > max) fail(path, `a number from ${min} to ${max}`);
+  return value;
+}
+
+function oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) fail(path, `one of ${options.join(", ")}`);
+  return value as T;
+}
+
+function numberList(value: unknown, path: string, maxLength: number) {
+  if (!Array.isArray(value) || value.length > maxLength) {
+    fail(path, `an array of up to ${maxLength} numbers`);
+  }
+  return value.map((item, i) => numberIn(item, `${path}[${i}]`, -1e6, 1e6));
+}
+
+function readVoice(value: unknown, path: string): Voice {
+  const voice = record(value, path);
+  return {
+    id: numberIn(voice.id, `${path}.id`, 0, Number.MAX_SAFE_INTEGER),
+    frequency: numberIn(voice.frequency, `${path}.frequency`, MIN_FREQ, MAX_FREQ),
+    waveform: oneOf(voice.waveform, `${path}.waveform`, WAVEFORMS),
+    level: numberIn(voice.level, `${path}.level`, 0, 1),
+    detune: numberIn(voice.detune, `${path}.detune`, -1200, 1200),
+    pan: numberIn(voice.pan, `${path}.pan`, -1, 1)
+  };
+}
+
+function readChannel(value: unknown, path: string): ChannelSettings {
+  const channel = record(value, path);
+  return {
+    frequency: numberIn(channel.frequency, `${path}.frequency`, MIN_FREQ, MAX_FREQ),
+    waveform: oneOf(channel.waveform, `${path}.waveform`, WAVEFORMS),
+    level: numberIn(channel.level, `${path}.level`, 0, 1)
+  };
+}
+
+function flag(value: unknown, path: string) {
+  if (typeof value !== "boolean") fail(path, "true or false");
+  return value;
+}
+
+function readScala(value: unknown, path: string): ScalaScale | null {
+  if (value === null) return null;
+  const scala = record(value, path);
+  const degrees = numberList(scala.degrees, `${path}.degrees`, 12);
+  if (degrees.length !== 12) fail(`${path}.degrees`, "12 numbers");
+  return {
+    description: typeof scala.description === "string" ? scala.description : "",
+    degrees,
+    period: numberIn(scala.period, `${path}.period`, 1, 4800)
+  };
+}
+
+/**
+ * Checks untrusted input (a preset file, a URL) against the settings
+ * schema. Missing fields fall back to `base`; wrong ones throw with the
+ * offending path so imports can explain what is broken.
+ */
+export function readSettings(value: unknown, base: GeneratorSettings = DEFAULT_SETTINGS) {
+  const input = record(value, "settings");
+  const has = (key: keyof GeneratorSettings) => input[key] !== undefined;
+
+  const settings: GeneratorSettings = { ...base };
+  if (has("frequency")) {
+    settings.frequency = numberIn(input.frequency, "frequency", MIN_FREQ, MAX_FREQ);
+  }
+  if (has("volume")) settings.volume = numberIn(input.volume, "volume", 0, MAX_VOLUME);
+  if (has("waveform")) settings.waveform = oneOf(input.waveform, "waveform", ALL_WAVEFORMS);
+  if (has("bandwidth")) {
+    settings.bandwidth = numberIn(input.bandwidth, "bandwidth", MIN_BANDWIDTH, MAX_BANDWIDTH);
+  }
+  if (has("customWave")) {
+    const wave = record(input.customWave, "customWave");
+    const amplitudes = numberList(wave.amplitudes, "customWave.amplitudes", MAX_HARMONICS);
+    const phases = numberList(wave.phases, "customWave.phases", MAX_HARMONICS);
+    if (phases.length !== amplitudes.length) {
+      fail("customWave.phases", "one phase per amplitude");
+    }
+    settings.customWave = { amplitudes, phases };
+  }
+  if (has("bandLimited")) settings.bandLimited = flag(input.bandLimited, "bandLimited");
+  if (has("voices")) {
+    if (!Array.isArray(input.voices) || input.voices.length > MAX_VOICES) {
+      fail("voices", `an array of up to ${MAX_VOICES} voices`);
+    }
+    settings.voices = input.voices.map((voice, i) => readVoice(voice, `voices[${i}]`));
+  }
+  if (has("envelope")) {
+    const envelope = record(input.envelope, "envelope");
+    settings.envelope = {
+      attack: numberIn(envelope.attack, "envelope.attack", 0, 10),
+      decay: numberIn(envelope.decay, "envelope.decay", 0, 10),
+      sustain: numberIn(envelope.sustain, "envelope.sustain", 0, 1),
+      release: numberIn(envelope.release, "envelope.release", 0, 10)
+    };
+  }
+  if (has("burst")) {
+    const burst = record(input.burst, "burst");
+    settings.burst = {
+      mode: oneOf(burst.mode, "burst.mode", BURST_MODES),
+      onMs: numberIn(burst.onMs, "burst.onMs", 0, 60000),
+      offMs: numberIn(burst.offMs, "burst.offMs", 0, 60000),
+      cycles: numberIn(burst.cycles, "burst.cycles", 1, 100000)
+    };
+  }
+  if (has("sweepEnabled")) settings.sweepEnabled = flag(input.sweepEnabled, "sweepEnabled");
+  if (has("sweep")) {
+    const sweep = record(input.sweep, "sweep");
+    settings.sweep = {
+      startFreq: numberIn(sweep.startFreq, "sweep.startFreq", MIN_FREQ, MAX_FREQ),
+      endFreq: numberIn(sweep.endFreq, "sweep.endFreq", MIN_FREQ, MAX_FREQ),
+      duration: numberIn(sweep.duration, "sweep.duration", MIN_SWEEP_DURATION, MAX_SWEEP_DURATION),
+      curve: oneOf(sweep.curve, "sweep.curve", SWEEP_CURVES),
+      dwell: numberIn(sweep.dwell, "sweep.dwell", MIN_SWEEP_DWELL, MAX_SWEEP_DURATION),
+      repeat: oneOf(sweep.repeat, "sweep.repeat", SWEEP_REPEATS)
+    };
+  }
+  if (has("tuning")) {
+    const tuning = record(input.tuning, "tuning");
+    settings.tuning = {
+      reference: numberIn(tuning.reference, "tuning.reference", MIN_REFERENCE, MAX_REFERENCE),
+      temperament: oneOf(
+        tuning.temperament,
+        "tuning.temperament",
+        TEMPERAMENTS.map(({ id }) => id)
+      ),
+      tonic: numberIn(tuning.tonic, "tuning.tonic", 0, 11),
+      scala: readScala(tuning.scala ?? null, "tuning.scala")
+    };
+  }
+  if (has("stereo")) {
+    const stereo = record(input.stereo, "stereo");
+    settings.stereo = {
+      mode: oneOf(stereo.mode, "stereo.mode", STEREO_MODES),
+      left: readChannel(stereo.left, "stereo.left"),
+      right: readChannel(stereo.right, "stereo.right"),
+      carrier: numberIn(stereo.carrier, "stereo.carrier", MIN_FREQ, MAX_FREQ),
+      beat: numberIn(stereo.beat, "stereo.beat", 0, MAX_BEAT),
+      invert: flag(stereo.invert, "stereo.invert"),
+      swap: flag(stereo.swap, "stereo.swap")
+    };
+  }
+  if (has("lfo")) {
+    const lfo = record(input.lfo, "lfo");
+    const unit = oneOf(lfo.unit, "lfo.unit", DEPTH_UNITS);
+    settings.lfo = {
+      target: oneOf(lfo.target, "lfo.target", LFO_TARGETS),
+      shape: oneOf(lfo.shape, "lfo.shape", LFO_SHAPES),
+      rate: numberIn(lfo.rate, "lfo.rate", MIN_LFO_RATE, MAX_LFO_RATE),
+      deviation: numberIn(lfo.deviation, "lfo.deviation", 0, MAX_DEVIATION[unit]),
+      unit,
+      depth: numberIn(lfo.depth, "lfo.depth", 0, 1)
+    };
+  }
+  return settings;
+}
+
+/** Parses an exported preset file, `{ version, presets: [...] }`. */
+export function parsePresetFile(text: string): Preset[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Not valid JSON");
+  }
+  const file = record(parsed, "file");
+  const version = numberIn(file.version, "version", 1, Number.MAX_SAFE_INTEGER);
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Saved by a newer version (schema ${version})`);
+  }
+  if (!Array.isArray(file.presets)) fail("presets", "an array");
+  return file.presets.map((value, i) => {
+    const preset = record(value, `presets[${i}]`);
+    if (typeof preset.name !== "string" || !preset.name.trim()) {
+      fail(`presets[${i}].name`, "a name");
+    }
+    return {
+      name: preset.name.trim(),
+      savedAt: typeof preset.savedAt === "number" ? preset.savedAt : Date.now(),
+      settings: readSettings(preset.settings)
+    };
+  });
+}
+
+export function serializePresets(presets: Preset[]) {
+  return JSON.stringify({ version: PRESET_SCHEMA_VERSION, presets }, null, 2);
+}
+
+export function loadPresets(): Preset[] {
+  try {
+    return parsePresetFile(localStorage.getItem(STORAGE_KEY) ?? "");
+  } catch {
+    return [];
+  }
+}
+
+export function storePresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+}
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Encodes settings as a URL hash. The common fields stay readable
+ * (`#f=1000&w=sine&lvl=0.08`); anything that differs from the defaults
+ * rides along as base64url JSON in `x`.
+ */
+export function settingsToHash(settings: GeneratorSettings) {
+  const params = new URLSearchParams();
+  params.set("s", `${PRESET_SCHEMA_VERSION}`);
+  params.set("f", `${Number(settings.frequency.toFixed(3))}`);
+  params.set("w", settings.waveform);
+  params.set("lvl", `${Number(settings.volume.toFixed(4))}`);
+
+  const extras: Partial<GeneratorSettings> = {};
+  const keys: (keyof GeneratorSettings)[] = [
+    "bandwidth",
+    "customWave",
+    "bandLimited",
+    "voices",
+    "envelope",
+    "burst",
+    "sweepEnabled",
+    "sweep",
+    "tuning",
+    "stereo",
+    "lfo"
+  ];
+  keys.forEach((key) => {
+    if (key === "customWave" && settings.waveform !== "custom") return;
+    if (key === "bandwidth" && settings.waveform !== "bandpass") return;
+    if (JSON.stringify(settings[key]) !== JSON.stringify(DEFAULT_SETTINGS[key])) {
+      Object.assign(extras, { [key]: settings[key] });
+    }
+  });
+  if (Object.keys(extras).length) params.set("x", toBase64Url(JSON.stringify(extras)));
+  return `#${params.toString()}`;
+}
+
+/** Reads settings from a hash made by settingsToHash; null if there are none. */
+export function settingsFromHash(hash: string) {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!params.has("f")) return null;
+  const version = Number(params.get("s") ?? PRESET_SCHEMA_VERSION);
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Link made by a newer version (schema ${version})`);
+  }
+
+  const extras = params.get("x");
+  let value: Fields = {};
+  if (extras) {
+    try {
+      value = record(JSON.parse(fromBase64Url(extras)), "x");
+    } catch {
+      throw new Error("Link settings are corrupted");
+    }
+  }
+  return readSettings({
+    ...value,
+    frequency: Number(params.get("f")),
+    waveform: params.get("w") ?? DEFAULT_SETTINGS.waveform,
+    volume: Number(params.get("lvl") ?? DEFAULT_SETTINGS.volume)
+  });
+}
@@ -0,0 +1,80 @@
+import { ratioToDb } from "./distortion";
+import { METER_FLOOR_DB } from "./level";
+
+/** Recording stops by itself here; a stereo float take is about 23 MB a minute. */
+export const MAX_TAKE_SECONDS = 600;
+
+export interface Take {
+  id: number;
+  /** Both channels at the rate of the context they were captured from. */
+  channels: Float32Array[];
+  sampleRate: number;
+  /** Largest absolute sample of the whole take, in dBFS. */
+  peak: number;
+  /** Trim points in seconds from the start of the recording. */
+  start: number;
+  end: number;
+  recordedAt: number;
+}
+
+/** Joins captured render quanta into one array per channel. */
+export function joinChunks(chunks: Float32Array[][]) {
+  const length = chunks.reduce((total, chunk) => total + chunk[0].length, 0);
+  const channels = [new Float32Array(length), new Float32Array(length)];
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    channels.forEach((channel, i) => channel.set(chunk[i] ?? chunk[0], offset));
+    offset += chunk[0].length;
+  });
+  return channels;
+}
+
+export function peakOf(channels: Float32Array[]) {
+  let peak = 0;
+  channels.forEach((channel) => {
+    for (let i = 0; i < channel.length; i += 1) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+  });
+  return peak;
+}
+
+export function peakDb(peak: number) {
+  return Math.max(METER_FLOOR_DB, ratioToDb(peak));
+}
+
+export function createTake(id: number, channels: Float32Array[], sampleRate: number): Take {
+  return {
+    id,
+    channels,
+    sampleRate,
+    peak: peakDb(peakOf(channels)),
+    start: 0,
+    end: channels[0].length / sampleRate,
+    recordedAt: Date.now()
+  };
+}
+
+export function takeLength(take: Take) {
+  return take.channels[0].length / take.sampleRate;
+}
+
+/** The trimmed part of a take, sharing memory with the original. */
+export function trimmedChannels(take: Take) {
+  const from = Math.round(take.start * take.sampleRate);
+  const to = Math.round(take.end * take.sampleRate);
+  return take.channels.map((channel) => channel.subarray(from, to));
+}
+
+/** Minutes, seconds and tenths, e.g. 1:04.2. */
+export function formatElapsed(seconds: number) {
+  const tenths = Math.round(seconds * 10);
+  const rest = ((tenths % 600) / 10).toFixed(1).padStart(4, "0");
+  return `${Math.floor(tenths / 600)}:${rest}`;
+}
+
+export function takeFilename(take: Take, extension: string) {
+  const stamp = new Date(take.recordedAt).toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `take-${take.id}-${stamp}.${extension}`;
+}
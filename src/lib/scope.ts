@@ -0,0 +1,40 @@
+export type TriggerEdge = "rising" | "falling";
+
+/** Fraction of full scale the signal must retreat past the level to re-arm. */
+const TRIGGER_HYSTERESIS = 0.002;
+
+/**
+ * Finds the first crossing of `level` in the given direction, searching up to
+ * `searchEnd`. Returns a fractional sample index (linearly interpolated
+ * between the two samples either side) or null when nothing crosses.
+ */
+export function findTrigger(
+  data: Float32Array,
+  level: number,
+  edge: TriggerEdge,
+  searchEnd = data.length
+) {
+  const end = Math.min(searchEnd, data.length);
+  let armed = false;
+  for (let i = 1; i < end; i += 1) {
+    const previous = data[i - 1];
+    const current = data[i];
+    if (edge === "rising") {
+      if (previous < level - TRIGGER_HYSTERESIS) armed = true;
+      if (armed && previous < level && current >= level) {
+        return i - 1 + (level - previous) / (current - previous);
+      }
+    } else {
+      if (previous > level + TRIGGER_HYSTERESIS) armed = true;
+      if (armed && previous > level && current <= level) {
+        return i - 1 + (previous - level) / (previous - current);
+      }
+    }
+  }
+  return null;
+}
+
+/** Samples visible across the ten horizontal divisions at `msPerDiv`. */
+export function timebaseSamples(msPerDiv: number, sampleRate: number) {
+  return Math.max(2, Math.round((msPerDiv * 10 * sampleRate) / 1000));
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STEP, EXAMPLE_SEQUENCE, formatSequence, parseSequence } from "./sequence";
+
+describe("parseSequence", () => {
+  it("reads a step's frequency, waveform, level and duration", () => {
+    expect(parseSequence("1k square -12dB 500ms")).toEqual([
+      {
+        frequency: 1000,
+        toFrequency: null,
+        curve: "exponential",
+        waveform: "square",
+        level: -12,
+        duration: 0.5,
+        glide: 0
+      }
+    ]);
+  });
+
+  it("lets units stand apart from their numbers", () => {
+    const [step] = parseSequence("1.5 kHz -6 dB 2 s");
+    expect(step).toMatchObject({ frequency: 1500, level: -6, duration: 2 });
+  });
+
+  it("reads sweeps with their curve, and glides", () => {
+    const [, sweep, glide] = parseSequence("100 1s; sweep 20-20k lin 10s; 440 2s glide 200ms");
+    expect(sweep).toMatchObject({ frequency: 20, toFrequency: 20000, curve: "linear", duration: 10 });
+    expect(glide).toMatchObject({ frequency: 440, glide: 0.2 });
+  });
+
+  it("keeps the previous waveform and level through rests and later steps", () => {
+    const steps = parseSequence("1k saw -9dB 1s; rest 2s; 2k 1s; rest 1s; rest 1s; 3k 1s");
+    expect(steps[1]).toMatchObject({ frequency: 1000, level: null, duration: 2 });
+    expect(steps[2]).toMatchObject({ frequency: 2000, waveform: "sawtooth" });
+    expect(steps[2].level).toBe(-9);
+    expect(steps[4]).toMatchObject({ frequency: 2000, level: null });
+    expect(steps[5]).toMatchObject({ frequency: 3000, waveform: "sawtooth", level: -9 });
+  });
+
+  it("plays the step after a rest at the level set before it", () => {
+    const [, , next] = parseSequence("1k -6dB 1s; rest 1s; 2k 1s");
+    expect(next.level).toBe(-6);
+  });
+
+  it("defaults to the default step's waveform and level", () => {
+    const [step] = parseSequence("440 1min");
+    expect(step).toMatchObject({
+      waveform: DEFAULT_STEP.waveform,
+      level: DEFAULT_STEP.level,
+      duration: 60
+    });
+  });
+
+  it("splits on new lines and skips comments and blank steps", () => {
+    const steps = parseSequence("# warm up\n1k 1s # reference\n\n;2k 1s;");
+    expect(steps.map((step) => step.frequency)).toEqual([1000, 2000]);
+  });
+
+  it.each([
+    ["", /No steps/],
+    ["1k", /Step 1 \("1k"\): missing a duration/],
+    ["1k 1s; wobble 1s", /Step 2 \("wobble 1s"\): "wobble" isn't a frequency/],
+    ["1k 2k 1s", /more than one frequency/],
+    ["sweep 1k 1s", /sweep needs a range/],
+    ["rest 1k 1s", /a rest only takes a duration/],
+    ["1k +3dB 1s", /level must be between/],
+    ["1k 0s", /duration must be above 0/],
+    ["1k 1s glide 2s", /glide is longer than the step/],
+    ["1k 1s glide", /"glide" needs a time/],
+    ["1k lin 1s", /"linear" only applies to sweeps/],
+    ["50k 1s", /frequency/]
+  ])("rejects %j", (text, message) => {
+    expect(() => parseSequence(text)).toThrow(message);
+  });
+});
+
+describe("formatSequence", () => {
+  it("round-trips through parseSequence", () => {
+    const scripts = [
+      EXAMPLE_SEQUENCE,
+      "1k square -12.5dB 500ms; rest 250ms; 2.5k tri -3dB 2s glide 100ms",
+      "sweep 20-20k lin sine -20dB 10s; sweep 1234.5-100 saw -40dB 1.5min"
+    ];
+    scripts.forEach((script) => {
+      const steps = parseSequence(script);
+      expect(parseSequence(formatSequence(steps))).toEqual(steps);
+    });
+  });
+
+  it("writes one step per line", () => {
+    expect(formatSequence(parseSequence("1k -20dB 2s; rest 1s"))).toBe(
+      "1k sine -20dB 2s;\nrest 1s"
+    );
+  });
+});
@@ -0,0 +1,306 @@
+import { MAX_FREQ, MIN_FREQ, frequencyError, parseFrequency } from "./frequency";
+
+export type SequenceWaveform = "sine" | "square" | "sawtooth" | "triangle";
+export type StepCurve = "linear" | "exponential";
+
+export interface SequenceStep {
+  frequency: number;
+  /** Sweeps to this frequency over the step; holds when null. */
+  toFrequency: number | null;
+  curve: StepCurve;
+  waveform: SequenceWaveform;
+  /** dBFS, or null for a rest. */
+  level: number | null;
+  /** Seconds. */
+  duration: number;
+  /** Seconds spent gliding in from the previous step's frequency and level. */
+  glide: number;
+}
+
+export interface Sequence {
+  steps: SequenceStep[];
+  loop: boolean;
+}
+
+export const SEQUENCE_WAVEFORMS: SequenceWaveform[] = ["sine", "square", "sawtooth", "triangle"];
+export const MIN_STEP_DB = -100;
+export const MAX_STEP_SECONDS = 3600;
+export const SEQUENCE_SCHEMA_VERSION = 1;
+
+export const DEFAULT_STEP: SequenceStep = {
+  frequency: 1000,
+  toFrequency: null,
+  curve: "exponential",
+  waveform: "sine",
+  level: -20,
+  duration: 2,
+  glide: 0
+};
+
+export const EXAMPLE_SEQUENCE = "1k sine -20dB 2s; sweep 20-20k 10s; rest 1s";
+
+const WAVEFORM_ALIASES: Record<string, SequenceWaveform> = {
+  sine: "sine",
+  sin: "sine",
+  square: "square",
+  sqr: "square",
+  sawtooth: "sawtooth",
+  saw: "sawtooth",
+  triangle: "triangle",
+  tri: "triangle"
+};
+
+const CURVE_ALIASES: Record<string, StepCurve> = {
+  lin: "linear",
+  linear: "linear",
+  log: "exponential",
+  exp: "exponential"
+};
+
+const LEVEL_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))dB(?:fs)?$/i;
+const DURATION_PATTERN = /^(\d+(?:\.\d*)?|\.\d+)(ms|s|min)$/i;
+const DURATION_SCALE: Record<string, number> = { ms: 0.001, s: 1, min: 60 };
+
+/** Reads "2s", "500ms" or "1.5min" as seconds. */
+export function parseDuration(token: string) {
+  const match = token.match(DURATION_PATTERN);
+  return match ? Number(match[1]) * DURATION_SCALE[match[2].toLowerCase()] : null;
+}
+
+function parseRange(token: string) {
+  const dash = token.indexOf("-", 1);
+  if (dash < 0) return null;
+  const from = parseFrequency(token.slice(0, dash));
+  const to = parseFrequency(token.slice(dash + 1));
+  return from !== null && to !== null ? [from, to] : null;
+}
+
+/**
+ * Parses one step. Waveform and level default to those of the last step that
+ * sounded, so `1k sine -20dB 2s; rest 1s; 2k 2s` plays both tones the same way.
+ */
+function parseStep(text: string, sounding: SequenceStep): SequenceStep {
+  // Let units stand apart from their numbers: "1 kHz", "-20 dB", "2 s".
+  const tokens = text
+    .replace(/(\d)\s+(khz|hz|k|dbfs|db|ms|min|s)\b/gi, "$1$2")
+    .split(/\s+/);
+  let rest = false;
+  let sweep = false;
+  let frequency: number | null = null;
+  let toFrequency: number | null = null;
+  let waveform: SequenceWaveform | null = null;
+  let level: number | null = null;
+  let duration: number | null = null;
+  let glide: number | null = null;
+  let curve: StepCurve | null = null;
+
+  const once = <T>(value: T | null, what: string) => {
+    if (value !== null) throw new Error(`more than one ${what}`);
+  };
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    const word = token.toLowerCase();
+    const range = parseRange(token);
+    if (word === "rest") {
+      rest = true;
+    } else if (word === "sweep") {
+      sweep = true;
+    } else if (word === "glide") {
+      once(glide, "glide");
+      const next = tokens[i + 1];
+      glide = next === undefined ? null : parseDuration(next);
+      if (glide === null) throw new Error(`"glide" needs a time after it, e.g. glide 200ms`);
+      i += 1;
+    } else if (CURVE_ALIASES[word]) {
+      once(curve, "sweep curve");
+      curve = CURVE_ALIASES[word];
+    } else if (WAVEFORM_ALIASES[word]) {
+      once(waveform, "waveform");
+      waveform = WAVEFORM_ALIASES[word];
+    } else if (LEVEL_PATTERN.test(token)) {
+      once(level, "level");
+      level = Number(token.match(LEVEL_PATTERN)?.[1]);
+    } else if (DURATION_PATTERN.test(token)) {
+      once(duration, "duration");
+      duration = parseDuration(token);
+    } else if (range) {
+      once(frequency, "frequency");
+      [frequency, toFrequency] = range;
+    } else if (parseFrequency(token) !== null) {
+      once(frequency, "frequency");
+      frequency = parseFrequency(token);
+    } else {
+      throw new Error(`"${token}" isn't a frequency, waveform, level or duration`);
+    }
+  }
+
+  if (duration === null) throw new Error("missing a duration, e.g. 2s or 500ms");
+  if (duration <= 0 || duration > MAX_STEP_SECONDS) {
+    throw new Error(`duration must be above 0 and at most ${MAX_STEP_SECONDS} s`);
+  }
+  if (glide !== null && glide > duration) throw new Error("glide is longer than the step");
+
+  if (rest) {
+    if (frequency !== null || waveform !== null || level !== null || glide !== null) {
+      throw new Error("a rest only takes a duration");
+    }
+    return { ...sounding, toFrequency: null, level: null, duration, glide: 0 };
+  }
+
+  if (frequency === null) {
+    throw new Error(sweep ? "sweep needs a range, e.g. 20-20k" : "missing a frequency, e.g. 1k");
+  }
+  if (sweep && toFrequency === null) throw new Error("sweep needs a range, e.g. 20-20k");
+  [frequency, toFrequency].forEach((freq) => {
+    const message = freq === null ? null : frequencyError(freq);
+    if (message) throw new Error(`frequency ${message[0].toLowerCase()}${message.slice(1)}`);
+  });
+  if (curve !== null && toFrequency === null) throw new Error(`"${curve}" only applies to sweeps`);
+  const stepLevel = level ?? sounding.level;
+  if (stepLevel === null || stepLevel > 0 || stepLevel < MIN_STEP_DB) {
+    throw new Error(`level must be between ${MIN_STEP_DB} and 0 dBFS`);
+  }
+
+  return {
+    frequency,
+    toFrequency,
+    curve: curve ?? DEFAULT_STEP.curve,
+    waveform: waveform ?? sounding.waveform,
+    level: stepLevel,
+    duration,
+    glide: glide ?? 0
+  };
+}
+
+/**
+ * Parses the sequence language: steps separated by `;` or new lines, `#`
+ * comments to the end of a line. Throws with the step number and text.
+ */
+export function parseSequence(text: string): SequenceStep[] {
+  const steps: SequenceStep[] = [];
+  let sounding = DEFAULT_STEP;
+  const sources = text
+    .split("\n")
+    .map((line) => line.replace(/#.*/, ""))
+    .join(";")
+    .split(";")
+    .map((source) => source.trim())
+    .filter(Boolean);
+
+  sources.forEach((source, i) => {
+    try {
+      const step = parseStep(source, sounding);
+      steps.push(step);
+      if (step.level !== null) sounding = step;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : "unreadable";
+      throw new Error(`Step ${i + 1} ("${source}"): ${reason}`);
+    }
+  });
+  if (steps.length === 0) throw new Error(`No steps, try ${EXAMPLE_SEQUENCE}`);
+  return steps;
+}
+
+function formatFrequencyToken(freq: number) {
+  const rounded = Number(freq.toFixed(3));
+  return rounded >= 1000 && Number.isInteger(rounded / 10) ? `${rounded / 1000}k` : `${rounded}`;
+}
+
+export function formatDuration(seconds: number) {
+  return seconds < 1 ? `${Number((seconds * 1000).toFixed(1))}ms` : `${Number(seconds.toFixed(3))}s`;
+}
+
+/** Writes steps back out in the sequence language; parses to the same steps. */
+export function formatSequence(steps: SequenceStep[]) {
+  return steps
+    .map((step) => {
+      if (step.level === null) return `rest ${formatDuration(step.duration)}`;
+      const parts =
+        step.toFrequency === null
+          ? [formatFrequencyToken(step.frequency)]
+          : [
+              "sweep",
+              `${formatFrequencyToken(step.frequency)}-${formatFrequencyToken(step.toFrequency)}`,
+              ...(step.curve === "linear" ? ["lin"] : [])
+            ];
+      parts.push(step.waveform, `${Number(step.level.toFixed(2))}dB`, formatDuration(step.duration));
+      if (step.glide > 0) parts.push("glide", formatDuration(step.glide));
+      return parts.join(" ");
+    })
+    .join(";\n");
+}
+
+export function sequenceDuration(steps: SequenceStep[]) {
+  return steps.reduce((total, step) => total + step.duration, 0);
+}
+
+/** Index of the step playing `elapsed` seconds in, or null once a single pass ends. */
+export function stepIndexAt(steps: SequenceStep[], elapsed: number, loop: boolean) {
+  const total = sequenceDuration(steps);
+  if (total <= 0 || elapsed < 0 || (!loop && elapsed >= total)) return null;
+  let time = loop ? elapsed % total : elapsed;
+  for (let i = 0; i < steps.length; i += 1) {
+    if (time < steps[i].duration) return i;
+    time -= steps[i].duration;
+  }
+  return steps.length - 1;
+}
+
+function fail(path: string, expected: string): never {
+  throw new Error(`${path}: expected ${expected}`);
+}
+
+function readStep(value: unknown, path: string): SequenceStep {
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "an object");
+  const step = value as Partial<Record<keyof SequenceStep, unknown>>;
+  const number = (field: keyof SequenceStep, min: number, max: number) => {
+    const n = step[field];
+    if (typeof n !== "number" || !Number.isFinite(n) || n < min || n > max) {
+      fail(`${path}.${field}`, `a number from ${min} to ${max}`);
+    }
+    return n;
+  };
+  if (!SEQUENCE_WAVEFORMS.includes(step.waveform as SequenceWaveform)) {
+    fail(`${path}.waveform`, SEQUENCE_WAVEFORMS.join(", "));
+  }
+  if (step.curve !== "linear" && step.curve !== "exponential") {
+    fail(`${path}.curve`, "linear or exponential");
+  }
+  const result: SequenceStep = {
+    frequency: number("frequency", MIN_FREQ, MAX_FREQ),
+    toFrequency: step.toFrequency === null ? null : number("toFrequency", MIN_FREQ, MAX_FREQ),
+    curve: step.curve,
+    waveform: step.waveform as SequenceWaveform,
+    level: step.level === null ? null : number("level", MIN_STEP_DB, 0),
+    duration: number("duration", 0, MAX_STEP_SECONDS),
+    glide: number("glide", 0, MAX_STEP_SECONDS)
+  };
+  if (result.duration <= 0) fail(`${path}.duration`, "a positive number");
+  return result;
+}
+
+/** Parses an exported sequence file, `{ version, loop, steps: [...] }`. */
+export function parseSequenceFile(text: string): Sequence {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) fail("file", "an object");
+  const file = parsed as Record<string, unknown>;
+  if (typeof file.version !== "number") fail("version", "a number");
+  if (file.version > SEQUENCE_SCHEMA_VERSION) {
+    throw new Error(`Saved by a newer version (schema ${file.version})`);
+  }
+  if (!Array.isArray(file.steps) || file.steps.length === 0) fail("steps", "a list of steps");
+  return {
+    loop: file.loop === true,
+    steps: file.steps.map((step, i) => readStep(step, `steps[${i}]`))
+  };
+}
+
+export function serializeSequence(sequence: Sequence) {
+  return JSON.stringify({ version: SEQUENCE_SCHEMA_VERSION, ...sequence }, null, 2);
+}
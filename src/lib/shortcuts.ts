@@ -0,0 +1,79 @@
+import { NudgeStep } from "./frequency";
+import { WAVEFORMS } from "./waveforms";
+
+export type ShortcutAction =
+  | { type: "toggle" }
+  | { type: "waveform"; waveform: OscillatorType }
+  | { type: "frequency"; step: NudgeStep; direction: 1 | -1 }
+  | { type: "volume"; db: number }
+  | { type: "help" };
+
+/** Level change per up / down arrow, and with Shift held. */
+const VOLUME_STEP_DB = 1;
+const COARSE_VOLUME_STEP_DB = 6;
+
+/** Rows of the help overlay, in the order they are listed. */
+export const SHORTCUTS: { keys: string[]; action: string }[] = [
+  { keys: ["Space"], action: "Start or stop the tone" },
+  {
+    keys: WAVEFORMS.map((_, index) => String(index + 1)),
+    action: `Waveform: ${WAVEFORMS.join(", ")}`
+  },
+  { keys: ["←", "→"], action: "Frequency down or up a semitone" },
+  { keys: ["Shift", "←", "→"], action: "Frequency down or up an octave" },
+  { keys: ["↓", "↑"], action: `Level down or up ${VOLUME_STEP_DB} dB` },
+  { keys: ["Shift", "↓", "↑"], action: `Level down or up ${COARSE_VOLUME_STEP_DB} dB` },
+  { keys: ["?"], action: "Show these shortcuts" },
+  { keys: ["Esc"], action: "Close this list" }
+];
+
+const TEXT_FREE_INPUTS = ["range", "checkbox", "radio", "button", "submit", "reset", "file", "color"];
+
+/**
+ * Whether the focused element uses `key` itself: text fields take every key,
+ * sliders take the arrows and buttons take Space.
+ */
+function ownsKey(target: EventTarget | null, key: string) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  ) {
+    return true;
+  }
+  const isInput = target instanceof HTMLInputElement;
+  if (isInput && !TEXT_FREE_INPUTS.includes(target.type)) return true;
+  if (key.startsWith("Arrow")) {
+    return (isInput && target.type === "range") || target.getAttribute("role") === "slider";
+  }
+  if (key === " ") {
+    return isInput || target instanceof HTMLButtonElement || target.getAttribute("role") === "button";
+  }
+  return false;
+}
+
+/** The page-wide shortcut for a key press, or null when the key isn't ours to take. */
+export function shortcutFor(event: KeyboardEvent): ShortcutAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey || ownsKey(event.target, event.key)) {
+    return null;
+  }
+  const direction = event.key === "ArrowUp" || event.key === "ArrowRight" ? 1 : -1;
+  switch (event.key) {
+    case " ":
+      return event.repeat ? null : { type: "toggle" };
+    case "?":
+      return { type: "help" };
+    case "ArrowLeft":
+    case "ArrowRight":
+      return { type: "frequency", step: event.shiftKey ? "octave" : "semitone", direction };
+    case "ArrowDown":
+    case "ArrowUp":
+      return {
+        type: "volume",
+        db: direction * (event.shiftKey ? COARSE_VOLUME_STEP_DB : VOLUME_STEP_DB)
+      };
+  }
+  const waveform = WAVEFORMS[Number(event.key) - 1];
+  return /^[1-9]$/.test(event.key) && waveform ? { type: "waveform", waveform } : null;
+}
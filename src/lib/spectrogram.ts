@@ -0,0 +1,252 @@
+import { WindowKind, createWindow, fft } from "./fft";
+import { DEFAULT_FFT_SIZE, DEFAULT_SMOOTHING, SPECTRUM_FLOOR_DB } from "./spectrum";
+
+export type FrequencyScale = "linear" | "log";
+
+/**
+ * FFT settings chosen in the UI. The live analyser only takes the size and
+ * smoothing (its window is fixed); the spectrogram uses all four.
+ */
+export interface AnalysisSettings {
+  fftSize: number;
+  window: WindowKind;
+  /** Fraction of each frame shared with the next. */
+  overlap: number;
+  /** Weight given to the previous frame, as in AnalyserNode. */
+  smoothing: number;
+}
+
+export const FFT_SIZES = [1024, 2048, 4096, 8192, 16384];
+export const WINDOW_KINDS: WindowKind[] = ["hann", "blackman-harris", "flat-top"];
+export const OVERLAPS = [0, 0.5, 0.75, 0.875];
+export const HISTORY_SECONDS = [5, 10, 30, 60];
+export const MAX_SMOOTHING = 0.95;
+
+export const DEFAULT_ANALYSIS: AnalysisSettings = {
+  fftSize: DEFAULT_FFT_SIZE,
+  window: "blackman-harris",
+  overlap: 0.75,
+  smoothing: DEFAULT_SMOOTHING
+};
+
+/** Caps the grid width; longer histories merge several frames per column. */
+const MAX_COLUMNS = 1200;
+
+/** Short-time Fourier transform over a continuous sample stream. */
+export interface Stft {
+  size: number;
+  hop: number;
+  sampleRate: number;
+  smoothing: number;
+  window: Float64Array;
+  /** Scales a full-scale sine to 0 dB whatever the window. */
+  scale: number;
+  ring: Float32Array;
+  /** Samples seen so far, including any skipped. */
+  samples: number;
+  filled: number;
+  sinceFrame: number;
+  re: Float64Array;
+  im: Float64Array;
+  /** Smoothed power per bin. */
+  power: Float64Array;
+  /** Latest frame in dB, rewritten for every hop. */
+  frame: Float32Array;
+}
+
+/** Levels on a time × frequency grid, in ring order by column. */
+export interface SpectrogramGrid {
+  columns: number;
+  rows: number;
+  framesPerColumn: number;
+  /** dB, `rows` per column with the lowest frequency first. */
+  levels: Float32Array;
+  /** First and last FFT bin feeding each row. */
+  rowBins: Int32Array;
+  rowFrequencies: Float64Array;
+  /** Absolute index of the newest column, or -1 before the first frame. */
+  head: number;
+  hop: number;
+  size: number;
+  sampleRate: number;
+  /** Context time of the first sample. */
+  startTime: number;
+}
+
+export function createStft(settings: AnalysisSettings, sampleRate: number): Stft {
+  const { fftSize: size } = settings;
+  const window = createWindow(settings.window, size);
+  const sum = window.reduce((total, value) => total + value, 0);
+  return {
+    size,
+    hop: Math.max(1, Math.round(size * (1 - settings.overlap))),
+    sampleRate,
+    smoothing: settings.smoothing,
+    window,
+    scale: 2 / sum,
+    ring: new Float32Array(size),
+    samples: 0,
+    filled: 0,
+    sinceFrame: 0,
+    re: new Float64Array(size),
+    im: new Float64Array(size),
+    power: new Float64Array(size / 2),
+    frame: new Float32Array(size / 2).fill(SPECTRUM_FLOOR_DB)
+  };
+}
+
+function computeFrame(stft: Stft) {
+  const { size, ring, window, re, im, power, frame, smoothing } = stft;
+  const oldest = stft.samples % size;
+  for (let i = 0; i < size; i += 1) {
+    re[i] = ring[(oldest + i) % size] * window[i];
+    im[i] = 0;
+  }
+  fft(re, im);
+  const scale = stft.scale * stft.scale;
+  for (let k = 0; k < power.length; k += 1) {
+    const value = (re[k] * re[k] + im[k] * im[k]) * scale;
+    power[k] = smoothing * power[k] + (1 - smoothing) * value;
+    frame[k] = Math.max(SPECTRUM_FLOOR_DB, 10 * Math.log10(power[k]));
+  }
+}
+
+/**
+ * Feeds samples through the transform, calling `onFrame` with the frame and
+ * the sample count at its end every `hop` samples once the window is full.
+ */
+export function pushSamples(
+  stft: Stft,
+  samples: Float32Array,
+  onFrame: (frame: Float32Array, endSample: number) => void
+) {
+  for (let i = 0; i < samples.length; i += 1) {
+    stft.ring[stft.samples % stft.size] = samples[i];
+    stft.samples += 1;
+    stft.filled = Math.min(stft.size, stft.filled + 1);
+    stft.sinceFrame += 1;
+    if (stft.filled === stft.size && stft.sinceFrame >= stft.hop) {
+      stft.sinceFrame = 0;
+      computeFrame(stft);
+      onFrame(stft.frame, stft.samples);
+    }
+  }
+}
+
+/** Counts samples without analysing them; the window refills afterwards. */
+export function skipSamples(stft: Stft, count: number) {
+  stft.samples += count;
+  stft.filled = 0;
+  stft.sinceFrame = 0;
+}
+
+export function createGrid(
+  stft: Stft,
+  scale: FrequencyScale,
+  historySeconds: number,
+  rows: number,
+  minFreq: number,
+  maxFreq: number,
+  startTime: number
+): SpectrogramGrid {
+  const historyFrames = Math.ceil((historySeconds * stft.sampleRate) / stft.hop);
+  const framesPerColumn = Math.max(1, Math.ceil(historyFrames / MAX_COLUMNS));
+  const columns = Math.ceil(historyFrames / framesPerColumn);
+  const binWidth = stft.sampleRate / stft.size;
+  const bins = stft.size / 2;
+  const low = scale === "log" ? minFreq : 0;
+
+  const edge = (row: number) =>
+    scale === "log"
+      ? low * Math.pow(maxFreq / low, row / rows)
+      : low + ((maxFreq - low) * row) / rows;
+
+  const rowBins = new Int32Array(rows * 2);
+  const rowFrequencies = new Float64Array(rows);
+  for (let row = 0; row < rows; row += 1) {
+    const from = Math.min(bins - 1, Math.round(edge(row) / binWidth));
+    const to = Math.min(bins - 1, Math.max(from, Math.round(edge(row + 1) / binWidth) - 1));
+    rowBins[row * 2] = from;
+    rowBins[row * 2 + 1] = to;
+    rowFrequencies[row] =
+      scale === "log" ? Math.sqrt(edge(row) * edge(row + 1)) : (edge(row) + edge(row + 1)) / 2;
+  }
+
+  return {
+    columns,
+    rows,
+    framesPerColumn,
+    levels: new Float32Array(columns * rows).fill(SPECTRUM_FLOOR_DB),
+    rowBins,
+    rowFrequencies,
+    head: -1,
+    hop: stft.hop,
+    size: stft.size,
+    sampleRate: stft.sampleRate,
+    startTime
+  };
+}
+
+/** Folds a frame into its column, clearing any columns skipped since the last one. */
+export function pushColumn(grid: SpectrogramGrid, frame: Float32Array, endSample: number) {
+  const { columns, rows, levels, rowBins } = grid;
+  const column = Math.floor((endSample - grid.size) / grid.hop / grid.framesPerColumn);
+  if (column < grid.head) return;
+  for (let next = Math.max(grid.head + 1, column - columns + 1); next <= column; next += 1) {
+    const offset = (next % columns) * rows;
+    levels.fill(SPECTRUM_FLOOR_DB, offset, offset + rows);
+  }
+  grid.head = column;
+
+  const offset = (column % columns) * rows;
+  for (let row = 0; row < rows; row += 1) {
+    let level = levels[offset + row];
+    for (let bin = rowBins[row * 2]; bin <= rowBins[row * 2 + 1]; bin += 1) {
+      level = Math.max(level, frame[bin]);
+    }
+    levels[offset + row] = level;
+  }
+}
+
+/** Context time at the centre of the first frame in `column`. */
+export function columnTime(grid: SpectrogramGrid, column: number) {
+  return (
+    grid.startTime +
+    (column * grid.framesPerColumn * grid.hop + grid.size / 2) / grid.sampleRate
+  );
+}
+
+/** Level at an absolute column and row, or null once it has scrolled out. */
+export function gridLevel(grid: SpectrogramGrid, column: number, row: number) {
+  if (grid.head < 0 || column > grid.head || column <= grid.head - grid.columns) return null;
+  if (row < 0 || row >= grid.rows) return null;
+  return grid.levels[(column % grid.columns) * grid.rows + row];
+}
+
+const COLOR_STOPS = [
+  { at: 0, rgb: [8, 10, 20] },
+  { at: 0.25, rgb: [40, 20, 110] },
+  { at: 0.5, rgb: [180, 30, 140] },
+  { at: 0.75, rgb: [255, 140, 40] },
+  { at: 1, rgb: [255, 250, 200] }
+];
+
+/** Dark to bright RGB lookup table, `steps` entries of three bytes. */
+export function createColorMap(steps = 256) {
+  const map = new Uint8ClampedArray(steps * 3);
+  for (let i = 0; i < steps; i += 1) {
+    const t = i / (steps - 1);
+    const upper = COLOR_STOPS.findIndex((stop) => stop.at >= t);
+    const b = COLOR_STOPS[Math.max(1, upper)];
+    const a = COLOR_STOPS[Math.max(0, upper - 1)];
+    const mix = (t - a.at) / (b.at - a.at);
+    for (let c = 0; c < 3; c += 1) map[i * 3 + c] = a.rgb[c] + (b.rgb[c] - a.rgb[c]) * mix;
+  }
+  return map;
+}
+
+/** Position of `db` in a color map spanning `floorDb` to 0 dB. */
+export function colorIndex(db: number, floorDb: number, steps = 256) {
+  const t = Math.min(1, Math.max(0, (db - floorDb) / -floorDb));
+  return Math.round(t * (steps - 1));
+}
@@ -0,0 +1,143 @@
+export type Averaging = "off" | "exponential" | "linear";
+
+export const AVERAGING_MODES: Averaging[] = ["off", "exponential", "linear"];
+export const AVERAGE_COUNTS = [4, 8, 16, 32];
+
+export const DEFAULT_FFT_SIZE = 4096;
+export const DEFAULT_SMOOTHING = 0.82;
+
+/** Floor used for silent bins, which the analyser reports as -Infinity. */
+export const SPECTRUM_FLOOR_DB = -140;
+
+export interface SpectrumAverager {
+  /** Averaged power per bin. */
+  power: Float64Array;
+  /** Ring of recent power frames for linear averaging. */
+  history: Float64Array[];
+  next: number;
+  frames: number;
+  /** Averaged spectrum in dB, rewritten by every push. */
+  output: Float32Array;
+  /** Highest dB seen per bin since the last reset. */
+  peak: Float32Array;
+}
+
+function dbToPower(db: number) {
+  return Math.pow(10, Math.max(SPECTRUM_FLOOR_DB, db) / 10);
+}
+
+function powerToDb(power: number) {
+  return Math.max(SPECTRUM_FLOOR_DB, 10 * Math.log10(power));
+}
+
+export function createAverager(bins: number): SpectrumAverager {
+  return {
+    power: new Float64Array(bins),
+    history: [],
+    next: 0,
+    frames: 0,
+    output: new Float32Array(bins),
+    peak: new Float32Array(bins).fill(SPECTRUM_FLOOR_DB)
+  };
+}
+
+export function resetAverager(averager: SpectrumAverager) {
+  averager.power.fill(0);
+  averager.history = [];
+  averager.next = 0;
+  averager.frames = 0;
+  averager.peak.fill(SPECTRUM_FLOOR_DB);
+}
+
+/**
+ * Averages a new dB frame in the power domain. Exponential averaging weights
+ * the newest frame by 1/count; linear averaging is the mean of the last
+ * `count` frames. Peak hold tracks the averaged output.
+ */
+export function pushSpectrum(
+  averager: SpectrumAverager,
+  frame: Float32Array,
+  mode: Averaging,
+  count: number
+) {
+  const { power, output, peak } = averager;
+  const bins = power.length;
+  averager.frames += 1;
+
+  if (mode === "linear") {
+    if (averager.history.length !== count) {
+      averager.history = Array.from({ length: count }, () => new Float64Array(bins));
+      averager.next = 0;
+      averager.frames = 1;
+      power.fill(0);
+    }
+    const slot = averager.history[averager.next];
+    for (let i = 0; i < bins; i += 1) {
+      const value = dbToPower(frame[i]);
+      power[i] += value - slot[i];
+      slot[i] = value;
+    }
+    averager.next = (averager.next + 1) % count;
+    const filled = Math.min(averager.frames, count);
+    for (let i = 0; i < bins; i += 1) output[i] = powerToDb(Math.max(0, power[i]) / filled);
+  } else {
+    // The first frames converge faster so the display doesn't fade in.
+    const weight = mode === "off" ? 1 : Math.max(1 / count, 1 / averager.frames);
+    for (let i = 0; i < bins; i += 1) {
+      power[i] += (dbToPower(frame[i]) - power[i]) * weight;
+      output[i] = powerToDb(power[i]);
+    }
+  }
+
+  for (let i = 0; i < bins; i += 1) peak[i] = Math.max(peak[i], output[i]);
+  return output;
+}
+
+/**
+ * Power-sums `other` into `target` in place. The two spectra may come from
+ * contexts at different sample rates, so bins are matched by frequency.
+ */
+export function addSpectra(
+  target: Float32Array,
+  targetRate: number,
+  other: Float32Array,
+  otherRate: number
+) {
+  const scale = (targetRate / otherRate) * (other.length / target.length);
+  for (let i = 0; i < target.length; i += 1) {
+    const j = Math.round(i * scale);
+    if (j >= other.length) break;
+    target[i] = powerToDb(dbToPower(target[i]) + dbToPower(other[j]));
+  }
+}
+
+/**
+ * Finds the loudest bin between `minFreq` and `maxFreq` and refines it with
+ * parabolic interpolation across its neighbours.
+ */
+export function dominantPeak(
+  spectrum: Float32Array,
+  sampleRate: number,
+  minFreq: number,
+  maxFreq: number
+) {
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const from = Math.max(1, Math.ceil(minFreq / binWidth));
+  const to = Math.min(spectrum.length - 2, Math.floor(maxFreq / binWidth));
+  if (from > to) return null;
+
+  let best = from;
+  for (let i = from + 1; i <= to; i += 1) {
+    if (spectrum[i] > spectrum[best]) best = i;
+  }
+
+  const a = spectrum[best - 1];
+  const b = spectrum[best];
+  const c = spectrum[best + 1];
+  const curvature = a - 2 * b + c;
+  const offset = curvature < 0 ? (0.5 * (a - c)) / curvature : 0;
+  return {
+    frequency: (best + offset) * binWidth,
+    level: b - 0.25 * (a - c) * offset
+  };
+}
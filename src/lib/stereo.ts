@@ -0,0 +1,79 @@
+import { clampFrequency } from "./frequency";
+
+export type StereoMode = "off" | "split" | "binaural";
+export type IdentStep = "left" | "right" | "both";
+
+export interface ChannelSettings {
+  frequency: number;
+  waveform: OscillatorType;
+  /** Linear level relative to the output level, 0–1. */
+  level: number;
+}
+
+export interface StereoSettings {
+  mode: StereoMode;
+  /** Channels used in split mode. */
+  left: ChannelSettings;
+  right: ChannelSettings;
+  /** Binaural mode centres both channels on `carrier`, `beat` Hz apart. */
+  carrier: number;
+  beat: number;
+  /** Flips the polarity of the right output. */
+  invert: boolean;
+  /** Sends the left settings to the right output and vice versa. */
+  swap: boolean;
+}
+
+/** What each physical output plays once binaural, swap and invert are resolved. */
+export interface ChannelOutput {
+  frequency: number;
+  waveform: OscillatorType;
+  /** Signed gain; negative when the polarity is inverted. */
+  gain: number;
+}
+
+export const STEREO_MODES: StereoMode[] = ["off", "split", "binaural"];
+export const MAX_BEAT = 40;
+export const IDENT_STEPS: IdentStep[] = ["left", "right", "both"];
+export const IDENT_STEP_SECONDS = 1.5;
+
+export const DEFAULT_STEREO: StereoSettings = {
+  mode: "off",
+  left: { frequency: 440, waveform: "sine", level: 1 },
+  right: { frequency: 440, waveform: "sine", level: 1 },
+  carrier: 200,
+  beat: 10,
+  invert: false,
+  swap: false
+};
+
+export function stereoOutputs(stereo: StereoSettings): { left: ChannelOutput; right: ChannelOutput } {
+  let left: ChannelSettings = stereo.left;
+  let right: ChannelSettings = stereo.right;
+  if (stereo.mode === "binaural") {
+    const offset = stereo.beat / 2;
+    left = { frequency: clampFrequency(stereo.carrier - offset), waveform: "sine", level: 1 };
+    right = { frequency: clampFrequency(stereo.carrier + offset), waveform: "sine", level: 1 };
+  }
+  if (stereo.swap) [left, right] = [right, left];
+
+  return {
+    left: { frequency: left.frequency, waveform: left.waveform, gain: left.level },
+    right: {
+      frequency: right.frequency,
+      waveform: right.waveform,
+      gain: stereo.invert ? -right.level : right.level
+    }
+  };
+}
+
+/** Step of the identification sequence `elapsed` seconds in, or null once it has finished. */
+export function identStepAt(elapsed: number): IdentStep | null {
+  const index = Math.floor(Math.max(0, elapsed) / IDENT_STEP_SECONDS);
+  return IDENT_STEPS[index] ?? null;
+}
+
+/** Per-output gain multipliers for an identification step. */
+export function identMask(step: IdentStep) {
+  return { left: step === "right" ? 0 : 1, right: step === "left" ? 0 : 1 };
+}
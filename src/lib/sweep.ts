@@ -0,0 +1,149 @@
+import { clampFrequency } from "./frequency";
+
+export type SweepCurve = "linear" | "exponential" | "stepped";
+export type SweepRepeat = "once" | "loop" | "pingpong";
+
+export interface SweepSettings {
+  startFreq: number;
+  endFreq: number;
+  /** Length of one pass in seconds. */
+  duration: number;
+  curve: SweepCurve;
+  /** Hold time of each step in seconds, only used by the stepped curve. */
+  dwell: number;
+  repeat: SweepRepeat;
+}
+
+export const SWEEP_CURVES: SweepCurve[] = ["linear", "exponential", "stepped"];
+export const SWEEP_REPEATS: SweepRepeat[] = ["once", "loop", "pingpong"];
+
+export const MIN_SWEEP_DURATION = 0.1;
+export const MAX_SWEEP_DURATION = 600;
+export const MIN_SWEEP_DWELL = 0.01;
+
+export const DEFAULT_SWEEP: SweepSettings = {
+  startFreq: 20,
+  endFreq: 20000,
+  duration: 10,
+  curve: "exponential",
+  dwell: 0.5,
+  repeat: "once"
+};
+
+function clamp(value: number, min: number, max: number) {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, value));
+}
+
+export function normalizeSweep(settings: SweepSettings): SweepSettings {
+  const duration = clamp(settings.duration, MIN_SWEEP_DURATION, MAX_SWEEP_DURATION);
+  return {
+    ...settings,
+    startFreq: clampFrequency(settings.startFreq),
+    endFreq: clampFrequency(settings.endFreq),
+    duration,
+    dwell: clamp(settings.dwell, MIN_SWEEP_DWELL, duration)
+  };
+}
+
+function stepCount(settings: SweepSettings) {
+  return Math.max(1, Math.floor(settings.duration / settings.dwell));
+}
+
+/** Time taken by one pass; stepped sweeps round down to whole steps. */
+export function sweepPassDuration(settings: SweepSettings) {
+  return settings.curve === "stepped"
+    ? stepCount(settings) * settings.dwell
+    : settings.duration;
+}
+
+function passEndpoints(settings: SweepSettings, pass: number): [number, number] {
+  return settings.repeat === "pingpong" && pass % 2 === 1
+    ? [settings.endFreq, settings.startFreq]
+    : [settings.startFreq, settings.endFreq];
+}
+
+function stepFrequency(from: number, to: number, index: number, steps: number) {
+  if (steps <= 1) return from;
+  return from * Math.pow(to / from, index / (steps - 1));
+}
+
+function passFrequency(settings: SweepSettings, from: number, to: number, elapsed: number) {
+  const progress = Math.min(1, Math.max(0, elapsed / settings.duration));
+  switch (settings.curve) {
+    case "linear":
+      return from + (to - from) * progress;
+    case "exponential":
+      return from * Math.pow(to / from, progress);
+    case "stepped": {
+      const steps = stepCount(settings);
+      const index = Math.min(steps - 1, Math.floor(elapsed / settings.dwell));
+      return stepFrequency(from, to, index, steps);
+    }
+  }
+}
+
+/** Frequency the sweep is producing `elapsed` seconds after it started. */
+export function sweepFrequencyAt(settings: SweepSettings, elapsed: number) {
+  const passDuration = sweepPassDuration(settings);
+  if (settings.repeat === "once" && elapsed >= passDuration) {
+    return settings.endFreq;
+  }
+  const pass = Math.floor(Math.max(0, elapsed) / passDuration);
+  const [from, to] = passEndpoints(settings, pass);
+  return passFrequency(settings, from, to, elapsed - pass * passDuration);
+}
+
+/**
+ * Writes one pass of the sweep onto `param` as AudioParam automation so the
+ * frequency changes sample-accurately. Returns the time the pass ends.
+ */
+export function scheduleSweepPass(
+  param: AudioParam,
+  settings: SweepSettings,
+  pass: number,
+  startTime: number
+) {
+  const [from, to] = passEndpoints(settings, pass);
+  const endTime = startTime + sweepPassDuration(settings);
+  param.setValueAtTime(from, startTime);
+
+  switch (settings.curve) {
+    case "linear":
+      param.linearRampToValueAtTime(to, endTime);
+      break;
+    case "exponential":
+      param.exponentialRampToValueAtTime(to, endTime);
+      break;
+    case "stepped": {
+      const steps = stepCount(settings);
+      for (let i = 1; i < steps; i += 1) {
+        param.setValueAtTime(
+          stepFrequency(from, to, i, steps),
+          startTime + i * settings.dwell
+        );
+      }
+      break;
+    }
+  }
+
+  return endTime;
+}
+
+/**
+ * Schedules passes from `pass` onwards until `untilTime` is covered. One-shot
+ * sweeps stop after the first pass. Returns where the next call should resume.
+ */
+export function scheduleSweep(
+  param: AudioParam,
+  settings: SweepSettings,
+  cursor: { pass: number; time: number },
+  untilTime: number
+) {
+  let { pass, time } = cursor;
+  while (time < untilTime && (settings.repeat !== "once" || pass === 0)) {
+    time = scheduleSweepPass(param, settings, pass, time);
+    pass += 1;
+  }
+  return { pass, time };
+}
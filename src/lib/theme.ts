@@ -0,0 +1,12 @@
+const STORAGE_KEY = "audio-generator.high-contrast";
+
+/** The saved choice, or the system's contrast preference until one is made. */
+export function loadHighContrast() {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored !== null) return stored === "true";
+  return window.matchMedia?.("(prefers-contrast: more)").matches ?? false;
+}
+
+export function storeHighContrast(highContrast: boolean) {
+  localStorage.setItem(STORAGE_KEY, String(highContrast));
+}
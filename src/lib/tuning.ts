@@ -0,0 +1,165 @@
+export type Temperament = "equal" | "just" | "pythagorean" | "meantone" | "scala";
+
+export interface ScalaScale {
+  description: string;
+  /** Cents of the 12 degrees above the tonic; degree 0 is always 0. */
+  degrees: number[];
+  /** Interval the scale repeats at, normally 1200 cents. */
+  period: number;
+}
+
+export interface Tuning {
+  /** Frequency of A4 in Hz. */
+  reference: number;
+  temperament: Temperament;
+  /** Pitch class the temperament is built on, 0 = C. */
+  tonic: number;
+  scala: ScalaScale | null;
+}
+
+export const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+export const REFERENCE_PRESETS = [415, 432, 440, 442];
+export const MIN_REFERENCE = 380;
+export const MAX_REFERENCE = 480;
+
+export const TEMPERAMENTS: { id: Temperament; label: string }[] = [
+  { id: "equal", label: "12-TET" },
+  { id: "just", label: "Just" },
+  { id: "pythagorean", label: "Pythagorean" },
+  { id: "meantone", label: "Meantone" },
+  { id: "scala", label: "Scala" }
+];
+
+export const DEFAULT_TUNING: Tuning = {
+  reference: 440,
+  temperament: "equal",
+  tonic: 0,
+  scala: null
+};
+
+const A4_MIDI = 69;
+
+function ratioToCents(ratio: number) {
+  return 1200 * Math.log2(ratio);
+}
+
+const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+const PYTHAGOREAN_RATIOS = [
+  1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128
+];
+
+/** Quarter-comma meantone: fifths narrowed so major thirds are pure 5/4. */
+function meantoneDegrees() {
+  const fifth = ratioToCents(Math.pow(5, 1 / 4));
+  // Chain of fifths from Eb to G#, the usual meantone wolf placement.
+  const degrees = new Array<number>(12).fill(0);
+  for (let step = -3; step <= 8; step += 1) {
+    const pitchClass = (((step * 7) % 12) + 12) % 12;
+    degrees[pitchClass] = (((step * fifth) % 1200) + 1200) % 1200;
+  }
+  return degrees;
+}
+
+const TEMPERAMENT_DEGREES: Record<Exclude<Temperament, "scala">, number[]> = {
+  equal: NOTE_NAMES.map((_, i) => i * 100),
+  just: JUST_RATIOS.map(ratioToCents),
+  pythagorean: PYTHAGOREAN_RATIOS.map(ratioToCents),
+  meantone: meantoneDegrees()
+};
+
+function scaleOf(tuning: Tuning): ScalaScale {
+  if (tuning.temperament === "scala" && tuning.scala) return tuning.scala;
+  const temperament = tuning.temperament === "scala" ? "equal" : tuning.temperament;
+  return { description: "", degrees: TEMPERAMENT_DEGREES[temperament], period: 1200 };
+}
+
+/** Cents of a MIDI note above an arbitrary origin in the tuning's scale. */
+function noteCents(midi: number, tuning: Tuning) {
+  const { degrees, period } = scaleOf(tuning);
+  const steps = midi - tuning.tonic;
+  const degree = ((steps % 12) + 12) % 12;
+  return Math.floor(steps / 12) * period + degrees[degree];
+}
+
+/** Frequency of a MIDI note, anchored so that A4 sounds at the reference. */
+export function noteFrequency(midi: number, tuning: Tuning) {
+  const cents = noteCents(midi, tuning) - noteCents(A4_MIDI, tuning);
+  return tuning.reference * Math.pow(2, cents / 1200);
+}
+
+/** The note closest to `freq` and how far `freq` is from it in cents. */
+export function nearestNote(freq: number, tuning: Tuning) {
+  const guess = Math.round(A4_MIDI + 12 * Math.log2(freq / tuning.reference));
+  let best = { midi: guess, cents: Infinity };
+  for (let midi = guess - 2; midi <= guess + 2; midi += 1) {
+    const cents = ratioToCents(freq / noteFrequency(midi, tuning));
+    if (Math.abs(cents) < Math.abs(best.cents)) best = { midi, cents };
+  }
+  return best;
+}
+
+export function noteName(midi: number) {
+  const name = NOTE_NAMES[((midi % 12) + 12) % 12];
+  return `${name}${Math.floor(midi / 12) - 1}`;
+}
+
+/**
+ * Parses note names such as "A4", "C#3 +15c", "Bb2 -7.5 cents" or "e♭5".
+ * Returns null when the text isn't a note.
+ */
+export function parseNote(text: string) {
+  const match = text
+    .trim()
+    .match(/^([A-Ga-g])\s*(#|b|♯|♭)?\s*(-?\d+)\s*(?:([+-])\s*(\d+(?:\.\d+)?)\s*(?:c|cents?|¢)?)?$/);
+  if (!match) return null;
+  const [, letter, accidental, octave, sign, amount] = match;
+  const base = NOTE_NAMES.indexOf(letter.toUpperCase());
+  const shift = accidental === "#" || accidental === "♯" ? 1 : accidental ? -1 : 0;
+  const midi = (Number(octave) + 1) * 12 + base + shift;
+  const cents = amount ? Number(amount) * (sign === "-" ? -1 : 1) : 0;
+  return { midi, cents };
+}
+
+export function noteToFrequency(midi: number, cents: number, tuning: Tuning) {
+  return noteFrequency(midi, tuning) * Math.pow(2, cents / 1200);
+}
+
+function parsePitch(line: string) {
+  const value = line.trim().split(/\s+/)[0];
+  if (value.includes(".")) {
+    const cents = Number(value);
+    return Number.isFinite(cents) ? cents : null;
+  }
+  const [numerator, denominator = "1"] = value.split("/");
+  const ratio = Number(numerator) / Number(denominator);
+  return Number.isFinite(ratio) && ratio > 0 ? ratioToCents(ratio) : null;
+}
+
+/**
+ * Parses a Scala `.scl` file. Only 12-note scales are accepted so they can
+ * be played from the keyboard and named like ordinary notes.
+ */
+export function parseScala(text: string): ScalaScale {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith("!"));
+  const description = (lines.shift() ?? "").trim();
+  const count = Number((lines.shift() ?? "").trim());
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error("Missing note count");
+  }
+  if (count !== 12) {
+    throw new Error(`Scale has ${count} notes; only 12-note scales are supported`);
+  }
+
+  const pitches = lines
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, count)
+    .map(parsePitch);
+  if (pitches.length < count || pitches.some((pitch) => pitch === null)) {
+    throw new Error("Invalid pitch line");
+  }
+  const cents = pitches as number[];
+  return { description, degrees: [0, ...cents.slice(0, 11)], period: cents[11] };
+}
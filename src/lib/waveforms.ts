@@ -0,0 +1,36 @@
+import { NOISE_TYPES, NoiseType } from "./noise";
+
+export type Waveform = OscillatorType | NoiseType;
+
+export type ClassicWaveform = "square" | "triangle" | "sawtooth";
+
+export const WAVEFORMS: OscillatorType[] = ["sine", "square", "triangle", "sawtooth"];
+/** Shapes with harmonics that can reach Nyquist, so they can be band-limited. */
+export const CLASSIC_WAVEFORMS: ClassicWaveform[] = ["square", "triangle", "sawtooth"];
+/** Keeps PeriodicWave builds cheap; at 10 Hz and 48 kHz this is still most of the band. */
+export const MAX_BAND_HARMONICS = 2048;
+
+export const WAVEFORM_ICONS: Partial<Record<Waveform, string>> = {
+  sine: "~",
+  square: "[]",
+  triangle: "/\\",
+  sawtooth: "/|",
+  custom: "{}",
+  white: "::",
+  pink: ":.",
+  brown: "..",
+  bandpass: "/\\_"
+};
+
+export function isNoise(waveform: Waveform): waveform is NoiseType {
+  return (NOISE_TYPES as string[]).includes(waveform);
+}
+
+export function isClassic(waveform: Waveform): waveform is ClassicWaveform {
+  return (CLASSIC_WAVEFORMS as string[]).includes(waveform);
+}
+
+/** Harmonics of `frequency` that fit below Nyquist, at least the fundamental. */
+export function harmonicLimit(frequency: number, sampleRate: number) {
+  return Math.max(1, Math.min(MAX_BAND_HARMONICS, Math.floor(sampleRate / 2 / frequency)));
+}
@@ -0,0 +1,190 @@
+import { EngineTimers } from "../audio/engine";
+import { Limiter } from "../audio/limiter";
+
+/**
+ * Just enough of the Web Audio API to build the tone graph outside a
+ * browser. Params take every scheduled value straight away and record it,
+ * so tests can check what the engine asked for.
+ */
+export interface FakeParam {
+  value: number;
+  events: [string, number, number][];
+}
+
+export interface FakeNode {
+  kind: string;
+  connections: unknown[];
+  started: boolean;
+  stopped: boolean;
+  [field: string]: unknown;
+}
+
+export interface FakeContext {
+  currentTime: number;
+  sampleRate: number;
+  closed: boolean;
+  nodes: FakeNode[];
+  destination: FakeNode;
+}
+
+function createParam(value = 0) {
+  const param = {
+    value,
+    events: [] as [string, number, number][],
+    setValueAtTime(next: number, time: number) {
+      param.events.push(["set", next, time]);
+      param.value = next;
+      return param;
+    },
+    linearRampToValueAtTime(next: number, time: number) {
+      param.events.push(["linear", next, time]);
+      param.value = next;
+      return param;
+    },
+    exponentialRampToValueAtTime(next: number, time: number) {
+      param.events.push(["exponential", next, time]);
+      param.value = next;
+      return param;
+    },
+    setTargetAtTime(next: number, time: number) {
+      param.events.push(["target", next, time]);
+      param.value = next;
+      return param;
+    },
+    cancelScheduledValues(time: number) {
+      param.events.push(["cancel", param.value, time]);
+      return param;
+    }
+  };
+  return param;
+}
+
+function createNode(kind: string, params: Record<string, number> = {}): FakeNode {
+  const node: FakeNode = {
+    kind,
+    connections: [],
+    started: false,
+    stopped: false,
+    connect(target: unknown) {
+      node.connections.push(target);
+      return target;
+    },
+    disconnect() {
+      node.connections = [];
+    },
+    start() {
+      node.started = true;
+    },
+    stop() {
+      node.stopped = true;
+    }
+  };
+  Object.entries(params).forEach(([name, value]) => {
+    node[name] = createParam(value);
+  });
+  return node;
+}
+
+export function createFakeContext(sampleRate = 48000) {
+  const fake: FakeContext & Record<string, unknown> = {
+    currentTime: 0,
+    sampleRate,
+    closed: false,
+    nodes: [],
+    destination: createNode("destination")
+  };
+  const add = (node: FakeNode) => {
+    fake.nodes.push(node);
+    return node;
+  };
+
+  Object.assign(fake, {
+    createOscillator: () => {
+      const node = add(createNode("oscillator", { frequency: 440, detune: 0 }));
+      node.type = "sine";
+      node.periodicWave = null;
+      node.setPeriodicWave = (wave: unknown) => {
+        node.periodicWave = wave;
+        node.type = "custom";
+      };
+      return node;
+    },
+    createGain: () => add(createNode("gain", { gain: 1 })),
+    createStereoPanner: () => add(createNode("panner", { pan: 0 })),
+    createBiquadFilter: () => add(createNode("filter", { frequency: 350, Q: 1 })),
+    createAnalyser: () => add(createNode("analyser")),
+    createChannelSplitter: () => add(createNode("splitter")),
+    createChannelMerger: () => add(createNode("merger")),
+    createBufferSource: () => add(createNode("bufferSource", { playbackRate: 1 })),
+    createPeriodicWave: (real: Float32Array, imag: Float32Array) => ({ real, imag }),
+    createBuffer: (channels: number, length: number, rate: number) => {
+      const data = Array.from({ length: channels }, () => new Float32Array(length));
+      return {
+        length,
+        sampleRate: rate,
+        numberOfChannels: channels,
+        getChannelData: (channel: number) => data[channel],
+        copyToChannel: (samples: Float32Array, channel: number) => data[channel].set(samples)
+      };
+    },
+    close: async () => {
+      fake.closed = true;
+    }
+  });
+  return fake;
+}
+
+export function asContext(fake: FakeContext) {
+  return fake as unknown as BaseAudioContext;
+}
+
+export function nodesOf(fake: FakeContext, kind: string) {
+  return fake.nodes.filter((node) => node.kind === kind);
+}
+
+export function paramOf(node: FakeNode, name: string) {
+  return node[name] as FakeParam;
+}
+
+export function createFakeLimiter(ceiling: number): Limiter {
+  const node = createNode("limiter");
+  node.port = { onmessage: null };
+  node.parameters = new Map([["ceiling", createParam(ceiling)]]);
+  return { node: node as unknown as AudioWorkletNode, gain: { current: 1 } };
+}
+
+/** Timers that only run when the test says so. */
+export function createFakeTimers() {
+  const intervals = new Map<number, () => void>();
+  const timeouts = new Map<number, () => void>();
+  let nextId = 1;
+  const timers: EngineTimers = {
+    setInterval: (callback) => {
+      intervals.set(nextId, callback);
+      return nextId++;
+    },
+    clearInterval: (timer) => {
+      intervals.delete(timer as number);
+    },
+    setTimeout: (callback) => {
+      timeouts.set(nextId, callback);
+      return nextId++;
+    }
+  };
+  return {
+    timers,
+    /** Runs every interval once. */
+    tick() {
+      intervals.forEach((callback) => callback());
+    },
+    /** Fires every pending timeout. */
+    flush() {
+      const pending = [...timeouts.values()];
+      timeouts.clear();
+      pending.forEach((callback) => callback());
+    },
+    get running() {
+      return intervals.size;
+    }
+  };
+}